@@ -1,5 +1,5 @@
 
-import React, { useState, useCallback, useEffect, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useRef, useMemo } from 'react';
 import { GoogleGenAI, Type } from "@google/genai";
 import { Deck } from './components/Deck';
 import { Mixer } from './components/Mixer';
@@ -17,9 +17,35 @@ import { AIHypeMan } from './components/AIHypeMan';
 import { VocalFX } from './components/VocalFX';
 import { SamplerPanel } from './components/SamplerPanel';
 import { ThemeToggle } from './components/ThemeToggle';
-import type { DeckState, Song, EqualizerPreset, Beat, BeatCategoryType, FxType, FxSettings, FxChain, AutoDjSettings, MappableControl, MidiMapping, MidiMessageId, CrossfaderCurveType } from './types';
+import type { DeckId, CrossfaderAssignment, MixerChannel, DeckState, Song, HotCue, CueType, BeatgridAdjustment, QuantizeResolution, AnalysisProgress, TrackAnalysis, StorageUsage, EqualizerPreset, Beat, BeatCategoryType, FxType, FxSettings, FxChain, AutoDjSettings, PlaylistNode, PlaylistNodeType, SmartRule, SessionLog, SongLabelUpdate, DuplicateGroup, MappableControl, MidiMapping, MidiMessageId, CrossfaderCurveType } from './types';
 // FIX: Corrected typo in import from 'EQ_FREQU KdyžENCIES' to 'EQ_FREQUENCIES'.
-import { PRESETS, EQ_FREQUENCIES, FX_LIST, FX_PARAM_CONFIG } from './constants';
+import { PRESETS, EQ_FREQUENCIES, FX_LIST, FX_PARAM_CONFIG, HOT_CUE_COUNT, MAX_KEY_SHIFT, DECK_IDS, DEFAULT_DECK_COUNT, DEFAULT_CROSSFADER_ASSIGNMENTS } from './constants';
+import { analyzeAudioBuffer, applyAnalysisToSong } from './utils/analysis';
+import { adjustBeatgrid } from './utils/tempo';
+import { snapToGrid, nextGridLine, getGridStep } from './utils/quantize';
+import { getSyncCorrection, PITCH_BEND, type SyncCorrection } from './utils/sync';
+import { createAnalysisQueue, type AnalysisQueue } from './utils/analysisQueue';
+import { createDeckTransport, createClockScheduler, type DeckTransport, type TransportLoop, type TransportSource, type SourceFactory } from './utils/transport';
+import { loadKeyLockProcessor, createKeyLockNode, setKeyLockPitch, getKeyLockLatency, getPitchRatio, getPlayableKeyShift, needsPitchShift } from './utils/keyLock';
+import { readTags, applyTagsToSong } from './utils/tags';
+import { writeTagsToFile } from './utils/tagWriter';
+import { downloadBlob } from './utils/download';
+import { loadPlaylists, savePlaylists, createPlaylistNode, createSmartCrate, updateSmartCrateRules, renamePlaylistNode, deletePlaylistNode, movePlaylistNode, addSongsToPlaylist, removeSongsFromPlaylist, reorderPlaylistSongs, getPlaylistSongs } from './utils/playlists';
+import { mergeLibraryImport, type LibraryImport } from './utils/libraryImport';
+import { parseRekordboxXml, exportRekordboxXml } from './utils/rekordbox';
+import { parseTraktorNml, exportTraktorNml } from './utils/traktor';
+import { parsePlaylistFile, matchPlaylistEntries, writePlaylistFile, type PlaylistFileFormat } from './utils/playlistFiles';
+import { parseSeratoCrateFiles, encodeSeratoCrate, toSeratoCrateFileName, toSeratoPath } from './utils/serato';
+import { searchLibrary as searchSongs, parseSearchQuery } from './utils/searchQuery';
+import { getChannelCrossfaderGain } from './utils/crossfader';
+import { updateSessionLog, closeSessionLog, exportSessionLog, getPlayHistory, type SessionLogFormat } from './utils/sessionLog';
+import { shiftCamelotKey, getMatchingKeyShift, camelotToOpenKey } from './utils/key';
+import { isBpmWithin, isGenreIn, isKeyCompatibleWith, matchesEnergyFlow, hasRatingAtLeast, hasColorIn, hasAllTags } from './utils/trackRules';
+import { applyLabelUpdate, getAllTags } from './utils/songLabels';
+import { findDuplicateGroups } from './utils/fingerprint';
+import { mergeSongMetadata, replaceSongIdsInPlaylists, replaceSongIdsInSessionLog } from './utils/duplicates';
+import { hashAudioContent, getCachedAnalysis, saveAnalysisToCache } from './utils/analysisCache';
+import { saveBeatsToDB, loadBeatsFromDB, clearBeatsInDB, loadLibraryFromDB, syncLibraryToDB, saveQueuesToDB, getFileFromHandle, getStorageEstimate, requestPersistentStorage, saveSessionLogToDB, loadSessionLogsFromDB, deleteSessionLogFromDB, type PersistedLibraryEntry } from './utils/db';
 
 type LayoutMode = 'pro' | 'performance' | 'library';
 type Theme = 'rainbow' | 'black';
@@ -32,141 +58,6 @@ const CAMELOT_KEYS = [
 ];
 const MOCK_GENRES = ['House', 'Techno', 'Trance', 'Drum & Bass', 'Pop', 'Hip Hop', 'Rock', 'Ambient'];
 
-// --- IndexedDB Beat Storage Helpers ---
-const DB_NAME = 'dj-app-beats-db';
-const DB_VERSION = 1;
-const STORE_NAME = 'beats';
-
-const openDB = (): Promise<IDBDatabase> => {
-    return new Promise((resolve, reject) => {
-        const request = indexedDB.open(DB_NAME, DB_VERSION);
-        request.onerror = () => reject("Error opening DB");
-        request.onsuccess = () => resolve(request.result);
-        request.onupgradeneeded = (event) => {
-            const db = (event.target as IDBOpenDBRequest).result;
-            if (!db.objectStoreNames.contains(STORE_NAME)) {
-                db.createObjectStore(STORE_NAME, { keyPath: 'id' });
-            }
-        };
-    });
-};
-
-const saveBeatsToDB = async (beats: Record<string, (Beat | null)[]>) => {
-    const db = await openDB();
-    const transaction = db.transaction(STORE_NAME, 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
-    await new Promise<void>((resolve, reject) => {
-        const clearRequest = store.clear();
-        clearRequest.onsuccess = () => resolve();
-        clearRequest.onerror = () => reject(clearRequest.error);
-    });
-
-    for (const category in beats) {
-        beats[category].forEach((beat, index) => {
-            if (beat) {
-                // We can't store the File or AudioBuffer object, so create a copy without them.
-                const { file, audioBuffer, ...storableBeat } = beat;
-                store.add({
-                    id: `${category}-${index}`,
-                    category,
-                    index,
-                    beat: storableBeat,
-                });
-            }
-        });
-    }
-};
-
-const loadBeatsFromDB = async (): Promise<Record<string, (Beat | null)[]>> => {
-    try {
-        const db = await openDB();
-        return new Promise((resolve) => {
-            const transaction = db.transaction(STORE_NAME, 'readonly');
-            const store = transaction.objectStore(STORE_NAME);
-            const request = store.getAll();
-            request.onsuccess = () => {
-                const savedBeats = request.result;
-                const newBeatsState: Record<string, (Beat | null)[]> = {
-                    drum: Array(12).fill(null),
-                    tuning: Array(12).fill(null),
-                    instrumental: Array(12).fill(null),
-                };
-                savedBeats.forEach(item => {
-                    if (newBeatsState[item.category]) {
-                        newBeatsState[item.category][item.index] = item.beat;
-                    }
-                });
-                resolve(newBeatsState);
-            };
-            request.onerror = () => resolve({
-                drum: Array(12).fill(null),
-                tuning: Array(12).fill(null),
-                instrumental: Array(12).fill(null),
-            });
-        });
-    } catch (error) {
-        console.error("Failed to load beats from IndexedDB:", error);
-        return {
-            drum: Array(12).fill(null),
-            tuning: Array(12).fill(null),
-            instrumental: Array(12).fill(null),
-        };
-    }
-};
-
-const clearBeatsInDB = async () => {
-    const db = await openDB();
-    const transaction = db.transaction(STORE_NAME, 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
-    store.clear();
-};
-
-
-// Enhanced mock key detection function
-const detectKey = (buffer: AudioBuffer): string => {
-    // This is an enhanced mock key detection algorithm. In a real-world scenario,
-    // this would involve a proper FFT and chromagram analysis. Here, we simulate
-    // it by analyzing the audio data to create a more plausible and content-aware
-    // deterministic hash.
-
-    const channelData = buffer.getChannelData(0); // Analyze the first channel
-    const sampleRate = buffer.sampleRate;
-    let sumOfSquares = 0;
-    let zeroCrossings = 0;
-    let peakAmplitude = 0;
-
-    // We'll analyze a subset of samples for performance (e.g., first 5 seconds).
-    const analysisWindow = Math.min(channelData.length, sampleRate * 5); 
-
-    for (let i = 0; i < analysisWindow; i++) {
-        const sample = channelData[i];
-        sumOfSquares += sample * sample;
-
-        if (Math.abs(sample) > peakAmplitude) {
-            peakAmplitude = Math.abs(sample);
-        }
-        
-        // Check for zero crossing
-        if (i > 0 && Math.sign(channelData[i]) !== Math.sign(channelData[i - 1])) {
-            zeroCrossings++;
-        }
-    }
-
-    // RMS (Root Mean Square) - relates to loudness/energy
-    const rms = Math.sqrt(sumOfSquares / analysisWindow);
-
-    // Zero-crossing rate - crude approximation of dominant frequency/pitch
-    const zcr = zeroCrossings / (analysisWindow / sampleRate);
-    
-    // Create a "musical hash" from these derived properties.
-    // The multipliers are arbitrary primes to create a better distribution.
-    const musicalHash = (rms * 1000) * 17 + (zcr * 31) + (peakAmplitude * 100) * 43;
-
-    const hash = Math.floor(Math.abs(musicalHash)) % CAMELOT_KEYS.length;
-
-    return CAMELOT_KEYS[hash];
-};
-
 const getMockProperties = (fileName: string): { key: string, genre: string, bpm: number } => {
     let hash = 0;
     for (let i = 0; i < fileName.length; i++) {
@@ -183,6 +74,70 @@ const getMockProperties = (fileName: string): { key: string, genre: string, bpm:
     };
 };
 
+// One value per deck in the registry, e.g. state or audio nodes
+const createDeckRecord = <T,>(create: (deckId: DeckId) => T): Record<DeckId, T> => {
+    return DECK_IDS.reduce((acc, deckId) => {
+        acc[deckId] = create(deckId);
+        return acc;
+    }, {} as Record<DeckId, T>);
+};
+
+const createDeckState = (deckId: DeckId): DeckState => ({
+    song: null,
+    isPlaying: false,
+    gain: 50,
+    volume: 0.75,
+    playbackRate: 1,
+    currentTime: 0,
+    duration: 0,
+    platterAngle: 0,
+    cuePoints: [],
+    memoryCue: null,
+    bpm: null,
+    loop: { start: null, end: null, active: false },
+    waveform: undefined,
+    key: null,
+    openKey: null,
+    zoom: 1,
+    viewStartRatio: 0,
+    perceivedLoudness: undefined,
+    keyLock: false,
+    keyShift: 0,
+    quantize: false,
+    quantizeResolution: 1,
+    slipMode: false,
+    slipPosition: null,
+    isReversed: false,
+    sync: false,
+    barSync: false,
+    nudge: 0,
+    pitchBend: 0,
+    scratchModeEnabled: false,
+    wasPlayingBeforeScratch: false,
+    crossfaderAssignment: DEFAULT_CROSSFADER_ASSIGNMENTS[deckId],
+});
+
+// First hot cue of a kind, e.g. the load point; pads are searched in order
+const findCue = (cuePoints: (HotCue | undefined)[] | undefined, type: CueType): HotCue | undefined => {
+    return cuePoints?.find(cue => cue?.type === type);
+};
+
+// Tempo rate with any pitch bend or sync nudge on top
+const getDeckRate = (deck: DeckState): number => deck.playbackRate * (1 + deck.nudge);
+
+// The deck's key as heard: the song's key moved by as much of the key shift as plays at its rate
+const withHeardKey = (deck: DeckState): DeckState => {
+    const songKey = deck.song?.key;
+    if (!songKey) return deck;
+    const key = shiftCamelotKey(songKey, getPlayableKeyShift(deck, getDeckRate(deck))) ?? songKey;
+    return key === deck.key ? deck : { ...deck, key, openKey: camelotToOpenKey(key) };
+};
+
+// The loop the transport plays: only an active one with both ends set
+const getTransportLoop = (loop: DeckState['loop']): TransportLoop | null => {
+    return loop.active && loop.start !== null && loop.end !== null ? { start: loop.start, end: loop.end } : null;
+};
+
 const generateInitialFxSettings = (): Record<FxType, FxSettings> => {
     return FX_LIST.reduce((acc, fx) => {
         acc[fx] = FX_PARAM_CONFIG[fx].defaults;
@@ -190,6 +145,14 @@ const generateInitialFxSettings = (): Record<FxType, FxSettings> => {
     }, {} as Record<FxType, FxSettings>);
 };
 
+// The File System Access picker is not in the DOM typings yet
+interface FilePickerWindow extends Window {
+    showOpenFilePicker?(options: {
+        multiple?: boolean;
+        types?: { description?: string; accept: Record<string, string[]> }[];
+    }): Promise<FileSystemFileHandle[]>;
+}
+
 // --- FX Audio Node Types ---
 interface FxNodes {
     input: GainNode;
@@ -199,63 +162,50 @@ interface FxNodes {
     [key: string]: AudioNode | AudioNode[]; // For other specific nodes
 }
 
-// Generate a simplified waveform for visualization
-const generateWaveform = (buffer: AudioBuffer): Float32Array => {
-    const rawData = buffer.getChannelData(0); // Use the first channel
-    const samples = 512; // The number of data points for the waveform
-    const blockSize = Math.floor(rawData.length / samples);
-    const filteredData = new Float32Array(samples);
-    for (let i = 0; i < samples; i++) {
-        const blockStart = blockSize * i;
-        let max = 0;
-        for (let j = 0; j < blockSize; j++) {
-            const val = Math.abs(rawData[blockStart + j]);
-            if (val > max) {
-                max = val;
-            }
-        }
-        filteredData[i] = max;
-    }
-    return filteredData;
-};
+// Auto DJ mixes across the crossfader between the first two decks
+const AUTO_DJ_DECK_IDS: readonly DeckId[] = ['A', 'B'];
+
+// --- Deck Audio Node Types ---
+// Auto DJ's filters between a deck's fader and the FX chain
+interface TransitionNodes {
+    entry: BiquadFilterNode;
+    highPassFilter: BiquadFilterNode;
+    lowPassFilter: BiquadFilterNode;
+    eqFadeFilter: BiquadFilterNode;
+}
+
+// Where a slip action left the shadow playhead, read against the audio clock
+interface SlipAnchor {
+    contextTime: number;
+    offset: number;
+    rate: number;
+}
+
+// A deck's audio graph and playback bookkeeping, kept outside React state
+interface DeckAudio {
+    transport: DeckTransport | null;
+    buffer: AudioBuffer | null;
+    keyLockNode: AudioWorkletNode | null;
+    gainNode: GainNode | null;
+    preFaderTap: GainNode | null;
+    transitionNodes: TransitionNodes | null;
+    scratchNoiseGain: GainNode | null;
+    scratchNoiseFilter: BiquadFilterNode | null;
+    scratchSnippetSource: AudioBufferSourceNode | null;
+    slipAnchor: SlipAnchor | null;
+    syncPhaseOffset: number;
+}
 
 const getArtistFromName = (name: string): string | null => {
     const match = name.match(/^(.*?)\s+-\s+.+$/);
     return match ? match[1].trim() : null;
 };
 
-// Calculate Root Mean Square to estimate loudness
-const calculateLoudness = (buffer: AudioBuffer): number => {
-    const data = buffer.getChannelData(0);
-    let sumOfSquares = 0.0;
-    for (let i = 0; i < data.length; i++) {
-        sumOfSquares += data[i] * data[i];
-    }
-    const rms = Math.sqrt(sumOfSquares / data.length);
-    // Return a value in a more usable range, avoiding zero.
-    return Math.max(0.01, rms);
-};
+// Prefer the embedded artist tag, falling back to "Artist - Title" file names
+const getSongArtist = (song: Song): string | null => song.artist ?? getArtistFromName(song.name);
 
-// Mock energy level calculation based on loudness and genre
-const calculateEnergy = (loudness: number, genre?: string): number => {
-    let energy = Math.ceil(loudness * 50); // Base energy from loudness (0-10 scale)
-    switch (genre) {
-        case 'Techno':
-        case 'Drum & Bass':
-        case 'Trance':
-            energy += 2;
-            break;
-        case 'House':
-        case 'Pop':
-        case 'Rock':
-            energy += 1;
-            break;
-        case 'Ambient':
-            energy -= 2;
-            break;
-    }
-    return Math.max(1, Math.min(10, energy)); // Clamp to 1-10 range
-};
+// Returns a state updater that swaps in updated copies of songs by id
+const replaceSongs = (updates: Map<number, Song>) => (songs: Song[]) => songs.map(s => updates.get(s.id) ?? s);
 
 const MidiIcon: React.FC<{ className?: string }> = ({ className }) => (
     <svg className={className} xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor">
@@ -320,14 +270,14 @@ const mapGainKnobToFactor = (value: number): number => {
 const App: React.FC = () => {
     const [theme, setTheme] = useState<Theme>('rainbow');
     const [layout, setLayout] = useState<LayoutMode>('pro');
-    const [isDeckABrowserVisible, setIsDeckABrowserVisible] = useState(false);
-    const [isDeckBBrowserVisible, setIsDeckBBrowserVisible] = useState(false);
+    const [deckCount, setDeckCount] = useState(DEFAULT_DECK_COUNT);
+    const [visibleDeckBrowsers, setVisibleDeckBrowsers] = useState<Record<DeckId, boolean>>(() => createDeckRecord(() => false));
 
     const audioContextRef = useRef<AudioContext | null>(null);
+    const keyLockReadyRef = useRef(false); // Key lock worklet loaded
     const masterGainRef = useRef<GainNode | null>(null);
     const analyserRef = useRef<AnalyserNode | null>(null);
-    const deckAAnalyserRef = useRef<AnalyserNode | null>(null);
-    const deckBAnalyserRef = useRef<AnalyserNode | null>(null);
+    const deckAnalysersRef = useRef<Record<DeckId, AnalyserNode | null>>(createDeckRecord(() => null));
     
     // EQ Audio Nodes
     const eqNodesRef = useRef<BiquadFilterNode[]>([]);
@@ -351,8 +301,7 @@ const App: React.FC = () => {
     const tapTempoTimestamps = useRef<number[]>([]);
 
     // Headphone Cue Nodes
-    const deckACueGainRef = useRef<GainNode | null>(null);
-    const deckBCueGainRef = useRef<GainNode | null>(null);
+    const deckCueGainsRef = useRef<Record<DeckId, GainNode | null>>(createDeckRecord(() => null));
     const cueBusGainRef = useRef<GainNode | null>(null);
     const masterMonitorGainRef = useRef<GainNode | null>(null);
     const cueMonitorGainRef = useRef<GainNode | null>(null);
@@ -371,65 +320,65 @@ const App: React.FC = () => {
     const samplerGainRef = useRef<GainNode | null>(null);
 
 
-    const deckAAudioRef = useRef<any>({ source: null, gainNode: null, lastUpdateTime: 0, transitionNodes: null, preFaderTap: null, scratchNoiseGain: null, scratchNoiseFilter: null, scratchSnippetSource: null });
-    const deckBAudioRef = useRef<any>({ source: null, gainNode: null, lastUpdateTime: 0, transitionNodes: null, preFaderTap: null, scratchNoiseGain: null, scratchNoiseFilter: null, scratchSnippetSource: null });
+    const deckAudioRefs = useMemo(() => createDeckRecord((): React.MutableRefObject<DeckAudio> => ({
+        current: { transport: null, buffer: null, keyLockNode: null, gainNode: null, preFaderTap: null, transitionNodes: null, scratchNoiseGain: null, scratchNoiseFilter: null, scratchSnippetSource: null, slipAnchor: null, syncPhaseOffset: 0 },
+    })), []);
+    // Track ends, scheduled jumps and Auto DJ transitions, timed on the AudioContext clock
+    const clockScheduler = useMemo(() => createClockScheduler(), []);
     const transitionIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
-    const transitionTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-
-
-    const [deckA, setDeckA] = useState<DeckState>({
-        song: null,
-        isPlaying: false,
-        gain: 50,
-        volume: 0.75,
-        playbackRate: 1,
-        currentTime: 0,
-        duration: 0,
-        platterAngle: 0,
-        cuePoints: [],
-        bpm: null,
-        loop: { start: null, end: null, active: false },
-        waveform: undefined,
-        key: null,
-        zoom: 1,
-        viewStartRatio: 0,
-        perceivedLoudness: undefined,
-        keyLock: false,
-        scratchModeEnabled: false,
-        wasPlayingBeforeScratch: false,
-    });
-    const [deckB, setDeckB] = useState<DeckState>({
-        song: null,
-        isPlaying: false,
-        gain: 50,
-        volume: 0.75,
-        playbackRate: 1,
-        currentTime: 0,
-        duration: 0,
-        platterAngle: 0,
-        cuePoints: [],
-        bpm: null,
-        loop: { start: null, end: null, active: false },
-        waveform: undefined,
-        key: null,
-        zoom: 1,
-        viewStartRatio: 0,
-        perceivedLoudness: undefined,
-        keyLock: false,
-        scratchModeEnabled: false,
-        wasPlayingBeforeScratch: false,
-    });
+    const cancelTransitionEndRef = useRef<(() => void) | null>(null);
+
+
+    // --- Deck Registry ---
+    const [decks, setDecks] = useState<Record<DeckId, DeckState>>(() => createDeckRecord(createDeckState));
+    // The last rendered deck states, for callbacks that run after their render is stale (transition ends)
+    const decksRef = useRef(decks);
+    decksRef.current = decks;
+    // Per-deck setters over the registry; an updater handing back its deck unchanged leaves the registry as it was
+    const deckSetters = useMemo(() => createDeckRecord((deckId): React.Dispatch<React.SetStateAction<DeckState>> => update => {
+        setDecks(prev => {
+            const next = typeof update === 'function' ? update(prev[deckId]) : update;
+            return next === prev[deckId] ? prev : { ...prev, [deckId]: next };
+        });
+    }), []);
+    const activeDeckIds = DECK_IDS.slice(0, deckCount);
 
     const [crossfader, setCrossfader] = useState<number>(0);
     const [crossfaderCurve, setCrossfaderCurve] = useState<CrossfaderCurveType>('linear');
     const [masterVolume, setMasterVolume] = useState<number>(0.8);
     const [library, setLibrary] = useState<Song[]>([]);
-    const [queueA, setQueueA] = useState<Song[]>([]);
-    const [queueB, setQueueB] = useState<Song[]>([]);
+    // A play queue per deck; Auto DJ takes its next tracks from A's and B's
+    const [queues, setQueues] = useState<Record<DeckId, Song[]>>(() => createDeckRecord(() => []));
+    const updateQueue = useCallback((deckId: DeckId, update: (queue: Song[]) => Song[]) => {
+        setQueues(prev => ({ ...prev, [deckId]: update(prev[deckId]) }));
+    }, []);
+    // Song edits and removals reach every queue a song is in
+    const updateAllQueues = useCallback((update: (queue: Song[]) => Song[]) => {
+        setQueues(prev => createDeckRecord(deckId => update(prev[deckId])));
+    }, []);
+    const [playlists, setPlaylists] = useState<PlaylistNode[]>(loadPlaylists);
+    const [duplicateScan, setDuplicateScan] = useState<{ groups: DuplicateGroup[], unscanned: number } | null>(null);
+    const [isFindingDuplicates, setIsFindingDuplicates] = useState(false);
+    const playSessionRef = useRef({ id: Date.now(), startedAt: Date.now() });
+    const [sessionLog, setSessionLog] = useState<SessionLog>(() => ({ ...playSessionRef.current, entries: [] }));
+    const [pastSessionLogs, setPastSessionLogs] = useState<SessionLog[]>([]);
+
+    // Library Persistence State
+    const [isLibraryRestored, setIsLibraryRestored] = useState(false);
+    const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+    const persistedLibraryRef = useRef<Map<number, PersistedLibraryEntry>>(new Map());
+    const librarySyncRef = useRef<Promise<void>>(Promise.resolve());
+
+    // Background Analysis State
+    const analysisQueueRef = useRef<AnalysisQueue | null>(null);
+    const [analysisProgress, setAnalysisProgress] = useState<AnalysisProgress>({ total: 0, completed: 0, failed: 0, active: [] });
+    const [analysisConcurrency, setAnalysisConcurrency] = useState<number>(() => {
+        const saved = Number(localStorage.getItem('dj-analysis-concurrency'));
+        return saved > 0 ? saved : Math.max(1, Math.min(4, (navigator.hardwareConcurrency || 2) - 1));
+    });
     
     // Headphone Cue State
-    const [deckACue, setDeckACue] = useState(false);
-    const [deckBCue, setDeckBCue] = useState(false);
+    const [deckCues, setDeckCues] = useState<Record<DeckId, boolean>>(() => createDeckRecord(() => false));
     const [headphoneVolume, setHeadphoneVolume] = useState(80);
     const [headphoneMix, setHeadphoneMix] = useState(50); // 0=Cue, 100=Master
 
@@ -463,11 +412,11 @@ const App: React.FC = () => {
     });
     const [beatVolumes, setBeatVolumes] = useState<Record<BeatCategoryType, number>>({ drum: 100, tuning: 100, instrumental: 100 });
     const [frequencyData, setFrequencyData] = useState<Uint8Array>(new Uint8Array(0));
-    const [deckAFrequencyData, setDeckAFrequencyData] = useState<Uint8Array>(new Uint8Array(0));
-    const [deckBFrequencyData, setDeckBFrequencyData] = useState<Uint8Array>(new Uint8Array(0));
+    const [deckFrequencyData, setDeckFrequencyData] = useState<Record<DeckId, Uint8Array>>(() => createDeckRecord(() => new Uint8Array(0)));
     
     // Auto DJ State
     const [isAutoDjEnabled, setIsAutoDjEnabled] = useState(false);
+    const [syncMaster, setSyncMaster] = useState<DeckId | null>(null);
     const [autoDjActiveDeck, setAutoDjActiveDeck] = useState<'A' | 'B'>('A');
     const [nextAutoDjTrack, setNextAutoDjTrack] = useState<Song | null>(null);
     const [autoDjHistory, setAutoDjHistory] = useState<Song[]>([]);
@@ -480,6 +429,7 @@ const App: React.FC = () => {
         playlistSource: 'library',
         shuffle: true,
         harmonicMix: true,
+        harmonicKeyShift: true,
         genreMatch: false,
         bpmMatch: {
             enabled: true,
@@ -489,6 +439,9 @@ const App: React.FC = () => {
         autoGain: true,
         beatMatch: true,
         energyFlow: 'Any',
+        minRating: 0,
+        colorFilter: [],
+        requiredTags: [],
     });
 
 
@@ -526,8 +479,7 @@ const App: React.FC = () => {
 
     useEffect(() => {
         if (layout === 'library') {
-            setIsDeckABrowserVisible(false);
-            setIsDeckBBrowserVisible(false);
+            setVisibleDeckBrowsers(createDeckRecord(() => false));
         }
     }, [layout]);
 
@@ -540,25 +492,58 @@ const App: React.FC = () => {
         loadSavedBeats();
     }, []);
 
+    // Restore the music library and deck queues from IndexedDB on initial load
+    useEffect(() => {
+        const restoreLibrary = async () => {
+            const saved = await loadLibraryFromDB();
+            persistedLibraryRef.current = new Map(saved.library.map((song, position) => [song.id, { song, position }]));
+            setLibrary(saved.library);
+            setQueues(saved.queues);
+            setIsLibraryRestored(true);
+            setStorageUsage(await getStorageEstimate());
+        };
+        restoreLibrary();
+    }, []);
+
+    // Persist library changes. Syncs are chained so each one diffs against the last written snapshot.
+    useEffect(() => {
+        if (!isLibraryRestored) return;
+        librarySyncRef.current = librarySyncRef.current
+            .then(() => syncLibraryToDB(persistedLibraryRef.current, library))
+            .then(async (snapshot) => {
+                persistedLibraryRef.current = snapshot;
+                setStorageUsage(await getStorageEstimate());
+            })
+            .catch(error => console.error("Failed to save library to IndexedDB:", error));
+    }, [library, isLibraryRestored]);
+
+    useEffect(() => {
+        if (!isLibraryRestored) return;
+        saveQueuesToDB(queues).catch(error => console.error("Failed to save queues to IndexedDB:", error));
+    }, [queues, isLibraryRestored]);
+
 
     const initAudioContext = () => {
         if (!audioContextRef.current) {
             try {
                 const context = new (window.AudioContext || (window as any).webkitAudioContext)();
                 audioContextRef.current = context;
+                // Decks play without key lock until the time-stretcher has loaded
+                loadKeyLockProcessor(context)
+                    .then(() => { keyLockReadyRef.current = true; })
+                    .catch(error => console.error("Failed to load the key lock processor:", error));
 
                 // --- Master Path ---
                 masterGainRef.current = context.createGain();
 
                 // --- Headphone Cue Path ---
-                deckACueGainRef.current = context.createGain();
-                deckACueGainRef.current.gain.value = 0; // Start silent
-                deckBCueGainRef.current = context.createGain();
-                deckBCueGainRef.current.gain.value = 0; // Start silent
-                
                 cueBusGainRef.current = context.createGain();
-                deckACueGainRef.current.connect(cueBusGainRef.current);
-                deckBCueGainRef.current.connect(cueBusGainRef.current);
+                DECK_IDS.forEach(deckId => {
+                    const cueGain = context.createGain();
+                    cueGain.gain.value = 0; // Start silent
+                    cueGain.connect(cueBusGainRef.current!);
+                    deckCueGainsRef.current[deckId] = cueGain;
+                });
 
                 masterMonitorGainRef.current = context.createGain();
                 cueMonitorGainRef.current = context.createGain();
@@ -634,23 +619,24 @@ const App: React.FC = () => {
                 }
 
                 // --- Deck Pre-Fader Taps for Cueing ---
-                deckAAudioRef.current.preFaderTap = context.createGain();
-                deckBAudioRef.current.preFaderTap = context.createGain();
-                deckAAudioRef.current.preFaderTap.connect(deckACueGainRef.current);
-                deckBAudioRef.current.preFaderTap.connect(deckBCueGainRef.current);
-
-                // Deck Analysers
-                deckAAnalyserRef.current = context.createAnalyser();
-                deckAAnalyserRef.current.fftSize = 256;
-                const deckABufferLength = deckAAnalyserRef.current.frequencyBinCount;
-                setDeckAFrequencyData(new Uint8Array(deckABufferLength));
-                deckAAudioRef.current.preFaderTap.connect(deckAAnalyserRef.current); // Tap pre-fader for analyser
-
-                deckBAnalyserRef.current = context.createAnalyser();
-                deckBAnalyserRef.current.fftSize = 256;
-                const deckBBufferLength = deckBAnalyserRef.current.frequencyBinCount;
-                setDeckBFrequencyData(new Uint8Array(deckBBufferLength));
-                deckBAudioRef.current.preFaderTap.connect(deckBAnalyserRef.current); // Tap pre-fader for analyser
+                DECK_IDS.forEach(deckId => {
+                    const audioRef = deckAudioRefs[deckId];
+                    audioRef.current.preFaderTap = context.createGain();
+                    audioRef.current.preFaderTap.connect(deckCueGainsRef.current[deckId]!);
+
+                    // Deck Analyser
+                    const analyser = context.createAnalyser();
+                    analyser.fftSize = 256;
+                    audioRef.current.preFaderTap.connect(analyser); // Tap pre-fader for analyser
+                    deckAnalysersRef.current[deckId] = analyser;
+
+                    // Deck Transport: the playhead on the audio clock; a track played out stops the deck at its end
+                    audioRef.current.transport = createDeckTransport(context, {
+                        scheduler: clockScheduler,
+                        onEnded: () => deckSetters[deckId](d => ({ ...d, isPlaying: false, currentTime: d.duration })),
+                    });
+                });
+                setDeckFrequencyData(createDeckRecord(deckId => new Uint8Array(deckAnalysersRef.current[deckId]!.frequencyBinCount)));
 
                 // AutoDJ Transition Filters (for each deck)
                 const createTransitionNodeChain = () => {
@@ -674,8 +660,9 @@ const App: React.FC = () => {
                     
                     return { entry: highPassFilter, highPassFilter, lowPassFilter, eqFadeFilter };
                 };
-                deckAAudioRef.current.transitionNodes = createTransitionNodeChain();
-                deckBAudioRef.current.transitionNodes = createTransitionNodeChain();
+                DECK_IDS.forEach(deckId => {
+                    deckAudioRefs[deckId].current.transitionNodes = createTransitionNodeChain();
+                });
 
                 // Metronome Path
                 metronomeGainRef.current = context.createGain();
@@ -720,13 +707,11 @@ const App: React.FC = () => {
                     source.start();
                     return { source, filter, gain };
                 }
-                const deckAScratch = setupScratchNodes();
-                deckAAudioRef.current.scratchNoiseFilter = deckAScratch.filter;
-                deckAAudioRef.current.scratchNoiseGain = deckAScratch.gain;
-
-                const deckBScratch = setupScratchNodes();
-                deckBAudioRef.current.scratchNoiseFilter = deckBScratch.filter;
-                deckBAudioRef.current.scratchNoiseGain = deckBScratch.gain;
+                DECK_IDS.forEach(deckId => {
+                    const scratch = setupScratchNodes();
+                    deckAudioRefs[deckId].current.scratchNoiseFilter = scratch.filter;
+                    deckAudioRefs[deckId].current.scratchNoiseGain = scratch.gain;
+                });
 
 
             } catch (e) {
@@ -902,6 +887,15 @@ const App: React.FC = () => {
 
     }, [activeEffects]);
     
+    // Beat-synced FX follow the sync master, else the deck loudest at the master (playing decks first)
+    const getMasterGain = (deckId: DeckId) => decks[deckId].volume * getChannelCrossfaderGain(decks[deckId].crossfaderAssignment, crossfader, crossfaderCurve);
+    const loadedDeckIds = activeDeckIds.filter(id => decks[id].bpm);
+    const fxTempoCandidates = loadedDeckIds.some(id => decks[id].isPlaying) ? loadedDeckIds.filter(id => decks[id].isPlaying) : loadedDeckIds;
+    const fxTempoDeckId = syncMaster && loadedDeckIds.includes(syncMaster)
+        ? syncMaster
+        : fxTempoCandidates.reduce<DeckId | null>((loudest, id) => loudest && getMasterGain(loudest) >= getMasterGain(id) ? loudest : id, null);
+    const fxBpm = (fxTempoDeckId && decks[fxTempoDeckId].bpm) || 120;
+
     // Update FX parameters when settings change
     useEffect(() => {
         if (!audioContextRef.current) return;
@@ -924,8 +918,7 @@ const App: React.FC = () => {
             const p2Value = p2Config.min + (settings.param2 / 100) * (p2Config.max - p2Config.min);
 
             if (fxConfig.syncable) {
-                const bpm = crossfader <= 0 ? (deckA.bpm || 120) : (deckB.bpm || 120);
-                const secondsPerBeat = 60 / bpm;
+                const secondsPerBeat = 60 / fxBpm;
                 const division = settings.beatDivision || 1;
 
                 if (fxType === 'Delay') {
@@ -991,7 +984,7 @@ const App: React.FC = () => {
                     break;
             }
         }
-    }, [effectSettings, crossfader, deckA.bpm, deckB.bpm]);
+    }, [effectSettings, fxBpm]);
 
 
     useEffect(() => {
@@ -1038,59 +1031,30 @@ const App: React.FC = () => {
     }, [eqKnobs]);
 
 
-    useEffect(() => {
-        const position = (crossfader + 1) / 2; // Normalize to 0 (A) to 1 (B)
-
-        let gainA: number;
-        let gainB: number;
+    // Channel gains only change with these, not with every playhead tick
+    const channelMixKey = DECK_IDS.map(deckId => `${decks[deckId].volume}:${decks[deckId].crossfaderAssignment}`).join('|');
 
-        switch (crossfaderCurve) {
-            case 'slow-fade': // Constant power curve
-                gainA = Math.cos(position * Math.PI / 2);
-                gainB = Math.sin(position * Math.PI / 2);
-                break;
-            case 'fast-cut':
-                // A curve that is sharp in the middle for quick cuts
-                const p = position < 0.5 ? 2 * position : 2 * (1 - position);
-                const shapedP = Math.pow(p, 3); // Steepness factor
-                if (position < 0.5) {
-                    gainA = 1 - shapedP / 2;
-                    gainB = shapedP / 2;
-                } else {
-                    gainA = shapedP / 2;
-                    gainB = 1 - shapedP / 2;
-                }
-                break;
-            case 'linear':
-            default:
-                gainA = 1 - position;
-                gainB = position;
-                break;
-        }
-
-        if (deckAAudioRef.current.gainNode) {
-            deckAAudioRef.current.gainNode.gain.setValueAtTime(deckA.volume * gainA, audioContextRef.current?.currentTime ?? 0);
-        }
-        if (deckBAudioRef.current.gainNode) {
-            deckBAudioRef.current.gainNode.gain.setValueAtTime(deckB.volume * gainB, audioContextRef.current?.currentTime ?? 0);
-        }
+    useEffect(() => {
+        DECK_IDS.forEach(deckId => {
+            const gainNode = deckAudioRefs[deckId].current.gainNode;
+            if (!gainNode) return;
+            const deck = decks[deckId];
+            gainNode.gain.setValueAtTime(deck.volume * getChannelCrossfaderGain(deck.crossfaderAssignment, crossfader, crossfaderCurve), audioContextRef.current?.currentTime ?? 0);
+        });
         if (masterGainRef.current) {
             masterGainRef.current.gain.setValueAtTime(masterVolume, audioContextRef.current?.currentTime ?? 0);
         }
-    }, [crossfader, masterVolume, deckA.volume, deckB.volume, crossfaderCurve]);
+    }, [crossfader, masterVolume, channelMixKey, crossfaderCurve]);
 
     // --- Headphone Cue Logic ---
     useEffect(() => {
-        if (deckACueGainRef.current && audioContextRef.current) {
-            deckACueGainRef.current.gain.setValueAtTime(deckACue ? 1 : 0, audioContextRef.current.currentTime);
-        }
-    }, [deckACue]);
+        if (!audioContextRef.current) return;
+        DECK_IDS.forEach(deckId => {
+            deckCueGainsRef.current[deckId]?.gain.setValueAtTime(deckCues[deckId] ? 1 : 0, audioContextRef.current!.currentTime);
+        });
+    }, [deckCues]);
 
-    useEffect(() => {
-        if (deckBCueGainRef.current && audioContextRef.current) {
-            deckBCueGainRef.current.gain.setValueAtTime(deckBCue ? 1 : 0, audioContextRef.current.currentTime);
-        }
-    }, [deckBCue]);
+    const setDeckCue = (deckId: DeckId, cue: boolean) => setDeckCues(cues => ({ ...cues, [deckId]: cue }));
 
     useEffect(() => {
         if (headphoneFinalGainRef.current && audioContextRef.current) {
@@ -1343,18 +1307,28 @@ const App: React.FC = () => {
     }, [isMidiLearning, reverseMidiMapping]);
 
     const handleControlAction = (controlId: MappableControl, value: number) => {
-        // --- DECK A ---
-        if (controlId === 'deckA_volume') setDeckA(d => ({ ...d, volume: value / 127 }));
-        else if (controlId === 'deckA_pitch') handlePitchChange('A', 0.9 + (value / 127) * 0.2);
-        else if (controlId === 'deckA_play' && value > 0) togglePlay('A');
-        else if (controlId === 'deckA_cue') setDeckACue(value > 0);
-        
-        // --- DECK B ---
-        else if (controlId === 'deckB_volume') setDeckB(d => ({ ...d, volume: value / 127 }));
-        else if (controlId === 'deckB_pitch') handlePitchChange('B', 0.9 + (value / 127) * 0.2);
-        else if (controlId === 'deckB_play' && value > 0) togglePlay('B');
-        else if (controlId === 'deckB_cue') setDeckBCue(value > 0);
-        
+        // --- DECKS ---
+        // deckC_play etc.; controls for decks hidden in two-deck mode do nothing
+        const deckControl = controlId.match(/^deck([A-Z])_(.+)$/);
+        if (deckControl) {
+            const deckId = deckControl[1] as DeckId;
+            const control = deckControl[2];
+            if (!activeDeckIds.includes(deckId)) return;
+            if (control === 'volume') deckSetters[deckId](d => ({ ...d, volume: value / 127 }));
+            else if (control === 'pitch') handlePitchChange(deckId, 0.9 + (value / 127) * 0.2);
+            else if (control === 'play' && value > 0) togglePlay(deckId);
+            else if (control === 'cue') setDeckCue(deckId, value > 0);
+            // --- PERFORMANCE PADS ---
+            else if (control.startsWith('hotcue_') && value > 0) {
+                const index = parseInt(control.split('_')[1]) - 1;
+                handleCueAction(deckId, decks[deckId].cuePoints[index] ? 'jump' : 'set', index);
+            }
+            else if (control.startsWith('loop_') && value > 0) {
+                const beats = parseInt(control.split('_')[1]);
+                handleSetLoop(deckId, { beats });
+            }
+        }
+
         // --- MIXER ---
         else if (controlId === 'crossfader') setCrossfader(-1 + (value / 127) * 2);
         else if (controlId === 'master_volume') setMasterVolume(value / 127);
@@ -1364,24 +1338,6 @@ const App: React.FC = () => {
         else if (controlId === 'eq_mid') setEqKnobs(k => ({...k, mid: (value/127) * 100}));
         else if (controlId === 'eq_treble') setEqKnobs(k => ({...k, treble: (value/127) * 100}));
 
-        // --- PERFORMANCE PADS ---
-        else if (controlId.startsWith('deckA_hotcue_') && value > 0) {
-            const index = parseInt(controlId.split('_')[2]) - 1;
-            handleCueAction('A', deckA.cuePoints[index] ? 'jump' : 'set', index);
-        }
-        else if (controlId.startsWith('deckB_hotcue_') && value > 0) {
-            const index = parseInt(controlId.split('_')[2]) - 1;
-            handleCueAction('B', deckB.cuePoints[index] ? 'jump' : 'set', index);
-        }
-        else if (controlId.startsWith('deckA_loop_') && value > 0) {
-            const beats = parseInt(controlId.split('_')[2]);
-            handleSetLoop('A', { beats });
-        }
-        else if (controlId.startsWith('deckB_loop_') && value > 0) {
-            const beats = parseInt(controlId.split('_')[2]);
-            handleSetLoop('B', { beats });
-        }
-
         // --- FX PANEL ---
         else if (controlId.startsWith('fx_toggle_') && value > 0) {
             const fxType = controlId.replace('fx_toggle_', '') as FxType;
@@ -1446,7 +1402,42 @@ const App: React.FC = () => {
     }, [midiAccess, selectedMidiDeviceId, handleMidiMessage]);
 
 
-    const loadSong = useCallback(async (file: File, deck: 'A' | 'B'): Promise<DeckState> => {
+    // --- Background Library Analysis ---
+    useEffect(() => {
+        const applyToSongs = (songId: number, analysis: TrackAnalysis, contentHash: string) => (songs: Song[]) =>
+            songs.map(s => s.id === songId ? { ...applyAnalysisToSong(s, analysis), contentHash } : s);
+
+        const queue = createAnalysisQueue({
+            concurrency: analysisConcurrency,
+            onResult: (songId, analysis, contentHash) => {
+                setLibrary(applyToSongs(songId, analysis, contentHash));
+                updateAllQueues(applyToSongs(songId, analysis, contentHash));
+            },
+            onProgress: setAnalysisProgress,
+        });
+        analysisQueueRef.current = queue;
+        return () => {
+            queue.dispose();
+            analysisQueueRef.current = null;
+        };
+    }, []);
+
+    useEffect(() => {
+        analysisQueueRef.current?.setConcurrency(analysisConcurrency);
+        localStorage.setItem('dj-analysis-concurrency', String(analysisConcurrency));
+    }, [analysisConcurrency]);
+
+    const handleCancelAnalysis = useCallback(() => {
+        analysisQueueRef.current?.cancel();
+    }, []);
+
+    // Recompute analysis for the selected tracks, bypassing and overwriting the cache
+    const handleReanalyzeSongs = useCallback((songIds: number[]) => {
+        const ids = new Set(songIds);
+        analysisQueueRef.current?.enqueue(library.filter(s => ids.has(s.id)), { force: true });
+    }, [library]);
+
+    const loadSong = useCallback(async (file: File, deck: DeckId): Promise<DeckState> => {
        return new Promise((resolve, reject) => {
             initAudioContext();
             if (!audioContextRef.current || !analyserRef.current) {
@@ -1458,67 +1449,80 @@ const App: React.FC = () => {
             reader.onload = async (e) => {
                 try {
                     const arrayBuffer = e.target?.result as ArrayBuffer;
+                    // Hash before decoding: decodeAudioData detaches the buffer
+                    const contentHash = await hashAudioContent(arrayBuffer);
                     const audioBuffer = await audioContextRef.current!.decodeAudioData(arrayBuffer);
-                    const waveformData = generateWaveform(audioBuffer);
-                    const loudness = calculateLoudness(audioBuffer);
-                    
-                    const mockProps = getMockProperties(file.name);
-                    const detectedKey = detectKey(audioBuffer);
-                    const energy = calculateEnergy(loudness, mockProps.genre);
+                    const tags = await readTags(file);
+                    // Reuse the library entry so its id, imported cues and locked grid carry over to the deck
+                    const librarySong = library.find(s => s.name === file.name);
+                    const genre = librarySong?.genre ?? tags.genre ?? getMockProperties(file.name).genre;
+                    const cachedAnalysis = await getCachedAnalysis(contentHash);
+                    const analysis = cachedAnalysis ?? analyzeAudioBuffer(audioBuffer);
+                    if (!cachedAnalysis) {
+                        saveAnalysisToCache(contentHash, analysis);
+                    }
 
-                    const songWithDetails: Song = {
-                        id: Date.now() + Math.random(),
+                    const songWithDetails: Song = applyAnalysisToSong(applyTagsToSong({
+                        ...librarySong,
+                        id: librarySong?.id ?? Date.now() + Math.random(),
                         name: file.name,
                         file: file,
-                        key: detectedKey,
-                        genre: mockProps.genre,
-                        bpm: mockProps.bpm,
-                        energy: energy,
-                    };
+                        genre,
+                        contentHash,
+                        isMissing: false,
+                    }, tags), analysis);
 
                     const newDeckState: DeckState = {
                         song: songWithDetails,
                         duration: audioBuffer.duration,
                         isPlaying: false,
-                        currentTime: 0,
+                        currentTime: findCue(songWithDetails.cuePoints, 'load')?.time ?? 0,
                         platterAngle: 0,
                         bpm: songWithDetails.bpm,
+                        beatgrid: songWithDetails.beatgrid,
                         playbackRate: 1,
-                        cuePoints: [],
+                        cuePoints: songWithDetails.cuePoints ?? [],
+                        memoryCue: songWithDetails.memoryCue ?? null,
                         loop: { start: null, end: null, active: false },
-                        waveform: waveformData,
-                        key: detectedKey,
+                        waveform: analysis.waveform,
+                        key: songWithDetails.key,
+                        openKey: songWithDetails.key ? camelotToOpenKey(songWithDetails.key) : null,
                         zoom: 1,
                         viewStartRatio: 0,
-                        perceivedLoudness: loudness,
+                        perceivedLoudness: analysis.loudness,
                         gain: 50, // Reset gain on load
                         volume: 0.75, // Default volume
                         keyLock: false,
+                        keyShift: 0,
+                        quantize: false,
+                        quantizeResolution: 1,
+                        slipMode: false,
+                        slipPosition: null,
+                        isReversed: false,
+                        sync: false,
+                        barSync: false,
+                        nudge: 0,
+                        pitchBend: 0,
                         scratchModeEnabled: false,
                         wasPlayingBeforeScratch: false,
+                        crossfaderAssignment: DEFAULT_CROSSFADER_ASSIGNMENTS[deck],
                     };
 
                     setLibrary(prev => {
                         const existingIndex = prev.findIndex(s => s.name === file.name);
                         if (existingIndex > -1) {
                             const updatedLibrary = [...prev];
-                            updatedLibrary[existingIndex] = { ...updatedLibrary[existingIndex], ...mockProps, key: detectedKey, energy: energy };
+                            updatedLibrary[existingIndex] = { ...updatedLibrary[existingIndex], ...songWithDetails };
                             return updatedLibrary;
                         }
                         return [...prev, songWithDetails];
                     });
     
-                    if (deck === 'A') {
-                        if (deckAAudioRef.current.source) deckAAudioRef.current.source.stop();
-                        deckAAudioRef.current = { ...deckAAudioRef.current, source: null, gainNode: null, buffer: audioBuffer };
-                        setDeckA(d => ({ ...d, ...newDeckState, volume: d.volume, keyLock: d.keyLock, scratchModeEnabled: d.scratchModeEnabled })); // Preserve settings
-                        resolve({ ...deckA, ...newDeckState });
-                    } else {
-                        if (deckBAudioRef.current.source) deckBAudioRef.current.source.stop();
-                        deckBAudioRef.current = { ...deckBAudioRef.current, source: null, gainNode: null, buffer: audioBuffer };
-                        setDeckB(d => ({ ...d, ...newDeckState, volume: d.volume, keyLock: d.keyLock, scratchModeEnabled: d.scratchModeEnabled })); // Preserve settings
-                        resolve({ ...deckB, ...newDeckState });
-                    }
+                    const audioRef = deckAudioRefs[deck];
+                    audioRef.current.transport?.load(audioBuffer);
+                    audioRef.current = { ...audioRef.current, gainNode: null, buffer: audioBuffer, slipAnchor: null };
+                    deckSetters[deck](d => ({ ...d, ...newDeckState, volume: d.volume, keyLock: d.keyLock, quantize: d.quantize, quantizeResolution: d.quantizeResolution, slipMode: d.slipMode, sync: d.sync, barSync: d.barSync, scratchModeEnabled: d.scratchModeEnabled, crossfaderAssignment: d.crossfaderAssignment })); // Preserve settings
+                    resolve({ ...decks[deck], ...newDeckState });
                 } catch(err) {
                     console.error("Error decoding audio data:", err);
                     reject(err);
@@ -1527,36 +1531,197 @@ const App: React.FC = () => {
             reader.onerror = (err) => reject(err);
             reader.readAsArrayBuffer(file);
         });
-    }, [deckA, deckB]);
-
-    const addSongsToLibrary = useCallback((files: FileList) => {
-        const newSongs: Song[] = Array.from(files).map(file => {
+    }, [decks, library]);
+
+    const addSongsToLibrary = useCallback(async (files: FileList | File[], handles?: FileSystemFileHandle[]) => {
+        const existingNames = new Set(library.map(s => s.name));
+        const imports = Array.from(files)
+            .map((file, index) => ({ file, fileHandle: handles?.[index] }))
+            .filter(({ file }) => !existingNames.has(file.name));
+        const newSongs: Song[] = await Promise.all(imports.map(async ({ file, fileHandle }) => {
             const mockProps = getMockProperties(file.name);
-            // We can't get loudness/energy without decoding, so they will be undefined here.
-            // They will be calculated when the song is loaded into a deck.
-            return {
+            // Tags fill in metadata right away; BPM, key, loudness and energy are
+            // (re)computed by the background analysis queue, keeping any tagged BPM/key.
+            return applyTagsToSong({
                 id: Date.now() + Math.random(),
                 name: file.name,
                 file: file,
-                key: mockProps.key,
+                fileHandle,
+                key: null,
                 genre: mockProps.genre,
-                bpm: mockProps.bpm,
-                energy: undefined, 
-            };
-        });
+                bpm: null,
+                energy: undefined,
+            }, await readTags(file));
+        }));
 
+        if (newSongs.length === 0) return;
         setLibrary(prevLibrary => {
-            const existingNames = new Set(prevLibrary.map(s => s.name));
-            const uniqueNewSongs = newSongs.filter(s => !existingNames.has(s.name));
-            if (uniqueNewSongs.length > 0) {
-                return [...prevLibrary, ...uniqueNewSongs];
+            const currentNames = new Set(prevLibrary.map(s => s.name));
+            return [...prevLibrary, ...newSongs.filter(s => !currentNames.has(s.name))];
+        });
+        analysisQueueRef.current?.enqueue(newSongs);
+        requestPersistentStorage();
+    }, [library]);
+
+    // Import through the File System Access picker so the library stores handles instead of copying audio bytes
+    const handleImportWithFileHandles = useCallback(async () => {
+        const pickerWindow = window as FilePickerWindow;
+        if (!pickerWindow.showOpenFilePicker) {
+            alert("Linking files is not supported in this browser. Use the regular import instead.");
+            return;
+        }
+        try {
+            const handles = await pickerWindow.showOpenFilePicker({
+                multiple: true,
+                types: [{ description: 'Audio', accept: { 'audio/*': ['.mp3', '.wav', '.flac', '.ogg', '.m4a', '.aac'] } }],
+            });
+            const files = await Promise.all(handles.map(handle => handle.getFile()));
+            await addSongsToLibrary(files, handles);
+        } catch (error) {
+            // The user dismissed the picker
+            if (error instanceof DOMException && error.name === 'AbortError') return;
+            console.error("Linking files failed:", error);
+            alert("Could not link the selected files.");
+        }
+    }, [addSongsToLibrary]);
+
+    // Relink missing library entries to newly picked files, matched by file name
+    const handleRelinkMissingFiles = useCallback((files: FileList | File[]) => {
+        const filesByName = new Map(Array.from(files).map(file => [file.name, file]));
+        const relinked = new Map<number, Song>();
+        library.forEach(song => {
+            const file = filesByName.get(song.name);
+            if (song.isMissing && file) {
+                relinked.set(song.id, { ...song, file, fileHandle: undefined, isMissing: false });
             }
-            return prevLibrary;
         });
-    }, []);
-    
-    const handleAddToQueue = useCallback((song: Song, deckId: 'A' | 'B', index?: number) => {
-        const updateQueue = (prevQueue: Song[]) => {
+        if (relinked.size === 0) return;
+        setLibrary(replaceSongs(relinked));
+        updateAllQueues(replaceSongs(relinked));
+        // Cache hits if the audio is unchanged, fresh analysis if it's a different file
+        analysisQueueRef.current?.enqueue(Array.from(relinked.values()));
+    }, [library]);
+
+    // Re-request read permission for entries stored as file handles. Must be called from a user gesture.
+    const handleRestoreFileAccess = useCallback(async () => {
+        const restored = new Map<number, Song>();
+        for (const song of library) {
+            if (!song.isMissing || !song.fileHandle) continue;
+            const file = await getFileFromHandle(song.fileHandle, true);
+            if (file) {
+                restored.set(song.id, { ...song, file, isMissing: false });
+            }
+        }
+        if (restored.size === 0) return;
+        setLibrary(replaceSongs(restored));
+        updateAllQueues(replaceSongs(restored));
+    }, [library]);
+    
+    // Applies an edit to songs wherever they appear: the library, the deck queues and the loaded decks
+    const updateSongs = useCallback((songIds: number[], update: (song: Song) => Song, updateDeck = (deck: DeckState, song: Song): DeckState => ({ ...deck, song })) => {
+        const ids = new Set(songIds);
+        const updateList = (songs: Song[]) => songs.map(s => ids.has(s.id) ? update(s) : s);
+        setLibrary(updateList);
+        updateAllQueues(updateList);
+        const updateLoadedDeck = (d: DeckState): DeckState => d.song && ids.has(d.song.id) ? updateDeck(d, update(d.song)) : d;
+        DECK_IDS.forEach(deckId => deckSetters[deckId](updateLoadedDeck));
+    }, [deckSetters]);
+
+    // Manual BPM/key/genre corrections. Like embedded tags, they survive re-analysis.
+    const handleUpdateSongDetails = useCallback((songId: number, details: { bpm?: number, key?: string, genre?: string }) => {
+        updateSongs([songId], song => ({
+            ...song,
+            ...details,
+            taggedBpm: details.bpm ?? song.taggedBpm,
+            taggedKey: details.key ?? song.taggedKey,
+            taggedGenre: details.genre ?? song.taggedGenre,
+        }), (d, song) => withHeardKey({ ...d, song, bpm: details.bpm ?? d.bpm }));
+    }, [updateSongs]);
+
+    // Rating, colour, comment and tag edits for one or many selected songs
+    const handleUpdateSongLabels = useCallback((songIds: number[], update: SongLabelUpdate) => {
+        updateSongs(songIds, song => applyLabelUpdate(song, update));
+    }, [updateSongs]);
+
+    const allTags = useMemo(() => getAllTags(library), [library]);
+
+    // Removes songs from the library, queues and playlists (not from disk). Decks keep playing what's loaded.
+    // `replacements` re-points playlist and history entries at the song that replaces a removed one.
+    // Other removed songs stay in the session log, which keeps its own snapshot of each track.
+    const removeSongsFromLibrary = useCallback((songIds: number[], replacements = new Map<number, number>()) => {
+        const removed = new Set(songIds);
+        const keep = (songs: Song[]) => songs.filter(s => !removed.has(s.id));
+        setLibrary(keep);
+        updateAllQueues(keep);
+        setPlaylists(nodes => replaceSongIdsInPlaylists(nodes, replacements)
+            .map(node => node.songIds.some(id => removed.has(id)) ? { ...node, songIds: node.songIds.filter(id => !removed.has(id)) } : node));
+        if (replacements.size > 0) {
+            setSessionLog(log => replaceSongIdsInSessionLog(log, replacements));
+            const repointed = pastSessionLogs.map(session => replaceSongIdsInSessionLog(session, replacements));
+            repointed
+                .filter((session, i) => session !== pastSessionLogs[i])
+                .forEach(session => saveSessionLogToDB(session).catch(error => console.error("Could not save session log:", error)));
+            setPastSessionLogs(repointed);
+        }
+        setDuplicateScan(scan => scan && {
+            ...scan,
+            groups: scan.groups
+                .map(group => ({ ...group, songIds: group.songIds.filter(id => !removed.has(id)) }))
+                .filter(group => group.songIds.length > 1),
+        });
+    }, [pastSessionLogs]);
+
+    const handleDeleteSongs = useCallback((songIds: number[]) => {
+        removeSongsFromLibrary(songIds);
+    }, [removeSongsFromLibrary]);
+
+    // --- Duplicate Detection ---
+    // Songs still waiting for analysis have no fingerprint yet and are counted as unscanned
+    const handleFindDuplicates = useCallback(() => {
+        setIsFindingDuplicates(true);
+        // Let the UI show progress before the (synchronous) comparison runs
+        setTimeout(() => {
+            try {
+                setDuplicateScan({
+                    groups: findDuplicateGroups(library),
+                    unscanned: library.filter(s => !s.fingerprint).length,
+                });
+            } catch (error) {
+                console.error("Duplicate detection failed:", error);
+                alert("Could not check the library for duplicates.");
+            } finally {
+                setIsFindingDuplicates(false);
+            }
+        }, 0);
+    }, [library]);
+
+    // Keeps one song of a duplicate group, filling its gaps with the others' metadata and cues
+    const handleMergeDuplicates = useCallback((keepId: number, duplicateIds: number[], deleteDuplicates: boolean) => {
+        const keeper = library.find(s => s.id === keepId);
+        const duplicates = library.filter(s => duplicateIds.includes(s.id) && s.id !== keepId);
+        if (!keeper || duplicates.length === 0) return;
+        const merged = mergeSongMetadata(keeper, duplicates);
+        updateSongs([keepId], () => merged);
+        if (deleteDuplicates) {
+            removeSongsFromLibrary(duplicates.map(s => s.id), new Map(duplicates.map(s => [s.id, keepId])));
+        }
+    }, [library, updateSongs, removeSongsFromLibrary]);
+
+    // Download a copy of the file with BPM, key, genre, cue points and saved loops written to its tags
+    const handleExportTaggedFile = useCallback(async (songId: number) => {
+        const song = library.find(s => s.id === songId);
+        if (!song || song.isMissing) return;
+        try {
+            const file = await writeTagsToFile(song);
+            downloadBlob(file, file.name);
+        } catch (error) {
+            console.error("Failed to write tags:", error);
+            alert(error instanceof Error ? error.message : "Failed to write tags to the file.");
+        }
+    }, [library]);
+
+    const handleAddToQueue = useCallback((song: Song, deckId: DeckId, index?: number) => {
+        updateQueue(deckId, prevQueue => {
             const newQueue = [...prevQueue];
             if (typeof index === 'number' && index >= 0 && index <= newQueue.length) {
                 newQueue.splice(index, 0, song);
@@ -1564,38 +1729,239 @@ const App: React.FC = () => {
                 newQueue.push(song);
             }
             return newQueue;
-        };
-    
-        if (deckId === 'A') {
-            setQueueA(updateQueue);
-        } else {
-            setQueueB(updateQueue);
-        }
-    }, []);
+        });
+    }, [updateQueue]);
 
-    const handleRemoveFromQueue = useCallback((songId: number, deckId: 'A' | 'B') => {
-        if (deckId === 'A') {
-            setQueueA(prev => prev.filter(s => s.id !== songId));
-        } else {
-            setQueueB(prev => prev.filter(s => s.id !== songId));
-        }
-    }, []);
+    const handleRemoveFromQueue = useCallback((songId: number, deckId: DeckId) => {
+        updateQueue(deckId, prev => prev.filter(s => s.id !== songId));
+    }, [updateQueue]);
 
-    const handleReorderQueue = useCallback((deckId: 'A' | 'B', dragIndex: number, hoverIndex: number) => {
-        const reorder = (queue: Song[]) => {
+    const handleReorderQueue = useCallback((deckId: DeckId, dragIndex: number, hoverIndex: number) => {
+        updateQueue(deckId, queue => {
             const newQueue = [...queue];
             const [draggedItem] = newQueue.splice(dragIndex, 1);
             newQueue.splice(hoverIndex, 0, draggedItem);
             return newQueue;
+        });
+    }, [updateQueue]);
+
+    // --- Playlists & Crates ---
+    useEffect(() => {
+        savePlaylists(playlists);
+    }, [playlists]);
+
+    // --- Session Log ---
+    useEffect(() => {
+        loadSessionLogsFromDB()
+            .then(sessions => setPastSessionLogs(sessions.filter(session => session.id !== playSessionRef.current.id)))
+            .catch(error => console.error("Could not load session logs:", error));
+    }, []);
+
+    // Log what reaches the master: re-evaluated whenever a deck starts, stops, changes song or is faded
+    const onAirKey = DECK_IDS.map(deckId => `${decks[deckId].isPlaying}:${decks[deckId].song?.id}`).join('|');
+    useEffect(() => {
+        const now = Date.now();
+        setSessionLog(log => DECK_IDS.reduce((session, deckId) => {
+            const deck = decks[deckId];
+            const gain = deck.volume * getChannelCrossfaderGain(deck.crossfaderAssignment, crossfader, crossfaderCurve);
+            return updateSessionLog(session, deckId, { song: deck.song, isPlaying: deck.isPlaying, gain, bpm: deck.bpm, key: deck.key }, now);
+        }, log));
+    }, [onAirKey, channelMixKey, crossfader, crossfaderCurve]);
+
+    useEffect(() => {
+        if (sessionLog.entries.length === 0) return;
+        saveSessionLogToDB(sessionLog).catch(error => console.error("Could not save session log:", error));
+    }, [sessionLog]);
+
+    // Close the on-air time of whatever is still playing when the page goes away
+    useEffect(() => {
+        const handlePageHide = () => {
+            const closed = closeSessionLog(sessionLog, Date.now());
+            if (closed !== sessionLog) saveSessionLogToDB(closed).catch(() => {});
         };
+        window.addEventListener('pagehide', handlePageHide);
+        return () => window.removeEventListener('pagehide', handlePageHide);
+    }, [sessionLog]);
+
+    // What went out in each session, newest first; the session log is the one record of plays
+    const playHistory = useMemo(() => getPlayHistory([sessionLog, ...pastSessionLogs]), [sessionLog, pastSessionLogs]);
+
+    const handleExportSessionLog = useCallback((sessionId: number, format: SessionLogFormat) => {
+        const session = sessionId === sessionLog.id
+            ? closeSessionLog(sessionLog, Date.now()) // Count the current on-air stretch without ending it in the log
+            : pastSessionLogs.find(s => s.id === sessionId);
+        if (!session) return;
+        const date = new Date(session.startedAt).toISOString().slice(0, 10);
+        const mimeType = format === 'csv' ? 'text/csv' : format === 'json' ? 'application/json' : 'text/plain';
+        downloadBlob(new Blob([exportSessionLog(session, format)], { type: mimeType }), `tracklist-${date}.${format}`);
+    }, [sessionLog, pastSessionLogs]);
+
+    const handleDeleteSessionLog = useCallback(async (sessionId: number) => {
+        try {
+            await deleteSessionLogFromDB(sessionId);
+            setPastSessionLogs(sessions => sessions.filter(s => s.id !== sessionId));
+        } catch (error) {
+            console.error("Could not delete session log:", error);
+            alert("Could not delete the session log.");
+        }
+    }, []);
 
-        if (deckId === 'A') {
-            setQueueA(reorder);
-        } else {
-            setQueueB(reorder);
+    // Search used by both library browsers; returns the unfiltered library and an error for malformed queries
+    const searchLibrary = useCallback((query: string) => {
+        return searchSongs(library, query, { playHistory });
+    }, [library, playHistory]);
+
+    // Resolved contents of every playlist; smart crates re-evaluate whenever the library or history changes
+    const playlistSongs = useMemo(() => {
+        return new Map(playlists.map(node => [node.id, getPlaylistSongs(node, library, { playHistory })]));
+    }, [playlists, library, playHistory]);
+
+    const handleCreatePlaylistNode = useCallback((type: PlaylistNodeType, name: string, parentId: number | null = null) => {
+        setPlaylists(nodes => createPlaylistNode(nodes, type, name, parentId));
+    }, []);
+
+    const handleCreateSmartCrate = useCallback((name: string, rules: SmartRule[], matchAll: boolean, parentId: number | null = null) => {
+        setPlaylists(nodes => createSmartCrate(nodes, name, rules, matchAll, parentId));
+    }, []);
+
+    // Saves a library search as a smart crate, so it keeps matching as the library changes
+    const handleSaveSearchAsSmartCrate = useCallback((name: string, query: string, parentId: number | null = null) => {
+        const { error } = parseSearchQuery(query);
+        if (error) {
+            alert(`Can't save this search: ${error.message}`);
+            return;
         }
+        setPlaylists(nodes => createSmartCrate(nodes, name || query, [{ type: 'query', query }], true, parentId));
     }, []);
 
+    const handleUpdateSmartCrateRules = useCallback((id: number, rules: SmartRule[], matchAll: boolean) => {
+        setPlaylists(nodes => updateSmartCrateRules(nodes, id, rules, matchAll));
+    }, []);
+
+    const handleRenamePlaylistNode = useCallback((id: number, name: string) => {
+        setPlaylists(nodes => renamePlaylistNode(nodes, id, name));
+    }, []);
+
+    const handleDeletePlaylistNode = useCallback((id: number) => {
+        setPlaylists(nodes => deletePlaylistNode(nodes, id));
+    }, []);
+
+    const handleMovePlaylistNode = useCallback((id: number, parentId: number | null, index?: number) => {
+        setPlaylists(nodes => movePlaylistNode(nodes, id, parentId, index));
+    }, []);
+
+    // Drop target for songs dragged out of the library
+    const handleAddSongsToPlaylist = useCallback((playlistId: number, songIds: number[], index?: number) => {
+        setPlaylists(nodes => addSongsToPlaylist(nodes, playlistId, songIds, index));
+    }, []);
+
+    const handleRemoveSongsFromPlaylist = useCallback((playlistId: number, songIds: number[]) => {
+        setPlaylists(nodes => removeSongsFromPlaylist(nodes, playlistId, songIds));
+    }, []);
+
+    const handleReorderPlaylist = useCallback((playlistId: number, dragIndex: number, hoverIndex: number) => {
+        setPlaylists(nodes => reorderPlaylistSongs(nodes, playlistId, dragIndex, hoverIndex));
+    }, []);
+
+    // --- DJ Software Import/Export ---
+    const applyLibraryImport = useCallback((data: LibraryImport) => {
+        const result = mergeLibraryImport(library, playlists, data);
+        setLibrary(result.library);
+        setPlaylists(result.playlists);
+        alert(`${data.source} import: updated ${result.matched} library tracks, added ${result.added} tracks that need relinking.`);
+    }, [library, playlists]);
+
+    const handleImportRekordboxXml = useCallback(async (file: File) => {
+        try {
+            applyLibraryImport(parseRekordboxXml(await file.text()));
+        } catch (error) {
+            console.error("Rekordbox import failed:", error);
+            alert(error instanceof Error ? error.message : "Could not import the Rekordbox XML file.");
+        }
+    }, [applyLibraryImport]);
+
+    // musicFolder is where the files live on disk, so Rekordbox can resolve each track's Location
+    const handleExportRekordboxXml = useCallback((musicFolder = '') => {
+        const xml = exportRekordboxXml(library, playlists, node => playlistSongs.get(node.id) ?? [], musicFolder);
+        downloadBlob(new Blob([xml], { type: 'application/xml' }), 'rekordbox.xml');
+    }, [library, playlists, playlistSongs]);
+
+    const handleImportTraktorNml = useCallback(async (file: File) => {
+        try {
+            applyLibraryImport(parseTraktorNml(await file.text()));
+        } catch (error) {
+            console.error("Traktor import failed:", error);
+            alert(error instanceof Error ? error.message : "Could not import the Traktor collection file.");
+        }
+    }, [applyLibraryImport]);
+
+    const handleExportTraktorNml = useCallback((musicFolder = '') => {
+        const nml = exportTraktorNml(library, playlists, node => playlistSongs.get(node.id) ?? [], musicFolder);
+        downloadBlob(new Blob([nml], { type: 'application/xml' }), 'collection.nml');
+    }, [library, playlists, playlistSongs]);
+
+    // Serato's cue points live in the files themselves and are read when a track is loaded
+    const handleImportSeratoCrates = useCallback(async (files: File[]) => {
+        try {
+            const crates = await Promise.all(files.map(async file => ({ fileName: file.name, bytes: new Uint8Array(await file.arrayBuffer()) })));
+            applyLibraryImport(parseSeratoCrateFiles(crates));
+        } catch (error) {
+            console.error("Serato crate import failed:", error);
+            alert("Could not import the Serato crates.");
+        }
+    }, [applyLibraryImport]);
+
+    const handleExportSeratoCrate = useCallback((nodeId: number, musicFolder = '') => {
+        const node = playlists.find(n => n.id === nodeId);
+        if (!node || node.type === 'folder') return;
+        const paths = (playlistSongs.get(node.id) ?? []).map(song => toSeratoPath(musicFolder, song.name));
+        downloadBlob(new Blob([encodeSeratoCrate(paths)], { type: 'application/octet-stream' }), toSeratoCrateFileName(playlists, node));
+    }, [playlists, playlistSongs]);
+
+    // --- Playlist Files (M3U/M3U8/PLS) ---
+    const handleImportPlaylistFile = useCallback(async (file: File) => {
+        try {
+            const entries = parsePlaylistFile(await file.text(), file.name);
+            const { songs, unmatched } = matchPlaylistEntries(entries, library);
+            const name = file.name.replace(/\.[^.]+$/, '');
+            setPlaylists(nodes => {
+                const withPlaylist = createPlaylistNode(nodes, 'playlist', name, null);
+                const playlist = withPlaylist[withPlaylist.length - 1];
+                return addSongsToPlaylist(withPlaylist, playlist.id, songs.map(song => song.id));
+            });
+            const report = unmatched.slice(0, 20).map(entry => `  ${entry.title ?? entry.location}`).join('\n');
+            const more = unmatched.length > 20 ? `\n  ...and ${unmatched.length - 20} more` : '';
+            alert(unmatched.length === 0
+                ? `Imported all ${songs.length} entries into "${name}".`
+                : `Imported ${songs.length} of ${entries.length} entries into "${name}". Not found in the library:\n${report}${more}`);
+        } catch (error) {
+            console.error("Playlist file import failed:", error);
+            alert("Could not import the playlist file.");
+        }
+    }, [library]);
+
+    // source is a deck queue, the Auto DJ history (exported oldest first) or a playlist node id
+    const handleExportPlaylistFile = useCallback((source: `queue${DeckId}` | 'autoDjHistory' | number, format: PlaylistFileFormat, musicFolder = '') => {
+        let songs: Song[];
+        let name: string;
+        if (typeof source === 'string' && source.startsWith('queue')) {
+            const deckId = source.slice('queue'.length) as DeckId;
+            songs = queues[deckId];
+            name = `Deck ${deckId} Queue`;
+        } else if (source === 'autoDjHistory') {
+            songs = [...autoDjHistory].reverse();
+            name = 'Auto DJ History';
+        } else {
+            const node = playlists.find(n => n.id === source);
+            if (!node || node.type === 'folder') return;
+            songs = playlistSongs.get(node.id) ?? [];
+            name = node.name;
+        }
+        const content = writePlaylistFile(songs, format, musicFolder);
+        const mimeType = format === 'pls' ? 'audio/x-scpls' : 'audio/x-mpegurl';
+        downloadBlob(new Blob([content], { type: mimeType }), `${name.replace(/[\\/:*?"<>|]/g, '_')}.${format}`);
+    }, [queues, autoDjHistory, playlists, playlistSongs]);
+
     const loadBeat = useCallback(async (file: File, category: 'drum' | 'tuning' | 'instrumental', padIndex: number) => {
         initAudioContext();
         if (!audioContextRef.current) return;
@@ -1707,61 +2073,77 @@ const App: React.FC = () => {
     }, []);
 
 
-    const togglePlay = (deck: 'A' | 'B', options?: { playbackRate?: number, forceStartTime?: number }) => {
-        initAudioContext();
-        
-        const deckState = deck === 'A' ? deckA : deckB;
-        const setDeckState = deck === 'A' ? setDeckA : setDeckB;
-        const audioRef = deck === 'A' ? deckAAudioRef : deckBAudioRef;
-        
-        if (deckState.isPlaying) {
-             audioRef.current.source?.stop();
-             setDeckState(d => ({ ...d, isPlaying: false }));
-        } else if (audioRef.current.buffer && audioRef.current.preFaderTap && audioRef.current.transitionNodes) {
-            const newSource = audioContextRef.current!.createBufferSource();
-            newSource.buffer = audioRef.current.buffer;
-            
-            const rate = options?.playbackRate ?? deckState.playbackRate;
-            if(audioContextRef.current) {
-                newSource.playbackRate.setValueAtTime(rate, audioContextRef.current.currentTime);
-                const detuneValue = deckState.keyLock ? -1200 * Math.log2(rate) : 0;
-                newSource.detune.setValueAtTime(detuneValue, audioContextRef.current.currentTime);
-            } else {
-                 newSource.playbackRate.value = rate;
-                 const detuneValue = deckState.keyLock ? -1200 * Math.log2(rate) : 0;
-                 newSource.detune.value = detuneValue;
-            }
-            
-            const preampGainNode = audioContextRef.current!.createGain();
-            preampGainNode.gain.value = mapGainKnobToFactor(deckState.gain);
+    // Creates the deck's buffer source and routes it. Path 1: source -> [key lock] -> preamp (gain) -> fader -> main mix.
+    // Path 2: preamp -> pre-fader tap, for cueing and analysis. The transport sets the rate and starts it.
+    const createDeckSource = (deckId: DeckId, deckState: DeckState, rate: number, buffer: AudioBuffer): TransportSource => {
+        const audioRef = deckAudioRefs[deckId];
+        const context = audioContextRef.current!;
+        const newSource = context.createBufferSource();
+        newSource.buffer = buffer;
 
-            const faderGainNode = audioContextRef.current!.createGain();
+        const preampGainNode = context.createGain();
+        preampGainNode.gain.value = mapGainKnobToFactor(deckState.gain);
+        const faderGainNode = context.createGain();
 
-            // Corrected audio routing:
-            // Path 1: Source -> Preamp (Gain) -> Fader Gain -> Main Mix
+        // Key lock and key shift: the source runs at the tempo rate and the time-stretcher sets the pitch
+        const keyLockNode = needsPitchShift(deckState) && keyLockReadyRef.current ? createKeyLockNode(context, getPitchRatio(deckState, rate)) : null;
+        if (keyLockNode) {
+            newSource.connect(keyLockNode);
+            keyLockNode.connect(preampGainNode);
+        } else {
             newSource.connect(preampGainNode);
-            preampGainNode.connect(faderGainNode);
-            faderGainNode.connect(audioRef.current.transitionNodes.entry);
-
-            // Path 2: Preamp (Gain) -> Pre-Fader Tap (for cueing and analysis)
-            preampGainNode.connect(audioRef.current.preFaderTap);
+        }
+        preampGainNode.connect(faderGainNode);
+        faderGainNode.connect(audioRef.current.transitionNodes.entry);
+        preampGainNode.connect(audioRef.current.preFaderTap);
 
+        audioRef.current.keyLockNode = keyLockNode;
+        audioRef.current.gainNode = faderGainNode;
+        return { source: newSource, latency: keyLockNode ? getKeyLockLatency(context) : 0 };
+    };
 
-            audioRef.current.source = newSource;
-            audioRef.current.gainNode = faderGainNode;
-            
-            updateAudioSourceLoop(deck, deckState.loop);
+    // The transport's sources for a deck, built with its settings as given
+    const routeDeck = (deckId: DeckId, deckState: DeckState): SourceFactory => (buffer, rate) => createDeckSource(deckId, deckState, rate, buffer);
 
-            const startTime = options?.forceStartTime ?? deckState.currentTime;
-            newSource.start(0, startTime);
-            setDeckState(d => ({ ...d, isPlaying: true, playbackRate: rate, lastUpdateTime: performance.now() }));
+    // keyShift overrides the deck's for callers that set it in the same update (Auto DJ)
+    const togglePlay = (deck: DeckId, options?: { playbackRate?: number, forceStartTime?: number, keyShift?: number }) => {
+        initAudioContext();
+        
+        const deckState = decks[deck];
+        const setDeckState = deckSetters[deck];
+        const audioRef = deckAudioRefs[deck];
+        
+        const transport: DeckTransport | null = audioRef.current.transport;
+        if (deckState.isPlaying) {
+             const position = transport?.stop() ?? deckState.currentTime;
+             // Pausing ends any slip action or reverse where the track is
+             audioRef.current.slipAnchor = null;
+             setDeckState(d => ({ ...d, isPlaying: false, currentTime: position, slipPosition: null, isReversed: false }));
+        } else if (transport && audioRef.current.buffer && audioRef.current.preFaderTap && audioRef.current.transitionNodes) {
+            const rate = options?.playbackRate ?? deckState.playbackRate;
+            const keyShift = options?.keyShift ?? deckState.keyShift;
+            const sourceRate = rate * (1 + deckState.nudge);
+            updateTransportLoop(deck, deckState.loop);
+
+            // Quantized play-start: from a grid line, landing on the reference deck's next grid line if it's playing
+            const context = audioContextRef.current!;
+            let startTime = options?.forceStartTime ?? deckState.currentTime;
+            let when = context.currentTime;
+            if (options?.forceStartTime === undefined && deckState.quantize && deckState.beatgrid) {
+                startTime = snapToGrid(startTime, deckState.beatgrid, deckState.quantizeResolution);
+                const referenceDeckId = getReferenceDeckId(deck);
+                if (referenceDeckId) when = getNextGridContextTime(referenceDeckId, deckState.quantizeResolution) ?? when;
+            }
+            transport.play(routeDeck(deck, { ...deckState, keyShift }), startTime, sourceRate, when);
+            setDeckState(d => withHeardKey({ ...d, isPlaying: true, currentTime: startTime, playbackRate: rate }));
         }
     };
     
-    const seekDeck = (deckId: 'A' | 'B', newTime: number) => {
-        const deckState = deckId === 'A' ? deckA : deckB;
-        const setDeckState = deckId === 'A' ? setDeckA : setDeckB;
-        const audioRef = deckId === 'A' ? deckAAudioRef : deckBAudioRef;
+    // `when` schedules the jump on the AudioContext clock (quantized jumps); by default it happens now
+    const seekDeck = (deckId: DeckId, newTime: number, when?: number) => {
+        const deckState = decks[deckId];
+        const setDeckState = deckSetters[deckId];
+        const audioRef = deckAudioRefs[deckId];
     
         if (!deckState.song || !deckState.duration) return;
         const time = Math.max(0, Math.min(newTime, deckState.duration));
@@ -1774,93 +2156,307 @@ const App: React.FC = () => {
             newViewStartRatio = Math.max(0, Math.min(newViewStartRatio, 1 - visibleRatio));
         }
     
-        setDeckState(d => ({ ...d, currentTime: time, viewStartRatio: newViewStartRatio }));
-    
-        if (deckState.isPlaying) {
-          if (audioRef.current.source) {
-              audioRef.current.source.stop();
-          }
-    
-          const deckAnalyser = deckId === 'A' ? deckAAnalyserRef.current : deckBAnalyserRef.current;
-          
-          if (audioRef.current.buffer && audioRef.current.preFaderTap && deckAnalyser && audioRef.current.transitionNodes) {
-              const newSource = audioContextRef.current!.createBufferSource();
-              newSource.buffer = audioRef.current.buffer;
-              newSource.playbackRate.value = deckState.playbackRate;
-              const detuneValue = deckState.keyLock ? -1200 * Math.log2(deckState.playbackRate) : 0;
-              newSource.detune.value = detuneValue;
-              
-              const preampGainNode = audioContextRef.current!.createGain();
-              preampGainNode.gain.value = mapGainKnobToFactor(deckState.gain);
-
-              const faderGainNode = audioContextRef.current!.createGain();
-              
-              // Corrected audio routing:
-              // Path 1: Source -> Preamp (Gain) -> Fader Gain -> Main Mix
-              newSource.connect(preampGainNode);
-              preampGainNode.connect(faderGainNode);
-              faderGainNode.connect(audioRef.current.transitionNodes.entry);
-
-              // Path 2: Preamp (Gain) -> Pre-Fader Tap (for cueing and analysis)
-              preampGainNode.connect(audioRef.current.preFaderTap);
-
-              audioRef.current.source = newSource;
-              audioRef.current.gainNode = faderGainNode;
-              setDeckState(d => ({...d, lastUpdateTime: performance.now()}));
-              updateAudioSourceLoop(deckId, deckState.loop);
-              newSource.start(0, time);
-          }
+        const context = audioContextRef.current;
+        const updateState = () => setDeckState(d => ({ ...d, currentTime: time, viewStartRatio: newViewStartRatio }));
+        // The display follows the audio when the jump happens
+        if (when !== undefined && context && when > context.currentTime) {
+            clockScheduler.schedule(when, updateState);
+        } else {
+            updateState();
+        }
+
+        if (audioRef.current.transport && audioRef.current.preFaderTap && audioRef.current.transitionNodes) {
+            audioRef.current.transport.seek(routeDeck(deckId, deckState), time, when);
         }
     };
 
-    const handlePitchChange = useCallback((deck: 'A' | 'B', newRate: number) => {
-        const setDeck = deck === 'A' ? setDeckA : setDeckB;
-        const audioRef = deck === 'A' ? deckAAudioRef : deckBAudioRef;
+    // Moves a deck to a new tempo or nudge. The transport keeps time before the change at the old rate.
+    const retimeDeck = (deck: DeckId, next: DeckState) => {
+        const audioRef = deckAudioRefs[deck];
+        const context = audioContextRef.current;
+        if (!audioRef.current.transport || !context) return;
+        const now = context.currentTime;
+        const rate = getDeckRate(next);
+        const slip = audioRef.current.slipAnchor;
+        if (slip) {
+            slip.offset += (now - slip.contextTime) * slip.rate;
+            slip.contextTime = now;
+            slip.rate = rate;
+        }
+        audioRef.current.transport.setRate(rate);
+        if (audioRef.current.keyLockNode) setKeyLockPitch(audioRef.current.keyLockNode, getPitchRatio(next, rate), now);
+    };
 
-        setDeck(d => {
-            if (audioRef.current.source && audioContextRef.current) {
-                audioRef.current.source.playbackRate.setValueAtTime(newRate, audioContextRef.current.currentTime);
-                const detuneValue = d.keyLock ? -1200 * Math.log2(newRate) : 0;
-                audioRef.current.source.detune.setValueAtTime(detuneValue, audioContextRef.current.currentTime);
-            }
-            return { ...d, playbackRate: newRate };
-        });
+    // The audio is retimed from the current state, outside the updater, which may run more than once
+    const handlePitchChange = useCallback((deck: DeckId, newRate: number) => {
+        retimeDeck(deck, { ...decksRef.current[deck], playbackRate: newRate });
+        deckSetters[deck](d => withHeardKey({ ...d, playbackRate: newRate }));
     }, []);
-    
-    const toggleKeyLock = (deckId: 'A' | 'B') => {
-        const setDeck = deckId === 'A' ? setDeckA : setDeckB;
-        const audioRef = deckId === 'A' ? deckAAudioRef : deckBAudioRef;
-    
-        setDeck(d => {
-            const newKeyLockState = !d.keyLock;
-            if (audioRef.current.source && audioContextRef.current) {
-                const detuneValue = newKeyLockState ? -1200 * Math.log2(d.playbackRate) : 0;
-                audioRef.current.source.detune.setValueAtTime(detuneValue, audioContextRef.current.currentTime);
-            }
-            return { ...d, keyLock: newKeyLockState };
+
+    // Applies key lock and key shift changes to a playing deck
+    const applyPitchSettings = (deckId: DeckId, deckState: DeckState, next: DeckState) => {
+        const audioRef = deckAudioRefs[deckId];
+        const context = audioContextRef.current;
+        if (!deckState.isPlaying || !context || !audioRef.current.transport || !keyLockReadyRef.current) return;
+        const shift = needsPitchShift(next);
+        if (shift && audioRef.current.keyLockNode) {
+            setKeyLockPitch(audioRef.current.keyLockNode, getPitchRatio(next, getDeckRate(next)), context.currentTime);
+            return;
+        }
+        if (!shift && !audioRef.current.keyLockNode) return;
+
+        // Re-route through (or around) the time-stretcher; the transport switches once its latency has passed
+        audioRef.current.transport.reroute(routeDeck(deckId, next));
+    };
+
+    const toggleKeyLock = (deckId: DeckId) => {
+        const deckState = decks[deckId];
+        const setDeck = deckSetters[deckId];
+        const keyLock = !deckState.keyLock;
+        setDeck(d => withHeardKey({ ...d, keyLock }));
+        applyPitchSettings(deckId, deckState, { ...deckState, keyLock });
+    };
+
+    // --- KEY SHIFT ---
+    // The deck's key follows the transpose, so harmonic matching sees what's heard
+    const handleKeyShift = (deckId: DeckId, semitones: number) => {
+        const deckState = decks[deckId];
+        const setDeck = deckSetters[deckId];
+        const keyShift = Math.max(-MAX_KEY_SHIFT, Math.min(MAX_KEY_SHIFT, Math.round(semitones)));
+        setDeck(d => withHeardKey({ ...d, keyShift }));
+        applyPitchSettings(deckId, deckState, { ...deckState, keyShift });
+    };
+
+    // Transposes to the nearest key that mixes with the reference deck's
+    const handleMatchKey = (deckId: DeckId) => {
+        const deckState = decks[deckId];
+        const referenceDeckId = getReferenceDeckId(deckId);
+        const referenceKey = referenceDeckId ? decks[referenceDeckId].key : null;
+        if (!deckState.song?.key || !referenceKey) return;
+        const keyShift = getMatchingKeyShift(deckState.song.key, referenceKey);
+        if (keyShift !== null) handleKeyShift(deckId, keyShift);
+    };
+
+    // The deck another one lines up with for quantized starts and key matching: the sync
+    // master, else a playing deck, else any loaded one. Only decks on screen count.
+    const getReferenceDeckId = (deckId: DeckId): DeckId | null => {
+        const others = activeDeckIds.filter(id => id !== deckId && decks[id].song);
+        if (syncMaster && others.includes(syncMaster)) return syncMaster;
+        return others.find(id => decks[id].isPlaying) ?? others[0] ?? null;
+    };
+
+    // --- QUANTIZE ---
+    const toggleQuantize = (deckId: DeckId) => {
+        const setDeck = deckSetters[deckId];
+        setDeck(d => ({ ...d, quantize: !d.quantize }));
+    };
+
+    const handleQuantizeResolutionChange = (deckId: DeckId, resolution: QuantizeResolution) => {
+        const setDeck = deckSetters[deckId];
+        setDeck(d => ({ ...d, quantizeResolution: resolution }));
+    };
+
+    // Playing position from the audio clock; the per-frame currentTime can lag by a frame
+    const getPlayheadTime = (deckId: DeckId): number => {
+        const deckState = decks[deckId];
+        const transport: DeckTransport | null = deckAudioRefs[deckId].current.transport;
+        return deckState.isPlaying && transport ? transport.getPosition() : deckState.currentTime;
+    };
+
+    const quantizeTime = (deckState: DeckState, time: number): number => {
+        return deckState.quantize && deckState.beatgrid ? snapToGrid(time, deckState.beatgrid, deckState.quantizeResolution) : time;
+    };
+
+    // AudioContext time at which a playing deck reaches its next grid line; undefined when it isn't playing or has no grid
+    const getNextGridContextTime = (deckId: DeckId, resolution: QuantizeResolution): number | undefined => {
+        const deckState = decks[deckId];
+        const context = audioContextRef.current;
+        if (!deckState.isPlaying || !deckState.beatgrid || !context) return undefined;
+        const position = getPlayheadTime(deckId);
+        const line = nextGridLine(position, deckState.beatgrid, resolution);
+        return context.currentTime + (line - position) / getDeckRate(deckState);
+    };
+
+    // When to carry out a quantized jump on this deck: its next grid line, or now with quantize off
+    const getQuantizedJumpTime = (deckId: DeckId): number | undefined => {
+        const deckState = decks[deckId];
+        return deckState.quantize ? getNextGridContextTime(deckId, deckState.quantizeResolution) : undefined;
+    };
+
+    // --- SYNC ---
+    // Followers are decks with sync on other than the master. A follower's phase error left by
+    // pitch bending is kept as its offset, so manual nudges stick instead of being undone.
+    const getFollowerCorrection = (deckId: DeckId, phaseOffset: number): SyncCorrection | null => {
+        const deckState = decks[deckId];
+        const masterState = syncMaster ? decks[syncMaster] : null;
+        if (!syncMaster || syncMaster === deckId || !masterState?.beatgrid || !deckState.beatgrid) return null;
+        return getSyncCorrection(
+            { beatgrid: masterState.beatgrid, playbackRate: masterState.playbackRate, position: getPlayheadTime(syncMaster) },
+            { beatgrid: deckState.beatgrid, playbackRate: deckState.playbackRate, position: getPlayheadTime(deckId) },
+            deckState.barSync ? 'bar' : 'beat',
+            phaseOffset,
+        );
+    };
+
+    useEffect(() => {
+        const master = syncMaster ? decks[syncMaster] : null;
+        DECK_IDS.forEach(deckId => {
+            const deckState = decks[deckId];
+            const audioRef = deckAudioRefs[deckId];
+            if (!deckState.sync || deckState.pitchBend !== 0) return;
+            const correction = getFollowerCorrection(deckId, audioRef.current.syncPhaseOffset);
+            if (!correction) return;
+            // Phase only locks while both are playing; the tempo follows regardless
+            const nudge = master?.isPlaying && deckState.isPlaying ? correction.nudge : 0;
+            // Small nudge changes wait, so the deck isn't re-timed every frame
+            if (Math.abs(correction.playbackRate - deckState.playbackRate) < 1e-4 && Math.abs(nudge - deckState.nudge) < 0.002 && (nudge !== 0 || deckState.nudge === 0)) return;
+            const changes = { playbackRate: correction.playbackRate, nudge };
+            retimeDeck(deckId, { ...deckState, ...changes });
+            deckSetters[deckId](d => withHeardKey({ ...d, ...changes }));
         });
+    }, [decks, syncMaster]);
+
+    // Turning sync on makes the reference deck the master when there isn't one, or when this deck was it
+    const toggleSync = (deckId: DeckId) => {
+        const deckState = decks[deckId];
+        const setDeck = deckSetters[deckId];
+        const audioRef = deckAudioRefs[deckId];
+        const sync = !deckState.sync;
+        audioRef.current.syncPhaseOffset = 0;
+        if (sync && (syncMaster === null || syncMaster === deckId)) {
+            setSyncMaster(getReferenceDeckId(deckId) ?? activeDeckIds.find(id => id !== deckId) ?? null);
+        }
+        const nudge = deckState.pitchBend * PITCH_BEND;
+        retimeDeck(deckId, { ...deckState, sync, nudge });
+        setDeck(d => withHeardKey({ ...d, sync, nudge }));
+    };
+
+    const handleSetSyncMaster = (deckId: DeckId) => {
+        DECK_IDS.forEach(id => { deckAudioRefs[id].current.syncPhaseOffset = 0; });
+        setSyncMaster(deckId);
+    };
+
+    const toggleBarSync = (deckId: DeckId) => {
+        const setDeck = deckSetters[deckId];
+        setDeck(d => ({ ...d, barSync: !d.barSync }));
+    };
+
+    // Speeds up (1) or slows down (-1) the deck while held; 0 on release
+    const handlePitchBend = (deckId: DeckId, direction: -1 | 0 | 1) => {
+        const deckState = decks[deckId];
+        const setDeck = deckSetters[deckId];
+        const audioRef = deckAudioRefs[deckId];
+        if (direction === 0 && deckState.sync && deckState.pitchBend !== 0) {
+            const correction = getFollowerCorrection(deckId, 0);
+            if (correction) audioRef.current.syncPhaseOffset = correction.phaseError;
+        }
+        const nudge = direction * PITCH_BEND;
+        retimeDeck(deckId, { ...deckState, pitchBend: direction, nudge });
+        setDeck(d => withHeardKey({ ...d, pitchBend: direction, nudge }));
+    };
+
+    // --- SLIP MODE ---
+    // During a slip action a shadow playhead advances from where the action started, at the
+    // deck's rate, and playback returns to it when the action ends. Loops, loop rolls,
+    // scratches, reverse and hot cue holds are slip actions.
+    const toggleSlipMode = (deckId: DeckId) => {
+        const setDeck = deckSetters[deckId];
+        setDeck(d => ({ ...d, slipMode: !d.slipMode }));
+    };
+
+    const getSlipPosition = (deckId: DeckId): number | null => {
+        const anchor = deckAudioRefs[deckId].current.slipAnchor;
+        const context = audioContextRef.current;
+        if (!anchor || !context) return null;
+        return anchor.offset + Math.max(0, context.currentTime - anchor.contextTime) * anchor.rate;
+    };
+
+    // Starts the shadow playhead unless one is already running; loop rolls `force` it, as they always slip
+    const beginSlip = (deckId: DeckId, force = false) => {
+        const deckState = decks[deckId];
+        const setDeckState = deckSetters[deckId];
+        const audioRef = deckAudioRefs[deckId];
+        const context = audioContextRef.current;
+        if (!context || audioRef.current.slipAnchor || !deckState.isPlaying || !(deckState.slipMode || force)) return;
+        const offset = getPlayheadTime(deckId);
+        audioRef.current.slipAnchor = { contextTime: context.currentTime, offset, rate: getDeckRate(deckState) };
+        setDeckState(d => ({ ...d, slipPosition: offset }));
+    };
+
+    // Ends the slip action and returns the shadow position, jumping there if the deck is playing; null when not slipping
+    const endSlip = (deckId: DeckId): number | null => {
+        const deckState = decks[deckId];
+        const setDeckState = deckSetters[deckId];
+        const audioRef = deckAudioRefs[deckId];
+        const slipPosition = getSlipPosition(deckId);
+        if (slipPosition === null) return null;
+        const position = Math.min(slipPosition, deckState.duration);
+        audioRef.current.slipAnchor = null;
+        setDeckState(d => ({ ...d, slipPosition: null }));
+        if (deckState.isPlaying) seekDeck(deckId, position);
+        return position;
+    };
+
+    // Plays backwards from a reversed copy of the track while held
+    const handleReverse = (deckId: DeckId, active: boolean) => {
+        const deckState = decks[deckId];
+        const setDeckState = deckSetters[deckId];
+        const audioRef = deckAudioRefs[deckId];
+        const context = audioContextRef.current;
+        const transport: DeckTransport | null = audioRef.current.transport;
+        if (!context || !transport || !deckState.isPlaying || !audioRef.current.buffer || active === deckState.isReversed) return;
+
+        if (active) {
+            beginSlip(deckId);
+            const position = getPlayheadTime(deckId);
+            transport.setReversed(routeDeck(deckId, deckState), true);
+            setDeckState(d => ({ ...d, isReversed: true, currentTime: position }));
+        } else {
+            transport.setReversed(routeDeck(deckId, deckState), false);
+            setDeckState(d => ({ ...d, isReversed: false }));
+            endSlip(deckId);
+        }
+    };
+
+    // Loops while held, then carries on from where the track would have been
+    const handleLoopRoll = (deckId: DeckId, beats: number | null) => {
+        if (beats !== null) {
+            beginSlip(deckId, true);
+            handleSetLoop(deckId, { beats });
+        } else {
+            handleSetLoop(deckId, 'exit');
+        }
+    };
+
+    // Holding a hot cue plays from it; on release a slip returns to the shadow position
+    const handleCueHold = (deckId: DeckId, cueIndex: number, pressed: boolean) => {
+        const deckState = decks[deckId];
+        const cue = deckState.cuePoints[cueIndex];
+        if (!cue) return;
+        if (pressed) {
+            beginSlip(deckId);
+            handleCueAction(deckId, 'jump', cueIndex);
+        } else if (cue.type === 'loop' && deckState.loop.active) {
+            handleSetLoop(deckId, 'exit');
+        } else {
+            endSlip(deckId);
+        }
     };
 
     const updateLoop = useCallback(() => {
-        const processDeck = (deckId: 'A' | 'B') => {
-            const setDeckState = deckId === 'A' ? setDeckA : setDeckB;
-            
+        // The position comes from the deck's transport; loops and the track end are its business
+        const processDeck = (deckId: DeckId) => {
+            const setDeckState = deckSetters[deckId];
+            const transport: DeckTransport | null = deckAudioRefs[deckId].current.transport;
+
             setDeckState(d => {
-                if (!d.isPlaying || !d.lastUpdateTime) {
+                // A quantized start can be scheduled a little ahead
+                if (!d.isPlaying || !transport?.isPlaying()) {
                     return d;
                 }
-    
-                const elapsed = (performance.now() - d.lastUpdateTime) / 1000;
-                let newTime = d.currentTime + elapsed * d.playbackRate;
-                const newAngle = (d.platterAngle + 2 * d.playbackRate) % 360;
-    
-                if (d.loop.active && d.loop.start !== null && d.loop.end !== null && newTime >= d.loop.end) {
-                    const loopDuration = d.loop.end - d.loop.start;
-                    const timeOver = newTime - d.loop.end;
-                    newTime = d.loop.start + (timeOver % loopDuration);
-                    seekDeck(deckId, newTime); // Use seekDeck to handle audio source reset
-                    return { ...d, platterAngle: newAngle, lastUpdateTime: performance.now() };
-                }
+
+                const newTime = transport.getPosition();
+                const newAngle = (d.platterAngle + 2 * getDeckRate(d)) % 360;
     
                 let newViewStartRatio = d.viewStartRatio;
                 if (d.zoom > 1 && d.duration > 0) {
@@ -1874,26 +2470,27 @@ const App: React.FC = () => {
                     }
                 }
     
-                if (newTime >= d.duration) {
-                    return { ...d, isPlaying: false, currentTime: d.duration };
-                } else {
-                    return { ...d, currentTime: newTime, platterAngle: newAngle, viewStartRatio: newViewStartRatio, lastUpdateTime: performance.now() };
-                }
+                return { ...d, currentTime: newTime, platterAngle: newAngle, viewStartRatio: newViewStartRatio };
             });
         };
     
-        processDeck('A');
-        processDeck('B');
+        DECK_IDS.forEach(processDeck);
+
+        // The shadow playhead keeps moving during slip actions, even while the platter is held
+        DECK_IDS.forEach(deckId => {
+            const slipPosition = getSlipPosition(deckId);
+            if (slipPosition === null) return;
+            const setDeckState = deckSetters[deckId];
+            setDeckState(d => ({ ...d, slipPosition: Math.min(slipPosition, d.duration) }));
+        });
     
-        if (deckAAnalyserRef.current) {
-            const dataArray = new Uint8Array(deckAAnalyserRef.current.frequencyBinCount);
-            deckAAnalyserRef.current.getByteFrequencyData(dataArray);
-            setDeckAFrequencyData(dataArray);
-        }
-        if (deckBAnalyserRef.current) {
-            const dataArray = new Uint8Array(deckBAnalyserRef.current.frequencyBinCount);
-            deckBAnalyserRef.current.getByteFrequencyData(dataArray);
-            setDeckBFrequencyData(dataArray);
+        const analysers = deckAnalysersRef.current;
+        if (DECK_IDS.every(deckId => analysers[deckId])) {
+            setDeckFrequencyData(createDeckRecord(deckId => {
+                const dataArray = new Uint8Array(analysers[deckId]!.frequencyBinCount);
+                analysers[deckId]!.getByteFrequencyData(dataArray);
+                return dataArray;
+            }));
         }
         if (analyserRef.current) {
             const dataArray = new Uint8Array(analyserRef.current.frequencyBinCount);
@@ -1904,72 +2501,99 @@ const App: React.FC = () => {
 
 
     // --- LOOP LOGIC ---
-    const updateAudioSourceLoop = (deckId: 'A' | 'B', loop: DeckState['loop']) => {
-        const audioRef = deckId === 'A' ? deckAAudioRef : deckBAudioRef;
-        if (audioRef.current.source) {
-            audioRef.current.source.loop = loop.active;
-            if (loop.active && loop.start !== null && loop.end !== null) {
-                audioRef.current.source.loopStart = loop.start;
-                audioRef.current.source.loopEnd = loop.end;
-            }
-        }
+    // The transport loops the audio and the playhead together. `when` is for a loop that comes in with a scheduled jump.
+    const updateTransportLoop = (deckId: DeckId, loop: DeckState['loop'], when?: number) => {
+        deckAudioRefs[deckId].current.transport?.setLoop(getTransportLoop(loop), when);
     };
 
-    const handleSetLoop = (deckId: 'A' | 'B', type: 'in' | 'out' | 'exit' | 'reloop' | { beats: number }) => {
-        const deckState = deckId === 'A' ? deckA : deckB;
-        const setDeckState = deckId === 'A' ? setDeckA : setDeckB;
+    const handleSetLoop = (deckId: DeckId, type: 'in' | 'out' | 'exit' | 'reloop' | { beats: number }) => {
+        const deckState = decks[deckId];
+        const setDeckState = deckSetters[deckId];
+
+        const position = getPlayheadTime(deckId);
 
         if (typeof type === 'object') { // Auto loop
             if (!deckState.bpm) return;
             const beatDuration = 60 / deckState.bpm;
             const loopDuration = type.beats * beatDuration;
-            const start = deckState.currentTime;
+            const start = quantizeTime(deckState, position);
             const end = Math.min(start + loopDuration, deckState.duration);
             const newLoop = { start, end, active: true };
+            beginSlip(deckId);
             setDeckState(d => ({...d, loop: newLoop}));
-            updateAudioSourceLoop(deckId, newLoop);
+            updateTransportLoop(deckId, newLoop);
             return;
         }
 
         if (type === 'in') {
-            setDeckState(d => ({ ...d, loop: { ...d.loop, start: d.currentTime, end: null, active: false } }));
+            const start = quantizeTime(deckState, position);
+            setDeckState(d => ({ ...d, loop: { ...d.loop, start, end: null, active: false } }));
         } else if (type === 'out') {
-            if (deckState.loop.start !== null && deckState.currentTime > deckState.loop.start) {
-                const newLoop = { ...deckState.loop, end: deckState.currentTime, active: true };
+            const { start } = deckState.loop;
+            if (start !== null && position > start) {
+                let end = quantizeTime(deckState, position);
+                // Snapping can pull the end back onto the start; keep at least one grid step
+                if (end <= start && deckState.beatgrid) end = start + getGridStep(deckState.beatgrid, deckState.quantizeResolution);
+                const newLoop = { ...deckState.loop, end, active: true };
+                beginSlip(deckId);
                 setDeckState(d => ({...d, loop: newLoop}));
-                updateAudioSourceLoop(deckId, newLoop);
+                updateTransportLoop(deckId, newLoop);
             }
         } else if (type === 'exit') {
+            // Jump back first so the loop is cleared from the slip position on
+            endSlip(deckId);
             const newLoop = { ...deckState.loop, active: false };
             setDeckState(d => ({...d, loop: newLoop}));
-            updateAudioSourceLoop(deckId, newLoop);
+            updateTransportLoop(deckId, newLoop);
         } else if (type === 'reloop') {
              if (deckState.loop.start !== null && deckState.loop.end !== null) {
                 const newLoop = { ...deckState.loop, active: true };
+                beginSlip(deckId);
                 setDeckState(d => ({...d, loop: newLoop}));
-                updateAudioSourceLoop(deckId, newLoop);
+                updateTransportLoop(deckId, newLoop);
             }
         }
     };
     
     // --- CUE POINT LOGIC ---
-    const handleCueAction = (deckId: 'A' | 'B', type: 'set' | 'jump' | 'delete', cueIndex: number) => {
-        const deckState = deckId === 'A' ? deckA : deckB;
-        const setDeckState = deckId === 'A' ? setDeckA : setDeckB;
+    // Cue, loop and grid edits are written to the song record so they come back whenever it's loaded again
+    const saveTrackPrep = (deckId: DeckId, changes: Partial<Song>, deckChanges: Partial<DeckState> = {}) => {
+        const song = decks[deckId].song;
+        if (!song) return;
+        updateSongs([song.id], s => ({ ...s, ...changes }), (d, s) => ({ ...d, ...deckChanges, song: s }));
+    };
 
-        if (!deckState.song) return;
+    // Setting a loop cue stores the deck's current loop; jumping to one starts that loop
+    const handleCueAction = (deckId: DeckId, type: 'set' | 'jump' | 'delete', cueIndex: number, cueType: CueType = 'cue') => {
+        const deckState = decks[deckId];
+        const setDeckState = deckSetters[deckId];
+
+        if (!deckState.song || cueIndex < 0 || cueIndex >= HOT_CUE_COUNT) return;
 
         switch (type) {
             case 'set': {
+                const { start, end } = deckState.loop;
+                if (cueType === 'loop' && (start === null || end === null)) return;
                 const newCues = [...deckState.cuePoints];
-                newCues[cueIndex] = deckState.currentTime;
-                setDeckState(d => ({ ...d, cuePoints: newCues }));
+                // Re-setting a pad moves it but keeps its name and colour
+                const { label, color } = newCues[cueIndex] ?? {};
+                newCues[cueIndex] = cueType === 'loop'
+                    ? { time: start!, end: end!, type: cueType, label, color }
+                    : { time: quantizeTime(deckState, getPlayheadTime(deckId)), type: cueType, label, color };
+                saveTrackPrep(deckId, { cuePoints: newCues }, { cuePoints: newCues });
                 break;
             }
             case 'jump': {
-                const cueTime = deckState.cuePoints[cueIndex];
-                if (typeof cueTime === 'number') {
-                    seekDeck(deckId, cueTime);
+                const cue = deckState.cuePoints[cueIndex];
+                if (!cue) break;
+                if (cue.type === 'loop') beginSlip(deckId);
+                const jumpTime = getQuantizedJumpTime(deckId);
+                seekDeck(deckId, cue.time, jumpTime);
+                // After the seek, so the loop starts with the jump rather than on the source before it
+                if (cue.type === 'loop' && cue.end !== undefined) {
+                    const newLoop = { start: cue.time, end: cue.end, active: true };
+                    setDeckState(d => ({ ...d, loop: newLoop }));
+                    updateTransportLoop(deckId, newLoop, jumpTime);
                 }
                 break;
             }
@@ -1981,42 +2605,93 @@ const App: React.FC = () => {
                     while (newCues.length > 0 && newCues[newCues.length - 1] === undefined) {
                         newCues.pop();
                     }
-                    setDeckState(d => ({ ...d, cuePoints: newCues }));
+                    saveTrackPrep(deckId, { cuePoints: newCues }, { cuePoints: newCues });
                 }
                 break;
             }
         }
     };
 
-    // --- AUTO DJ LOGIC ---
+    // Rename, recolour or retype a hot cue; a null label or colour clears it. Loop cues are only made with 'set'.
+    const handleUpdateCue = (deckId: DeckId, cueIndex: number, changes: { label?: string | null, color?: string | null, type?: Exclude<CueType, 'loop'> }) => {
+        const deckState = decks[deckId];
+        const cue = deckState.cuePoints[cueIndex];
+        if (!cue) return;
+        const updated: HotCue = { ...cue };
+        if (changes.label !== undefined) updated.label = changes.label?.trim() || undefined;
+        if (changes.color !== undefined) updated.color = changes.color ?? undefined;
+        if (changes.type !== undefined) {
+            updated.type = changes.type;
+            delete updated.end;
+        }
+        const newCues = deckState.cuePoints.map((c, i) => i === cueIndex ? updated : c);
+        saveTrackPrep(deckId, { cuePoints: newCues }, { cuePoints: newCues });
+    };
 
-    const getCompatibleKeys = (key: string): string[] => {
-        if (!key) return [];
-        const num = parseInt(key.slice(0, -1));
-        const letter = key.slice(-1);
-    
-        const compatible: string[] = [];
-    
-        // Same number, different letter (e.g., 8A -> 8B)
-        compatible.push(`${num}${letter === 'A' ? 'B' : 'A'}`);
-    
-        // One number up, same letter (e.g., 8A -> 9A)
-        const nextNum = num === 12 ? 1 : num + 1;
-        compatible.push(`${nextNum}${letter}`);
-    
-        // One number down, same letter (e.g., 8A -> 7A)
-        const prevNum = num === 1 ? 12 : num - 1;
-        compatible.push(`${prevNum}${letter}`);
-    
-        return compatible;
+    // The main CUE point: one per track, separate from the hot cue pads
+    const handleMemoryCue = (deckId: DeckId, type: 'set' | 'jump' | 'delete') => {
+        const deckState = decks[deckId];
+        if (!deckState.song) return;
+
+        if (type === 'set') {
+            const time = quantizeTime(deckState, getPlayheadTime(deckId));
+            saveTrackPrep(deckId, { memoryCue: time }, { memoryCue: time });
+        } else if (type === 'jump') {
+            if (deckState.memoryCue !== null) seekDeck(deckId, deckState.memoryCue, getQuantizedJumpTime(deckId));
+        } else if (deckState.memoryCue !== null) {
+            saveTrackPrep(deckId, { memoryCue: undefined }, { memoryCue: null });
+        }
     };
 
+    // Saved loops live on the song; 'save' stores the deck's current loop, 'recall' makes a saved one active
+    const handleSavedLoop = (deckId: DeckId, type: 'save' | 'recall' | 'delete', loopIndex = -1) => {
+        const deckState = decks[deckId];
+        const setDeckState = deckSetters[deckId];
+        const song = deckState.song;
+        if (!song) return;
+        const savedLoops = song.savedLoops ?? [];
+
+        if (type === 'save') {
+            const { start, end } = deckState.loop;
+            if (start === null || end === null) return;
+            if (savedLoops.some(l => Math.abs(l.start - start) < 0.01 && Math.abs(l.end - end) < 0.01)) return;
+            saveTrackPrep(deckId, { savedLoops: [...savedLoops, { start, end }] });
+        } else if (type === 'recall') {
+            const saved = savedLoops[loopIndex];
+            if (!saved) return;
+            beginSlip(deckId);
+            const jumpTime = getQuantizedJumpTime(deckId);
+            seekDeck(deckId, saved.start, jumpTime);
+            const newLoop = { start: saved.start, end: saved.end, active: true };
+            setDeckState(d => ({ ...d, loop: newLoop }));
+            updateTransportLoop(deckId, newLoop, jumpTime);
+        } else if (savedLoops[loopIndex]) {
+            const remaining = savedLoops.filter((_, i) => i !== loopIndex);
+            saveTrackPrep(deckId, { savedLoops: remaining.length > 0 ? remaining : undefined });
+        }
+    };
+
+    // Hand-corrected grids are locked so re-analysis doesn't replace them
+    const handleAdjustBeatgrid = (deckId: DeckId, adjustment: BeatgridAdjustment) => {
+        const deckState = decks[deckId];
+        if (!deckState.song || !deckState.beatgrid) return;
+        if (adjustment.type === 'setBpm' && !(adjustment.bpm > 0)) return;
+        const beatgrid = adjustBeatgrid(deckState.beatgrid, adjustment);
+        if (adjustment.type === 'setBpm') {
+            saveTrackPrep(deckId, { beatgrid, beatgridLocked: true, bpm: beatgrid.bpm, taggedBpm: beatgrid.bpm }, { beatgrid, bpm: beatgrid.bpm });
+        } else {
+            saveTrackPrep(deckId, { beatgrid, beatgridLocked: true }, { beatgrid });
+        }
+    };
+
+    // --- AUTO DJ LOGIC ---
+
     const getNextTrack = useCallback((avoidTrackId?: number): Song | null => {
-        const activeDeckState = autoDjActiveDeck === 'A' ? deckA : deckB;
+        const activeDeckState = decks[autoDjActiveDeck];
     
         // Handle queue source first, as it's an explicit user choice
         if (autoDjSettings.playlistSource === 'queues') {
-            const nextDeckQueue = autoDjActiveDeck === 'A' ? queueB : queueA;
+            const nextDeckQueue = queues[autoDjActiveDeck === 'A' ? 'B' : 'A'];
             if (nextDeckQueue.length > 0) {
                 return nextDeckQueue[0];
             }
@@ -2024,7 +2699,24 @@ const App: React.FC = () => {
         }
     
         // --- Library Source Logic ---
-        if (library.length === 0) return null;
+        // A selected playlist or crate narrows the library; an empty or deleted one falls back to the whole library
+        let sourceSongs = library;
+        if (autoDjSettings.playlistSource === 'playlist') {
+            const selectedSongs = playlistSongs.get(autoDjSettings.playlistId ?? -1) ?? [];
+            if (selectedSongs.length > 0) sourceSongs = selectedSongs;
+        }
+        // Entries whose audio went missing since the last session can't be loaded until relinked
+        let playableLibrary = sourceSongs.filter(s => !s.isMissing);
+        if (playableLibrary.length === 0) return null;
+
+        // Rating, colour and tag filters are strict: with no track passing them there's no candidate
+        const labelFilters = [
+            autoDjSettings.minRating > 0 ? hasRatingAtLeast(autoDjSettings.minRating) : null,
+            autoDjSettings.colorFilter.length > 0 ? hasColorIn(autoDjSettings.colorFilter) : null,
+            autoDjSettings.requiredTags.length > 0 ? hasAllTags(autoDjSettings.requiredTags) : null,
+        ].filter(predicate => predicate !== null);
+        playableLibrary = playableLibrary.filter(s => labelFilters.every(predicate => predicate(s)));
+        if (playableLibrary.length === 0) return null;
     
         const currentSongId = activeDeckState.song?.id;
     
@@ -2032,33 +2724,33 @@ const App: React.FC = () => {
     
         // Tier 1: Ideal tracks - unplayed in this session
         const historyIds = new Set(autoDjHistory.map(s => s.id));
-        let selectionPool = library.filter(s => 
+        let selectionPool = playableLibrary.filter(s => 
             !historyIds.has(s.id) &&
             s.id !== currentSongId && 
             s.id !== avoidTrackId
         );
     
         // Tier 2: If no unplayed tracks, use less-recently played tracks
-        if (selectionPool.length === 0 && library.length > 1) {
+        if (selectionPool.length === 0 && playableLibrary.length > 1) {
             const recentHistoryCount = Math.ceil(autoDjHistory.length / 2);
             const recentHistoryIds = new Set(autoDjHistory.slice(0, recentHistoryCount).map(s => s.id));
             if (currentSongId) recentHistoryIds.add(currentSongId);
             if (avoidTrackId) recentHistoryIds.add(avoidTrackId);
     
-            selectionPool = library.filter(s => !recentHistoryIds.has(s.id));
+            selectionPool = playableLibrary.filter(s => !recentHistoryIds.has(s.id));
         }
     
         // Tier 3: If still no tracks (e.g., small library where all songs were recently played),
         // just avoid the current track. This allows repeats but avoids playing the same song back-to-back.
-        if (selectionPool.length === 0 && library.length > 1) {
-            selectionPool = library.filter(s => s.id !== currentSongId && s.id !== avoidTrackId);
+        if (selectionPool.length === 0 && playableLibrary.length > 1) {
+            selectionPool = playableLibrary.filter(s => s.id !== currentSongId && s.id !== avoidTrackId);
         }
     
         // Tier 4: Ultimate fallback. If the pool is still empty (e.g. library has only 1-2 songs),
         // use the whole library, minus the track to avoid if 'repick' was used.
         if (selectionPool.length === 0) {
-            selectionPool = library.filter(s => s.id !== avoidTrackId);
-            if (selectionPool.length === 0) selectionPool = [...library];
+            selectionPool = playableLibrary.filter(s => s.id !== avoidTrackId);
+            if (selectionPool.length === 0) selectionPool = [...playableLibrary];
         }
     
         if (selectionPool.length === 0) {
@@ -2070,25 +2762,18 @@ const App: React.FC = () => {
         
         // Energy Flow
         if (autoDjSettings.energyFlow !== 'Any' && activeDeckState.song?.energy) {
-            const currentEnergy = activeDeckState.song.energy;
-            const energyMatches = filteredTracks.filter(s => {
-                if (!s.energy) return true; // Don't filter out songs without energy data
-                switch (autoDjSettings.energyFlow) {
-                    case 'Maintain': return Math.abs(s.energy - currentEnergy) <= 2;
-                    case 'Increase': return s.energy > currentEnergy;
-                    case 'Decrease': return s.energy < currentEnergy;
-                    default: return true;
-                }
-            });
+            const matchesFlow = matchesEnergyFlow(autoDjSettings.energyFlow, activeDeckState.song.energy);
+            // Don't filter out songs without energy data
+            const energyMatches = filteredTracks.filter(s => !s.energy || matchesFlow(s));
             if (energyMatches.length > 0) filteredTracks = energyMatches;
         }
     
         // Avoid repeating artist
         if (autoDjSettings.avoidRepeatingArtist && activeDeckState.song?.name) {
-            const currentArtist = getArtistFromName(activeDeckState.song.name);
+            const currentArtist = getSongArtist(activeDeckState.song);
             if (currentArtist) {
                 const artistMatches = filteredTracks.filter(s => {
-                    const nextArtist = getArtistFromName(s.name);
+                    const nextArtist = getSongArtist(s);
                     return !nextArtist || nextArtist.toLowerCase() !== currentArtist.toLowerCase();
                 });
                 if (artistMatches.length > 0) filteredTracks = artistMatches;
@@ -2099,21 +2784,20 @@ const App: React.FC = () => {
         if (autoDjSettings.bpmMatch.enabled && activeDeckState.song?.bpm) {
             const { bpm } = activeDeckState.song;
             const { range } = autoDjSettings.bpmMatch;
-            const bpmMatches = filteredTracks.filter(s => s.bpm && s.bpm >= bpm - range && s.bpm <= bpm + range);
+            const bpmMatches = filteredTracks.filter(isBpmWithin(bpm - range, bpm + range));
             if (bpmMatches.length > 0) filteredTracks = bpmMatches;
         }
     
         // Genre Match
         if (autoDjSettings.genreMatch && activeDeckState.song?.genre) {
             const { genre } = activeDeckState.song;
-            const genreMatches = filteredTracks.filter(s => s.genre === genre);
+            const genreMatches = filteredTracks.filter(isGenreIn([genre]));
             if (genreMatches.length > 0) filteredTracks = genreMatches;
         }
     
         // Harmonic Mix logic
-        if (autoDjSettings.harmonicMix && activeDeckState.song?.key) {
-            const compatibleKeys = getCompatibleKeys(activeDeckState.song.key);
-            const harmonicMatches = filteredTracks.filter(s => s.key && compatibleKeys.includes(s.key));
+        if (autoDjSettings.harmonicMix && activeDeckState.key) {
+            const harmonicMatches = filteredTracks.filter(isKeyCompatibleWith(activeDeckState.key));
             if (harmonicMatches.length > 0) filteredTracks = harmonicMatches;
         }
         
@@ -2126,12 +2810,12 @@ const App: React.FC = () => {
             return finalSelectionPool[randomIndex];
         } else {
             // Find the index of the current song in the main library to determine the next sequential track
-            const currentSongIndex = library.findIndex(s => s.id === currentSongId);
+            const currentSongIndex = playableLibrary.findIndex(s => s.id === currentSongId);
             if (currentSongIndex > -1) {
                 // Iterate through the main library order to find the first song that's in our selection pool
-                for (let i = 1; i <= library.length; i++) {
-                    const nextIndex = (currentSongIndex + i) % library.length;
-                    const nextSongInLibrary = library[nextIndex];
+                for (let i = 1; i <= playableLibrary.length; i++) {
+                    const nextIndex = (currentSongIndex + i) % playableLibrary.length;
+                    const nextSongInLibrary = playableLibrary[nextIndex];
                     const match = finalSelectionPool.find(p => p.id === nextSongInLibrary.id);
                     if (match) return match;
                 }
@@ -2139,20 +2823,20 @@ const App: React.FC = () => {
             // Fallback if sequential logic fails (e.g., current song not in library or no matches)
             return finalSelectionPool[0];
         }
-    }, [library, queueA, queueB, deckA.song, deckB.song, autoDjActiveDeck, autoDjSettings, autoDjHistory]);
+    }, [library, playlistSongs, queues, decks.A.song, decks.B.song, autoDjActiveDeck, autoDjSettings, autoDjHistory]);
 
     const startTransition = useCallback(async (nextTrack: Song) => {
         if (transitionIntervalRef.current) clearInterval(transitionIntervalRef.current);
-        if (transitionTimeoutRef.current) clearTimeout(transitionTimeoutRef.current);
+        cancelTransitionEndRef.current?.();
         setNextAutoDjTrack(null);
     
         const fromDeck = autoDjActiveDeck;
         const toDeck = fromDeck === 'A' ? 'B' : 'A';
-        const fromAudioRef = fromDeck === 'A' ? deckAAudioRef : deckBAudioRef;
-        const toAudioRef = toDeck === 'A' ? deckAAudioRef : deckBAudioRef;
-        const fromDeckState = fromDeck === 'A' ? deckA : deckB;
-        const setFromDeckState = fromDeck === 'A' ? setDeckA : setDeckB;
-        const setToDeckState = toDeck === 'A' ? setDeckA : setDeckB;
+        const fromAudioRef = deckAudioRefs[fromDeck];
+        const toAudioRef = deckAudioRefs[toDeck];
+        const fromDeckState = decks[fromDeck];
+        const setFromDeckState = deckSetters[fromDeck];
+        const setToDeckState = deckSetters[toDeck];
     
         const { autoGain, beatMatch } = autoDjSettings;
         let { transitionType, transitionDuration } = autoDjSettings;
@@ -2160,8 +2844,8 @@ const App: React.FC = () => {
         const finishTransition = () => {
             if (transitionIntervalRef.current) clearInterval(transitionIntervalRef.current);
             transitionIntervalRef.current = null;
-            if (transitionTimeoutRef.current) clearTimeout(transitionTimeoutRef.current);
-            transitionTimeoutRef.current = null;
+            cancelTransitionEndRef.current?.();
+            cancelTransitionEndRef.current = null;
     
             togglePlay(fromDeck);
             setFromDeckState(d => ({ ...d, currentTime: 0, song: null, waveform: undefined, isPlaying: false, loop: { start: null, end: null, active: false }, volume: 0.75 }));
@@ -2170,6 +2854,7 @@ const App: React.FC = () => {
             [fromAudioRef, toAudioRef].forEach(audioRef => {
                 if (audioRef.current.transitionNodes) {
                     const { eqFadeFilter, highPassFilter, lowPassFilter } = audioRef.current.transitionNodes;
+                    [eqFadeFilter.gain, highPassFilter.frequency, lowPassFilter.frequency].forEach(param => param.cancelScheduledValues(now));
                     eqFadeFilter.gain.setValueAtTime(0, now);
                     highPassFilter.frequency.setValueAtTime(10, now);
                     lowPassFilter.frequency.setValueAtTime(22050, now);
@@ -2186,7 +2871,7 @@ const App: React.FC = () => {
                 setAutoDjHistory(prev => [fromDeckState.song!, ...prev]);
             }
             if (autoDjSettings.playlistSource === 'queues') {
-                (toDeck === 'A' ? setQueueA : setQueueB)(q => q.slice(1));
+                updateQueue(toDeck, q => q.slice(1));
             }
             setIsTransitioning(false);
         };
@@ -2220,7 +2905,7 @@ const App: React.FC = () => {
             const loopEndTime = loopStartTime + loopDuration;
             const newLoop = { start: loopStartTime, end: Math.min(loopEndTime, fromDeckState.duration), active: true };
             setFromDeckState(d => ({ ...d, loop: newLoop }));
-            updateAudioSourceLoop(fromDeck, newLoop);
+            updateTransportLoop(fromDeck, newLoop);
         }
     
         const newToDeckState = await loadSong(nextTrack.file, toDeck);
@@ -2243,7 +2928,16 @@ const App: React.FC = () => {
             }
         }
     
-        setToDeckState(d => ({ ...d, volume: toDeckStartVolume }));
+        // Mix in from the fade-in cue when the track has one, otherwise from where it was cued up on load
+        const mixInTime = findCue(newToDeckState.cuePoints, 'fadeIn')?.time ?? newToDeckState.currentTime;
+
+        // No compatible track was found: transpose this one to fit
+        let keyShift = 0;
+        const fromKey = fromDeckState.key;
+        if (autoDjSettings.harmonicMix && autoDjSettings.harmonicKeyShift && fromKey && nextTrack.key && !isKeyCompatibleWith(fromKey)(nextTrack)) {
+            keyShift = getMatchingKeyShift(nextTrack.key, fromKey) ?? 0;
+        }
+        setToDeckState(d => withHeardKey({ ...d, volume: toDeckStartVolume, currentTime: mixInTime, keyShift }));
         
         let targetPlaybackRate = 1.0;
         if (beatMatch && fromDeckState.song?.bpm && nextTrack?.bpm && nextTrack.bpm > 0) {
@@ -2254,26 +2948,43 @@ const App: React.FC = () => {
             handlePitchChange(toDeck, 1.0);
         }
     
-        togglePlay(toDeck, { playbackRate: targetPlaybackRate, forceStartTime: 0 });
-    
-        const durationMs = transitionDuration * 1000;
-        const steps = durationMs / 50;
-        let step = 0;
+        togglePlay(toDeck, { playbackRate: targetPlaybackRate, forceStartTime: mixInTime, keyShift });
     
+        // The transition runs on the audio clock: it ends on a scheduled event, and the filter sweeps are automated up front
+        const context = audioContextRef.current!;
+        const startedAt = context.currentTime;
+        const endsAt = startedAt + transitionDuration;
+
         if (transitionType === 'Cut') {
             setCrossfader(fromDeck === 'A' ? 1 : -1);
-            if (transitionTimeoutRef.current) clearTimeout(transitionTimeoutRef.current);
-            transitionTimeoutRef.current = setTimeout(finishTransition, 1000);
+            cancelTransitionEndRef.current = clockScheduler.schedule(startedAt + 1, finishTransition);
             return;
         }
-    
+
+        if (transitionType === 'EQ Fade' && fromAudioRef.current.transitionNodes) {
+            const bassCutDB = -30;
+            const { gain } = fromAudioRef.current.transitionNodes.eqFadeFilter;
+            gain.setValueAtTime(0, startedAt);
+            gain.linearRampToValueAtTime(bassCutDB, endsAt);
+        } else if (transitionType === 'Filter Fade') {
+            if (fromAudioRef.current.transitionNodes) {
+                const highPassEndFreq = 18000;
+                const { frequency } = fromAudioRef.current.transitionNodes.highPassFilter;
+                frequency.setValueAtTime(10, startedAt);
+                frequency.linearRampToValueAtTime(10 + highPassEndFreq, endsAt);
+            }
+            if (toAudioRef.current.transitionNodes) {
+                const lowPassStartFreq = 350;
+                const lowPassEndFreq = 22050;
+                const { frequency } = toAudioRef.current.transitionNodes.lowPassFilter;
+                frequency.setValueAtTime(lowPassStartFreq, startedAt);
+                frequency.linearRampToValueAtTime(lowPassEndFreq, endsAt);
+            }
+        }
+
+        // The crossfader and faders are React state, so they follow the clock on a timer
         transitionIntervalRef.current = setInterval(() => {
-            if (!audioContextRef.current) return;
-            step++;
-            const progress = Math.min(1, step / steps);
-            const now = audioContextRef.current!.currentTime;
-            const rampTime = now + 0.05;
-    
+            const progress = Math.min(1, (context.currentTime - startedAt) / transitionDuration);
             if (transitionType === 'Fade In/Out') {
                 setCrossfader(0);
                 setFromDeckState(d => ({ ...d, volume: fromDeckStartVolume * (1 - progress) }));
@@ -2282,37 +2993,18 @@ const App: React.FC = () => {
                 const direction = fromDeck === 'A' ? 1 : -1;
                 const startValue = -direction;
                 setCrossfader(startValue + (progress * 2 * direction));
-    
-                if (transitionType === 'EQ Fade') {
-                    if (fromAudioRef.current.transitionNodes) {
-                        const bassCutDB = -30;
-                        fromAudioRef.current.transitionNodes.eqFadeFilter.gain.linearRampToValueAtTime(bassCutDB * progress, rampTime);
-                    }
-                } else if (transitionType === 'Filter Fade') {
-                    if (fromAudioRef.current.transitionNodes) {
-                        const highPassEndFreq = 18000;
-                        const highPassFreq = 10 + (progress * highPassEndFreq);
-                        fromAudioRef.current.transitionNodes.highPassFilter.frequency.linearRampToValueAtTime(highPassFreq, rampTime);
-                    }
-                    if (toAudioRef.current.transitionNodes) {
-                        const lowPassStartFreq = 350;
-                        const lowPassEndFreq = 22050;
-                        const lowPassFreq = lowPassStartFreq + (progress * (lowPassEndFreq - lowPassStartFreq));
-                        toAudioRef.current.transitionNodes.lowPassFilter.frequency.linearRampToValueAtTime(lowPassFreq, rampTime);
-                    }
-                }
-            }
-    
-            if (step >= steps) {
-                if (transitionType === 'Fade In/Out') {
-                    setFromDeckState(d => ({ ...d, volume: 0 }));
-                    setToDeckState(d => ({ ...d, volume: toDeckStartVolume }));
-                }
-                finishTransition();
             }
         }, 50);
+
+        cancelTransitionEndRef.current = clockScheduler.schedule(endsAt, () => {
+            if (transitionType === 'Fade In/Out') {
+                setFromDeckState(d => ({ ...d, volume: 0 }));
+                setToDeckState(d => ({ ...d, volume: toDeckStartVolume }));
+            }
+            finishTransition();
+        });
     
-    }, [autoDjActiveDeck, autoDjSettings, loadSong, deckA, deckB, getNextTrack, handlePitchChange]);
+    }, [autoDjActiveDeck, autoDjSettings, loadSong, decks, getNextTrack, handlePitchChange]);
 
     const activeSongIdRef = useRef<number | null>(null);
     useEffect(() => {
@@ -2320,7 +3012,7 @@ const App: React.FC = () => {
             return;
         }
 
-        const activeDeckState = autoDjActiveDeck === 'A' ? deckA : deckB;
+        const activeDeckState = decks[autoDjActiveDeck];
         const activeSongId = activeDeckState.song?.id;
 
         // When a new song starts playing, pick the next one
@@ -2330,7 +3022,11 @@ const App: React.FC = () => {
             setNextAutoDjTrack(nextUp);
         }
 
-        const triggerPoint = autoDjSettings.transitionTrigger;
+        // A fade-out cue marks where to start mixing out; otherwise it's a fixed time before the end
+        const fadeOutTime = findCue(activeDeckState.cuePoints, 'fadeOut')?.time;
+        const triggerPoint = fadeOutTime !== undefined && fadeOutTime < activeDeckState.duration
+            ? activeDeckState.duration - fadeOutTime
+            : autoDjSettings.transitionTrigger;
     
         if (
             activeDeckState.isPlaying &&
@@ -2349,11 +3045,12 @@ const App: React.FC = () => {
                     startTransition(fallbackTrack);
                  } else {
                     setIsAutoDjEnabled(false);
+                    alert("Auto DJ stopped: no track matches its source and filters.");
                  }
             }
         }
     
-    }, [isAutoDjEnabled, isTransitioning, deckA, deckB, autoDjActiveDeck, autoDjSettings.transitionTrigger, nextAutoDjTrack, getNextTrack, startTransition, setIsAutoDjEnabled]);
+    }, [isAutoDjEnabled, isTransitioning, decks, autoDjActiveDeck, autoDjSettings.transitionTrigger, nextAutoDjTrack, getNextTrack, startTransition, setIsAutoDjEnabled]);
 
     const handleAutoDjRepick = () => {
         if (!isAutoDjEnabled || !nextAutoDjTrack) return;
@@ -2371,7 +3068,7 @@ const App: React.FC = () => {
         setIsSuggestingTrack(true);
         try {
             const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
-            const activeDeckState = autoDjActiveDeck === 'A' ? deckA : deckB;
+            const activeDeckState = decks[autoDjActiveDeck];
     
             if (!activeDeckState.song || library.length < 2) {
                 alert("Cannot generate suggestion: Need a playing track and at least two songs in the library.");
@@ -2455,33 +3152,32 @@ Based on these criteria, choose the single best track from the library to play n
             clearInterval(transitionIntervalRef.current);
             transitionIntervalRef.current = null;
         }
-        if (transitionTimeoutRef.current) {
-            clearTimeout(transitionTimeoutRef.current);
-            transitionTimeoutRef.current = null;
-        }
+        cancelTransitionEndRef.current?.();
+        cancelTransitionEndRef.current = null;
         setIsTransitioning(false);
 
         const now = audioContextRef.current?.currentTime ?? 0;
 
-        [deckAAudioRef, deckBAudioRef].forEach(audioRef => {
+        DECK_IDS.forEach(deckId => {
+            const audioRef = deckAudioRefs[deckId];
             if (audioRef.current.transitionNodes) {
                 const { eqFadeFilter, highPassFilter, lowPassFilter } = audioRef.current.transitionNodes;
+                [eqFadeFilter.gain, highPassFilter.frequency, lowPassFilter.frequency].forEach(param => param.cancelScheduledValues(now));
                 eqFadeFilter.gain.setValueAtTime(0, now);
                 highPassFilter.frequency.setValueAtTime(10, now);
                 lowPassFilter.frequency.setValueAtTime(22050, now);
             }
         });
 
-        if (deckA.song) handlePitchChange('A', 1.0);
-        if (deckB.song) handlePitchChange('B', 1.0);
-        
+        AUTO_DJ_DECK_IDS.forEach(deckId => {
+            if (decksRef.current[deckId].song) handlePitchChange(deckId, 1.0);
+            deckSetters[deckId](d => ({ ...d, volume: 0.75 }));
+        });
         setCrossfader(0);
-        setDeckA(d => ({ ...d, volume: 0.75 }));
-        setDeckB(d => ({ ...d, volume: 0.75 }));
 
         activeSongIdRef.current = null;
         setNextAutoDjTrack(null);
-    }, [deckA.song, deckB.song, handlePitchChange]);
+    }, [handlePitchChange]);
 
 
     const toggleAutoDj = async () => {
@@ -2492,21 +3188,21 @@ Based on these criteria, choose the single best track from the library to play n
             setAutoDjHistory([]); // Clear history on start
             const startingTrack = getNextTrack();
             if (!startingTrack) {
-                 alert("No available tracks to start Auto DJ.");
+                 alert("No available tracks to start Auto DJ. Check its source and the rating, colour and tag filters.");
                  setIsAutoDjEnabled(false);
                  return;
             }
             
             setCrossfader(autoDjSettings.transitionType === 'Fade In/Out' ? 0 : -1);
-            setDeckA(d => ({ ...d, volume: 0.75 }));
-            setDeckB(d => ({ ...d, volume: 0.75 }));
+            deckSetters.A(d => ({ ...d, volume: 0.75 }));
+            deckSetters.B(d => ({ ...d, volume: 0.75 }));
 
             await loadSong(startingTrack.file, 'A');
             togglePlay('A', { forceStartTime: 0 });
             setAutoDjActiveDeck('A');
             
             if(autoDjSettings.playlistSource === 'queues') {
-                setQueueA(q => q.slice(1));
+                updateQueue('A', q => q.slice(1));
             }
 
         } else {
@@ -2523,16 +3219,42 @@ Based on these criteria, choose the single best track from the library to play n
         animationFrameId = requestAnimationFrame(animationLoop);
         return () => cancelAnimationFrame(animationFrameId);
     }, [updateLoop]);
-    
-    const setDeckAVolume = (volume: number) => setDeckA(d => ({ ...d, volume }));
-    const setDeckBVolume = (volume: number) => setDeckB(d => ({ ...d, volume }));
-    const setDeckAGain = (gain: number) => setDeckA(d => ({ ...d, gain }));
-    const setDeckBGain = (gain: number) => setDeckB(d => ({ ...d, gain }));
+
+    // Clock events run from a timer rather than animation frames, so track ends and transitions still happen in a background tab
+    useEffect(() => {
+        const timerId = setInterval(() => {
+            if (audioContextRef.current) clockScheduler.run(audioContextRef.current.currentTime);
+        }, 25);
+        return () => clearInterval(timerId);
+    }, [clockScheduler]);
+    
+    // --- Mixer Channels ---
+    const mixerChannels: MixerChannel[] = activeDeckIds.map(deckId => ({
+        deckId,
+        volume: decks[deckId].volume,
+        gain: decks[deckId].gain,
+        cue: deckCues[deckId],
+        crossfaderAssignment: decks[deckId].crossfaderAssignment,
+        frequencyData: deckFrequencyData[deckId],
+    }));
+    const setDeckVolume = (deckId: DeckId, volume: number) => deckSetters[deckId](d => ({ ...d, volume }));
+    const setDeckGain = (deckId: DeckId, gain: number) => deckSetters[deckId](d => ({ ...d, gain }));
+    const setCrossfaderAssignment = (deckId: DeckId, crossfaderAssignment: CrossfaderAssignment) => deckSetters[deckId](d => ({ ...d, crossfaderAssignment }));
+
+    // Leaving four-deck mode stops decks C and D, which would otherwise play on unseen
+    const handleDeckCountChange = (count: number) => {
+        DECK_IDS.slice(count).forEach(deckId => {
+            if (decks[deckId].isPlaying) togglePlay(deckId);
+            setDeckCue(deckId, false);
+        });
+        if (syncMaster && !DECK_IDS.slice(0, count).includes(syncMaster)) setSyncMaster(null);
+        setDeckCount(count);
+    };
 
 
-    const handleZoomChange = (deckId: 'A' | 'B', newZoom: number, pointerRatioInView?: number) => {
-        const setDeck = deckId === 'A' ? setDeckA : setDeckB;
-        const deckState = deckId === 'A' ? deckA : deckB;
+    const handleZoomChange = (deckId: DeckId, newZoom: number, pointerRatioInView?: number) => {
+        const setDeck = deckSetters[deckId];
+        const deckState = decks[deckId];
         const maxZoom = 64; // Increased max zoom
         const clampedZoom = Math.max(1, Math.min(newZoom, maxZoom));
     
@@ -2560,8 +3282,8 @@ Based on these criteria, choose the single best track from the library to play n
         setDeck(d => ({ ...d, zoom: clampedZoom, viewStartRatio: newViewStartRatio }));
     };
     
-    const handleScrollChange = (deckId: 'A' | 'B', scrollDeltaRatio: number) => {
-        const setDeck = deckId === 'A' ? setDeckA : setDeckB;
+    const handleScrollChange = (deckId: DeckId, scrollDeltaRatio: number) => {
+        const setDeck = deckSetters[deckId];
         setDeck(d => {
             if (d.zoom <= 1) return d; // No scrolling if not zoomed
             const visibleRatio = 1 / d.zoom;
@@ -2578,14 +3300,14 @@ Based on these criteria, choose the single best track from the library to play n
         setHypeText('');
         try {
             const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
-            const activeDeckState = isAutoDjEnabled ? (autoDjActiveDeck === 'A' ? deckA : deckB) : (deckA.isPlaying ? deckA : deckB);
+            const activeDeckState = isAutoDjEnabled ? decks[autoDjActiveDeck] : (activeDeckIds.map(deckId => decks[deckId]).find(deck => deck.isPlaying) ?? decks.B);
 
             if (!activeDeckState.song) {
                 setHypeText("Load up a track before you get the party started!");
                 return;
             }
             
-            const artist = getArtistFromName(activeDeckState.song.name) || 'an incredible artist';
+            const artist = getSongArtist(activeDeckState.song) || 'an incredible artist';
 
             const prompt = `You are a fun, high-energy party DJ and hype man. The current track is "${activeDeckState.song.name}" which is a ${activeDeckState.song.genre} tune with a BPM of ${activeDeckState.song.bpm} and an energy level of ${activeDeckState.song.energy}/10.
 
@@ -2753,94 +3475,107 @@ Generate a short, funny, and energetic hype phrase (1-2 sentences) to shout out
 
     const themeClass = theme === 'rainbow' ? 'rainbow-theme-bg' : 'black-theme-bg';
 
-    const toggleScratchMode = (deckId: 'A' | 'B') => {
-        const setDeck = deckId === 'A' ? setDeckA : setDeckB;
+    const toggleScratchMode = (deckId: DeckId) => {
+        const setDeck = deckSetters[deckId];
         setDeck(d => ({ ...d, scratchModeEnabled: !d.scratchModeEnabled }));
     };
 
-    const handlePlatterInteraction = (deckId: 'A' | 'B', type: 'start' | 'drag' | 'end', data?: { movementX: number }) => {
+    const handlePlatterInteraction = (deckId: DeckId, type: 'start' | 'drag' | 'end', data?: { movementX: number }) => {
         if (!audioContextRef.current) return;
     
-        const setDeckState = deckId === 'A' ? setDeckA : setDeckB;
-        const audioRef = deckId === 'A' ? deckAAudioRef : deckBAudioRef;
+        const deckState = decks[deckId];
+        const setDeckState = deckSetters[deckId];
+        const audioRef = deckAudioRefs[deckId];
     
         if (type === 'start') {
-            setDeckState(d => {
-                if (!d.scratchModeEnabled || !d.song) return d;
-                
-                const wasPlaying = d.isPlaying;
-                if (wasPlaying) {
-                    audioRef.current.source?.stop();
-                }
-    
-                audioRef.current.scratchNoiseGain?.gain.linearRampToValueAtTime(0.5, audioContextRef.current!.currentTime + 0.05);
-    
-                return { ...d, wasPlayingBeforeScratch: wasPlaying, isPlaying: false };
-            });
+            if (!deckState.scratchModeEnabled || !deckState.song) return;
+            beginSlip(deckId);
+
+            // Stop the transport first, so the state below takes the position it stopped at
+            const wasPlaying = deckState.isPlaying;
+            const position = wasPlaying ? audioRef.current.transport?.stop() : undefined;
+
+            audioRef.current.scratchNoiseGain?.gain.linearRampToValueAtTime(0.5, audioContextRef.current.currentTime + 0.05);
+
+            setDeckState(d => ({ ...d, wasPlayingBeforeScratch: wasPlaying, isPlaying: false, currentTime: position ?? d.currentTime }));
         } else if (type === 'drag' && data) {
-            setDeckState(d => {
-                if (!d.scratchModeEnabled || !d.song) return d;
-    
-                const scratchSensitivity = 0.005;
-                const deltaTime = data.movementX * scratchSensitivity;
-                const newTime = Math.max(0, Math.min(d.duration, d.currentTime + deltaTime));
-                const angleChange = data.movementX * 2;
-    
-                if (audioRef.current.scratchNoiseFilter && audioRef.current.scratchNoiseGain) {
-                    const velocity = Math.abs(data.movementX);
-                    const filterFreq = Math.min(4000, 200 + velocity * 150);
-                    const gainValue = Math.min(0.6, 0.1 + velocity * 0.05);
-                    const now = audioContextRef.current!.currentTime;
-                    audioRef.current.scratchNoiseFilter.frequency.setTargetAtTime(filterFreq, now, 0.01);
-                    audioRef.current.scratchNoiseGain.gain.setTargetAtTime(gainValue, now, 0.01);
-                }
-    
-                if (audioRef.current.buffer && audioRef.current.gainNode) {
-                    if (audioRef.current.scratchSnippetSource) {
-                        try { audioRef.current.scratchSnippetSource.stop(); } catch (e) { /* ignore */ }
-                    }
-    
-                    const snippetSource = audioContextRef.current!.createBufferSource();
-                    snippetSource.buffer = audioRef.current.buffer;
-                    
-                    const rate = d.playbackRate;
-                    snippetSource.playbackRate.value = rate;
-                    const detuneValue = d.keyLock ? -1200 * Math.log2(rate) : 0;
-                    snippetSource.detune.value = detuneValue;
-    
-                    snippetSource.connect(audioRef.current.gainNode);
-                    snippetSource.start(0, newTime, 0.075);
-                    audioRef.current.scratchSnippetSource = snippetSource;
-                }
-    
-                return { 
-                    ...d, 
-                    currentTime: newTime,
-                    platterAngle: (d.platterAngle + angleChange) % 360
-                };
-            });
-        } else if (type === 'end') {
-            setDeckState(d => {
-                if (!d.scratchModeEnabled || !d.song) return d;
-                
-                audioRef.current.scratchNoiseGain?.gain.linearRampToValueAtTime(0, audioContextRef.current!.currentTime + 0.1);
+            // Read the last rendered state: drag events can come faster than renders
+            const current = decksRef.current[deckId];
+            if (!current.scratchModeEnabled || !current.song) return;
+
+            const scratchSensitivity = 0.005;
+            const deltaTime = data.movementX * scratchSensitivity;
+            const newTime = Math.max(0, Math.min(current.duration, current.currentTime + deltaTime));
+            const angleChange = data.movementX * 2;
+            const now = audioContextRef.current.currentTime;
+
+            if (audioRef.current.scratchNoiseFilter && audioRef.current.scratchNoiseGain) {
+                const velocity = Math.abs(data.movementX);
+                const filterFreq = Math.min(4000, 200 + velocity * 150);
+                const gainValue = Math.min(0.6, 0.1 + velocity * 0.05);
+                audioRef.current.scratchNoiseFilter.frequency.setTargetAtTime(filterFreq, now, 0.01);
+                audioRef.current.scratchNoiseGain.gain.setTargetAtTime(gainValue, now, 0.01);
+            }
+
+            if (audioRef.current.buffer && audioRef.current.gainNode) {
                 if (audioRef.current.scratchSnippetSource) {
-                    try { audioRef.current.scratchSnippetSource.stop(); } catch(e) { /* ignore */ }
-                    audioRef.current.scratchSnippetSource = null;
-                }
-    
-                if (d.wasPlayingBeforeScratch) {
-                    // Use setTimeout to defer the playback command, ensuring it runs after the current state update is processed.
-                    setTimeout(() => {
-                        togglePlay(deckId, { forceStartTime: d.currentTime, playbackRate: d.playbackRate });
-                    }, 0);
+                    try { audioRef.current.scratchSnippetSource.stop(); } catch (e) { /* ignore */ }
                 }
-    
-                return { ...d, wasPlayingBeforeScratch: false };
-            });
+
+                const snippetSource = audioContextRef.current.createBufferSource();
+                snippetSource.buffer = audioRef.current.buffer;
+
+                // Scratching moves the pitch even with key lock on, like vinyl
+                snippetSource.playbackRate.value = current.playbackRate;
+
+                snippetSource.connect(audioRef.current.gainNode);
+                snippetSource.start(0, newTime, 0.075);
+                audioRef.current.scratchSnippetSource = snippetSource;
+            }
+
+            setDeckState(d => ({
+                ...d,
+                currentTime: Math.max(0, Math.min(d.duration, d.currentTime + deltaTime)),
+                platterAngle: (d.platterAngle + angleChange) % 360
+            }));
+        } else if (type === 'end') {
+            if (!deckState.scratchModeEnabled || !deckState.song) return;
+            // In slip mode playback resumes where the track would have been without the scratch
+            const slipPosition = endSlip(deckId);
+
+            audioRef.current.scratchNoiseGain?.gain.linearRampToValueAtTime(0, audioContextRef.current.currentTime + 0.1);
+            if (audioRef.current.scratchSnippetSource) {
+                try { audioRef.current.scratchSnippetSource.stop(); } catch(e) { /* ignore */ }
+                audioRef.current.scratchSnippetSource = null;
+            }
+
+            if (deckState.wasPlayingBeforeScratch) {
+                togglePlay(deckId, { forceStartTime: slipPosition ?? deckState.currentTime, playbackRate: deckState.playbackRate });
+            }
+            setDeckState(d => ({ ...d, wasPlayingBeforeScratch: false }));
         }
     };
 
+    // Decks C and D sit under A and B, on the side of the crossfader they start on
+    const renderDeck = (deckId: DeckId) => (
+        <React.Fragment key={deckId}>
+            <Deck deckId={deckId} deckState={decks[deckId]} isSyncMaster={syncMaster === deckId} setDeckState={deckSetters[deckId]} loadSong={loadSong} togglePlay={togglePlay} onPitchChange={handlePitchChange} seekDeck={seekDeck} isAutoDjEnabled={isAutoDjEnabled} frequencyData={deckFrequencyData[deckId]} onZoomChange={handleZoomChange} onScrollChange={handleScrollChange} layout={layout} onToggleBrowser={() => setVisibleDeckBrowsers(v => ({ ...v, [deckId]: !v[deckId] }))} toggleKeyLock={toggleKeyLock} onKeyShift={handleKeyShift} onMatchKey={handleMatchKey} onToggleSync={toggleSync} onToggleBarSync={toggleBarSync} onSetSyncMaster={handleSetSyncMaster} onPitchBend={handlePitchBend} onToggleScratchMode={toggleScratchMode} onPlatterInteraction={handlePlatterInteraction} onToggleSlipMode={toggleSlipMode} onReverse={handleReverse} onToggleQuantize={toggleQuantize} onQuantizeResolutionChange={handleQuantizeResolutionChange} onMemoryCue={handleMemoryCue} onAdjustBeatgrid={handleAdjustBeatgrid} />
+            <div className={layout === 'library' ? 'hidden' : ''}>
+                <PerformancePads deckId={deckId} deckState={decks[deckId]} onCueAction={handleCueAction} onCueHold={handleCueHold} onUpdateCue={handleUpdateCue} onLoopSet={handleSetLoop} onLoopRoll={handleLoopRoll} onSavedLoop={handleSavedLoop} onPlayDrumSample={playDrumSample} />
+            </div>
+            {visibleDeckBrowsers[deckId] && layout !== 'library' && (
+                <DeckLibraryBrowser
+                    deckId={deckId}
+                    library={library}
+                    queue={queues[deckId]}
+                    loadSong={loadSong}
+                    searchLibrary={searchLibrary}
+                    onClose={() => setVisibleDeckBrowsers(v => ({ ...v, [deckId]: false }))}
+                />
+            )}
+        </React.Fragment>
+    );
+
     return (
         <div className={`min-h-screen ${themeClass} text-white p-4 flex flex-col gap-4 font-sans`}>
             <header className="flex justify-between items-center">
@@ -2848,6 +3583,18 @@ Generate a short, funny, and energetic hype phrase (1-2 sentences) to shout out
                 <div className="flex items-center gap-4">
                     <ThemeToggle currentTheme={theme} setTheme={setTheme} />
                     <LayoutToggle currentLayout={layout} setLayout={setLayout} />
+                    <button
+                        onClick={() => handleDeckCountChange(deckCount === 2 ? 4 : 2)}
+                        className={`px-3 py-2 rounded-lg text-sm font-semibold transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-cyan-400 ${
+                            deckCount === 4
+                                ? 'rainbow-gradient-bg text-white shadow-md'
+                                : 'bg-black/30 backdrop-blur-md text-gray-300 hover:bg-gray-700/50 hover:text-white'
+                        }`}
+                        title="Toggle Four-Deck Mode"
+                        aria-pressed={deckCount === 4}
+                    >
+                        4 Decks
+                    </button>
                     <button
                         onClick={handleToggleMidiPanel}
                         className={`p-2 rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-cyan-400 ${
@@ -2864,39 +3611,20 @@ Generate a short, funny, and energetic hype phrase (1-2 sentences) to shout out
             </header>
             <main className={`flex gap-4 ${layout === 'library' ? 'flex-row' : 'flex-col xl:flex-row'} ${layout !== 'library' ? 'flex-grow min-h-0' : ''}`}>
                 <div className="flex flex-col gap-4 min-w-[300px] relative xl:flex-1">
-                    <Deck deckId="A" deckState={deckA} setDeckState={setDeckA} loadSong={loadSong} togglePlay={togglePlay} onPitchChange={handlePitchChange} seekDeck={seekDeck} isAutoDjEnabled={isAutoDjEnabled} frequencyData={deckAFrequencyData} onZoomChange={handleZoomChange} onScrollChange={handleScrollChange} layout={layout} onToggleBrowser={() => setIsDeckABrowserVisible(v => !v)} toggleKeyLock={toggleKeyLock} onToggleScratchMode={toggleScratchMode} onPlatterInteraction={handlePlatterInteraction} />
-                    <div className={layout === 'library' ? 'hidden' : ''}>
-                        <PerformancePads deckId="A" deckState={deckA} onCueAction={handleCueAction} onLoopSet={handleSetLoop} onPlayDrumSample={playDrumSample} />
-                    </div>
-                    {isDeckABrowserVisible && layout !== 'library' && (
-                        <DeckLibraryBrowser
-                            deckId="A"
-                            library={library}
-                            queue={queueA}
-                            loadSong={loadSong}
-                            onClose={() => setIsDeckABrowserVisible(false)}
-                        />
-                    )}
+                    {activeDeckIds.filter(deckId => DEFAULT_CROSSFADER_ASSIGNMENTS[deckId] === 'A').map(renderDeck)}
                 </div>
 
                 <div className={`flex flex-col gap-4 transition-all duration-300 ${layout === 'library' ? 'w-[450px]' : 'w-full xl:w-[550px]'} flex-1 xl:flex-initial overflow-y-auto`}>
                     <Mixer
-                        deckAVolume={deckA.volume}
-                        setDeckAVolume={setDeckAVolume}
-                        deckBVolume={deckB.volume}
-                        setDeckBVolume={setDeckBVolume}
-                        deckAGain={deckA.gain}
-                        setDeckAGain={setDeckAGain}
-                        deckBGain={deckB.gain}
-                        setDeckBGain={setDeckBGain}
+                        channels={mixerChannels}
+                        onChannelVolumeChange={setDeckVolume}
+                        onChannelGainChange={setDeckGain}
+                        onChannelCueChange={setDeckCue}
+                        onCrossfaderAssignmentChange={setCrossfaderAssignment}
                         crossfader={crossfader}
                         setCrossfader={setCrossfader}
                         masterVolume={masterVolume}
                         setMasterVolume={setMasterVolume}
-                        deckACue={deckACue}
-                        setDeckACue={setDeckACue}
-                        deckBCue={deckBCue}
-                        setDeckBCue={setDeckBCue}
                         headphoneVolume={headphoneVolume}
                         setHeadphoneVolume={setHeadphoneVolume}
                         headphoneMix={headphoneMix}
@@ -2943,20 +3671,24 @@ Generate a short, funny, and energetic hype phrase (1-2 sentences) to shout out
                         setMicReverb={setMicReverb}
                         isAutoDjEnabled={isAutoDjEnabled}
                         onToggleAutoDj={toggleAutoDj}
-                        isAutoDjDisabled={library.length < 2 && (queueA.length + queueB.length < 2)}
+                        isAutoDjDisabled={library.length < 2 && (queues.A.length + queues.B.length < 2)}
                         autoDjSettings={autoDjSettings}
                         onAutoDjSettingsChange={setAutoDjSettings}
-                        deckA={deckA}
-                        deckB={deckB}
+                        playlists={playlists}
+                        deckA={decks.A}
+                        deckB={decks.B}
                         autoDjActiveDeck={autoDjActiveDeck}
                         onAutoDjSkip={handleAutoDjSkip}
                         nextAutoDjTrack={nextAutoDjTrack}
                         onAutoDjRepick={handleAutoDjRepick}
                         autoDjHistory={autoDjHistory}
+                        sessionLog={sessionLog}
+                        pastSessionLogs={pastSessionLogs}
+                        onExportSessionLog={handleExportSessionLog}
+                        onDeleteSessionLog={handleDeleteSessionLog}
+                        onExportPlaylistFile={handleExportPlaylistFile}
                         onAutoDjSmartSuggest={handleSmartSuggest}
                         isSuggestingAutoDj={isSuggestingTrack}
-                        deckAFrequencyData={deckAFrequencyData}
-                        deckBFrequencyData={deckBFrequencyData}
                         metronomeTimeSignature={metronomeTimeSignature}
                         setMetronomeTimeSignature={setMetronomeTimeSignature}
                         metronomeSubdivision={metronomeSubdivision}
@@ -2968,19 +3700,7 @@ Generate a short, funny, and energetic hype phrase (1-2 sentences) to shout out
                 </div>
 
                 <div className="flex flex-col gap-4 min-w-[300px] relative xl:flex-1">
-                    <Deck deckId="B" deckState={deckB} setDeckState={setDeckB} loadSong={loadSong} togglePlay={togglePlay} onPitchChange={handlePitchChange} seekDeck={seekDeck} isAutoDjEnabled={isAutoDjEnabled} frequencyData={deckBFrequencyData} onZoomChange={handleZoomChange} onScrollChange={handleScrollChange} layout={layout} onToggleBrowser={() => setIsDeckBBrowserVisible(v => !v)} toggleKeyLock={toggleKeyLock} onToggleScratchMode={toggleScratchMode} onPlatterInteraction={handlePlatterInteraction} />
-                    <div className={layout === 'library' ? 'hidden' : ''}>
-                        <PerformancePads deckId="B" deckState={deckB} onCueAction={handleCueAction} onLoopSet={handleSetLoop} onPlayDrumSample={playDrumSample} />
-                    </div>
-                     {isDeckBBrowserVisible && layout !== 'library' && (
-                        <DeckLibraryBrowser
-                            deckId="B"
-                            library={library}
-                            queue={queueB}
-                            loadSong={loadSong}
-                            onClose={() => setIsDeckBBrowserVisible(false)}
-                        />
-                    )}
+                    {activeDeckIds.filter(deckId => DEFAULT_CROSSFADER_ASSIGNMENTS[deckId] === 'B').map(renderDeck)}
                 </div>
             </main>
             
@@ -3005,12 +3725,51 @@ Generate a short, funny, and energetic hype phrase (1-2 sentences) to shout out
                         library={library}
                         loadSong={loadSong}
                         addSongsToLibrary={addSongsToLibrary}
-                        queueA={queueA}
-                        queueB={queueB}
+                        queues={queues}
                         onAddToQueue={handleAddToQueue}
                         onRemoveFromQueue={handleRemoveFromQueue}
 // FIX: Changed `onReorderQueue` variable to `handleReorderQueue` function.
                         onReorderQueue={handleReorderQueue}
+                        analysisProgress={analysisProgress}
+                        onCancelAnalysis={handleCancelAnalysis}
+                        onReanalyzeSongs={handleReanalyzeSongs}
+                        onImportWithFileHandles={handleImportWithFileHandles}
+                        onRelinkMissingFiles={handleRelinkMissingFiles}
+                        onRestoreFileAccess={handleRestoreFileAccess}
+                        storageUsage={storageUsage}
+                        analysisConcurrency={analysisConcurrency}
+                        onAnalysisConcurrencyChange={setAnalysisConcurrency}
+                        onUpdateSongDetails={handleUpdateSongDetails}
+                        onUpdateSongLabels={handleUpdateSongLabels}
+                        onDeleteSongs={handleDeleteSongs}
+                        duplicateScan={duplicateScan}
+                        isFindingDuplicates={isFindingDuplicates}
+                        onFindDuplicates={handleFindDuplicates}
+                        onMergeDuplicates={handleMergeDuplicates}
+                        onDismissDuplicates={() => setDuplicateScan(null)}
+                        allTags={allTags}
+                        onExportTaggedFile={handleExportTaggedFile}
+                        playlists={playlists}
+                        playlistSongs={playlistSongs}
+                        onCreatePlaylistNode={handleCreatePlaylistNode}
+                        onCreateSmartCrate={handleCreateSmartCrate}
+                        onUpdateSmartCrateRules={handleUpdateSmartCrateRules}
+                        onImportRekordboxXml={handleImportRekordboxXml}
+                        onExportRekordboxXml={handleExportRekordboxXml}
+                        onImportTraktorNml={handleImportTraktorNml}
+                        onExportTraktorNml={handleExportTraktorNml}
+                        onImportSeratoCrates={handleImportSeratoCrates}
+                        onExportSeratoCrate={handleExportSeratoCrate}
+                        searchLibrary={searchLibrary}
+                        onSaveSearchAsSmartCrate={handleSaveSearchAsSmartCrate}
+                        onImportPlaylistFile={handleImportPlaylistFile}
+                        onExportPlaylistFile={handleExportPlaylistFile}
+                        onRenamePlaylistNode={handleRenamePlaylistNode}
+                        onDeletePlaylistNode={handleDeletePlaylistNode}
+                        onMovePlaylistNode={handleMovePlaylistNode}
+                        onAddSongsToPlaylist={handleAddSongsToPlaylist}
+                        onRemoveSongsFromPlaylist={handleRemoveSongsFromPlaylist}
+                        onReorderPlaylist={handleReorderPlaylist}
                     />
                 </footer>
             )}
@@ -3021,12 +3780,51 @@ Generate a short, funny, and energetic hype phrase (1-2 sentences) to shout out
                         library={library}
                         loadSong={loadSong}
                         addSongsToLibrary={addSongsToLibrary}
-                        queueA={queueA}
-                        queueB={queueB}
+                        queues={queues}
                         onAddToQueue={handleAddToQueue}
                         onRemoveFromQueue={handleRemoveFromQueue}
 // FIX: Changed `onReorderQueue` variable to `handleReorderQueue` function.
                         onReorderQueue={handleReorderQueue}
+                        analysisProgress={analysisProgress}
+                        onCancelAnalysis={handleCancelAnalysis}
+                        onReanalyzeSongs={handleReanalyzeSongs}
+                        onImportWithFileHandles={handleImportWithFileHandles}
+                        onRelinkMissingFiles={handleRelinkMissingFiles}
+                        onRestoreFileAccess={handleRestoreFileAccess}
+                        storageUsage={storageUsage}
+                        analysisConcurrency={analysisConcurrency}
+                        onAnalysisConcurrencyChange={setAnalysisConcurrency}
+                        onUpdateSongDetails={handleUpdateSongDetails}
+                        onUpdateSongLabels={handleUpdateSongLabels}
+                        onDeleteSongs={handleDeleteSongs}
+                        duplicateScan={duplicateScan}
+                        isFindingDuplicates={isFindingDuplicates}
+                        onFindDuplicates={handleFindDuplicates}
+                        onMergeDuplicates={handleMergeDuplicates}
+                        onDismissDuplicates={() => setDuplicateScan(null)}
+                        allTags={allTags}
+                        onExportTaggedFile={handleExportTaggedFile}
+                        playlists={playlists}
+                        playlistSongs={playlistSongs}
+                        onCreatePlaylistNode={handleCreatePlaylistNode}
+                        onCreateSmartCrate={handleCreateSmartCrate}
+                        onUpdateSmartCrateRules={handleUpdateSmartCrateRules}
+                        onImportRekordboxXml={handleImportRekordboxXml}
+                        onExportRekordboxXml={handleExportRekordboxXml}
+                        onImportTraktorNml={handleImportTraktorNml}
+                        onExportTraktorNml={handleExportTraktorNml}
+                        onImportSeratoCrates={handleImportSeratoCrates}
+                        onExportSeratoCrate={handleExportSeratoCrate}
+                        searchLibrary={searchLibrary}
+                        onSaveSearchAsSmartCrate={handleSaveSearchAsSmartCrate}
+                        onImportPlaylistFile={handleImportPlaylistFile}
+                        onExportPlaylistFile={handleExportPlaylistFile}
+                        onRenamePlaylistNode={handleRenamePlaylistNode}
+                        onDeletePlaylistNode={handleDeletePlaylistNode}
+                        onMovePlaylistNode={handleMovePlaylistNode}
+                        onAddSongsToPlaylist={handleAddSongsToPlaylist}
+                        onRemoveSongsFromPlaylist={handleRemoveSongsFromPlaylist}
+                        onReorderPlaylist={handleReorderPlaylist}
                     />
                 </div>
             )}
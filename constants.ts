@@ -1,4 +1,4 @@
-import type { EqualizerPreset, FxType, FxSettings, MappableControl } from './types';
+import type { EqualizerPreset, FxType, FxSettings, MappableControl, TrackColor, CueType, DeckId, DeckControl, CrossfaderAssignment } from './types';
 
 export const PRESETS: EqualizerPreset[] = [
     { name: 'Normal', values: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0] },
@@ -17,6 +17,39 @@ export const PRESETS: EqualizerPreset[] = [
     { name: 'Deep House', values: [3, 2, 1, 0, 1, 2, 1, 0, 1, 2] },
 ];
 
+export const TRACK_COLORS: Record<TrackColor, string> = {
+    pink: '#f472b6',
+    red: '#ef4444',
+    orange: '#f97316',
+    yellow: '#facc15',
+    green: '#22c55e',
+    aqua: '#22d3ee',
+    blue: '#3b82f6',
+    purple: '#a855f7',
+};
+
+export const HOT_CUE_COUNT = 8;
+
+// Default hot cue colours by pad index (Serato's), for cues without their own colour
+export const HOT_CUE_COLORS = ['#cc0000', '#cc8800', '#0000cc', '#cccc00', '#00cc00', '#cc00cc', '#00cccc', '#8800cc'];
+
+export const CUE_TYPE_LABELS: Record<CueType, string> = {
+    cue: 'Cue',
+    loop: 'Loop',
+    fadeIn: 'Fade In',
+    fadeOut: 'Fade Out',
+    load: 'Load Point',
+};
+
+// Deck transpose range in semitones, either way. Less of it plays when key lock has
+// a deck far off its original tempo, see getPlayableKeyShift.
+export const MAX_KEY_SHIFT = 12;
+
+// Deck registry. Two-deck mode uses the first two; Auto DJ only ever runs A and B
+export const DECK_IDS: DeckId[] = ['A', 'B', 'C', 'D'];
+export const DEFAULT_DECK_COUNT = 2;
+export const DEFAULT_CROSSFADER_ASSIGNMENTS: Record<DeckId, CrossfaderAssignment> = { A: 'A', B: 'B', C: 'A', D: 'B' };
+
 export const FX_LIST: FxType[] = [
     'Low-Pass', 'High-Pass', 'Band-Pass',
     'Delay', 'Reverb', 'Flanger', 'Phaser', 'Chorus',
@@ -96,33 +129,21 @@ export const FX_PARAM_CONFIG: Record<FxType, { syncable?: boolean, param1: FxPar
 export const EQ_BANDS = ['32', '64', '125', '250', '500', '1k', '2k', '4k', '8k', '16k'];
 export const EQ_FREQUENCIES = [32, 64, 125, 250, 500, 1000, 2000, 4000, 8000, 16000];
 
+const DECK_CONTROLS: { control: DeckControl, label: string }[] = [
+    { control: 'play', label: 'Play / Pause' },
+    { control: 'volume', label: 'Volume Fader' },
+    { control: 'pitch', label: 'Pitch Fader' },
+    { control: 'cue', label: 'Headphone Cue' },
+    ...[1, 2, 3, 4, 5, 6, 7, 8].map(n => ({ control: `hotcue_${n}` as DeckControl, label: `Hot Cue ${n}` })),
+    { control: 'loop_1', label: 'Loop 1 Beat' },
+    { control: 'loop_4', label: 'Loop 4 Beats' },
+    { control: 'loop_8', label: 'Loop 8 Beats' },
+    { control: 'loop_16', label: 'Loop 16 Beats' },
+];
+
 export const MAPPABLE_CONTROLS: { id: MappableControl, label: string, group: string }[] = [
-    // Deck A
-    { id: 'deckA_play', label: 'Play / Pause', group: 'Deck A' },
-    { id: 'deckA_volume', label: 'Volume Fader', group: 'Deck A' },
-    { id: 'deckA_pitch', label: 'Pitch Fader', group: 'Deck A' },
-    { id: 'deckA_cue', label: 'Headphone Cue', group: 'Deck A' },
-    { id: 'deckA_hotcue_1', label: 'Hot Cue 1', group: 'Deck A' },
-    { id: 'deckA_hotcue_2', label: 'Hot Cue 2', group: 'Deck A' },
-    { id: 'deckA_hotcue_3', label: 'Hot Cue 3', group: 'Deck A' },
-    { id: 'deckA_hotcue_4', label: 'Hot Cue 4', group: 'Deck A' },
-    { id: 'deckA_loop_1', label: 'Loop 1 Beat', group: 'Deck A' },
-    { id: 'deckA_loop_4', label: 'Loop 4 Beats', group: 'Deck A' },
-    { id: 'deckA_loop_8', label: 'Loop 8 Beats', group: 'Deck A' },
-    { id: 'deckA_loop_16', label: 'Loop 16 Beats', group: 'Deck A' },
-    // Deck B
-    { id: 'deckB_play', label: 'Play / Pause', group: 'Deck B' },
-    { id: 'deckB_volume', label: 'Volume Fader', group: 'Deck B' },
-    { id: 'deckB_pitch', label: 'Pitch Fader', group: 'Deck B' },
-    { id: 'deckB_cue', label: 'Headphone Cue', group: 'Deck B' },
-    { id: 'deckB_hotcue_1', label: 'Hot Cue 1', group: 'Deck B' },
-    { id: 'deckB_hotcue_2', label: 'Hot Cue 2', group: 'Deck B' },
-    { id: 'deckB_hotcue_3', label: 'Hot Cue 3', group: 'Deck B' },
-    { id: 'deckB_hotcue_4', label: 'Hot Cue 4', group: 'Deck B' },
-    { id: 'deckB_loop_1', label: 'Loop 1 Beat', group: 'Deck B' },
-    { id: 'deckB_loop_4', label: 'Loop 4 Beats', group: 'Deck B' },
-    { id: 'deckB_loop_8', label: 'Loop 8 Beats', group: 'Deck B' },
-    { id: 'deckB_loop_16', label: 'Loop 16 Beats', group: 'Deck B' },
+    // Decks
+    ...DECK_IDS.flatMap(deckId => DECK_CONTROLS.map(({ control, label }) => ({ id: `deck${deckId}_${control}` as MappableControl, label, group: `Deck ${deckId}` }))),
     // Mixer
     { id: 'crossfader', label: 'Crossfader', group: 'Mixer' },
     { id: 'master_volume', label: 'Master Volume', group: 'Mixer' },
@@ -8,6 +8,103 @@ export interface Song {
   bpm?: number | null;
   genre?: string;
   energy?: number; // 1-10 scale
+  duration?: number; // seconds, once analyzed
+  bpmConfidence?: number; // 0-1
+  beatgrid?: Beatgrid | null;
+  keyConfidence?: number; // 0-1
+  loudness?: number; // RMS
+  waveform?: Float32Array;
+  fingerprint?: Uint32Array; // Acoustic fingerprint for duplicate detection, see utils/fingerprint
+  contentHash?: string; // SHA-256 of the file bytes, keys the analysis cache
+  fileHandle?: FileSystemFileHandle; // Set when imported via the File System Access picker
+  isMissing?: boolean; // Restored from storage but the audio could not be found; needs relinking
+  // Embedded tag metadata
+  title?: string;
+  artist?: string;
+  album?: string;
+  year?: number;
+  comment?: string;
+  coverArt?: Blob;
+  taggedBpm?: number; // BPM read from the file's tags; wins over detection
+  taggedKey?: string; // Camelot key read from the file's tags; wins over detection
+  taggedGenre?: string; // Genre from the file's tags, an import or a manual edit, unlike the name-based guess
+  beatgridLocked?: boolean; // Imported or hand-placed grid; re-analysis keeps it
+  cuePoints?: (HotCue | undefined)[]; // Hot cues by pad index, restored onto the deck
+  memoryCue?: number; // seconds; the main CUE button's point
+  savedLoops?: SavedLoop[];
+  // User labels
+  rating?: number; // 0-5 stars, 0 = unrated
+  color?: TrackColor | null;
+  tags?: string[]; // Lowercase, e.g. 'vocal', 'opener', 'peak-time'
+}
+
+// Colour labels, the same set Rekordbox uses
+export type TrackColor = 'pink' | 'red' | 'orange' | 'yellow' | 'green' | 'aqua' | 'blue' | 'purple';
+
+// A bulk edit of user labels; fields left out are unchanged, null clears
+export interface SongLabelUpdate {
+  rating?: number | null;
+  color?: TrackColor | null;
+  comment?: string | null;
+  addTags?: string[];
+  removeTags?: string[];
+}
+
+// The cue kinds Rekordbox and Traktor share. Auto DJ mixes in at a fade-in cue and out at
+// a fade-out cue; a track is cued up at its load point when it's loaded.
+export type CueType = 'cue' | 'loop' | 'fadeIn' | 'fadeOut' | 'load';
+
+export interface HotCue {
+  time: number; // seconds
+  type: CueType;
+  end?: number; // seconds, loop cues only
+  label?: string;
+  color?: string; // '#rrggbb'; pads fall back to the default colour for their index
+}
+
+export interface SavedLoop {
+  start: number; // seconds
+  end: number; // seconds
+  label?: string;
+}
+
+export interface TrackTags {
+  title?: string;
+  artist?: string;
+  album?: string;
+  year?: number;
+  genre?: string;
+  bpm?: number;
+  key?: string; // As written in the file, e.g. 'Am', '8A' or '1m'
+  comment?: string;
+  coverArt?: Blob;
+  cuePoints?: (HotCue | undefined)[]; // From Serato Markers2
+  savedLoops?: SavedLoop[]; // From Serato Markers2
+}
+
+export interface Beatgrid {
+  bpm: number;
+  firstDownbeat: number; // seconds
+  beatsPerBar: number;
+}
+
+// A hand edit of a track's beatgrid
+export type BeatgridAdjustment =
+  | { type: 'shift'; seconds: number } // Move every beat later (negative = earlier)
+  | { type: 'setDownbeat'; time: number } // Put a downbeat at this position
+  | { type: 'setBpm'; bpm: number }; // Keeps the first downbeat where it is
+
+export interface KeyAnalysis {
+  name: string; // e.g. 'A minor'
+  camelot: string; // e.g. '8A'
+  openKey: string; // e.g. '1m'
+  confidence: number; // 0-1
+}
+
+export interface TempoAnalysis {
+  bpm: number;
+  confidence: number; // 0-1
+  beatgrid: Beatgrid;
 }
 
 export interface Beat extends Song {
@@ -17,6 +114,11 @@ export interface Beat extends Song {
 
 export type BeatCategoryType = 'drum' | 'tuning' | 'instrumental';
 
+export type DeckId = 'A' | 'B' | 'C' | 'D';
+
+// Crossfader side a deck's channel sits on; 'thru' bypasses the crossfader
+export type CrossfaderAssignment = 'A' | 'B' | 'thru';
+
 export interface DeckState {
   song: Song | null;
   isPlaying: boolean;
@@ -26,23 +128,124 @@ export interface DeckState {
   currentTime: number;
   duration: number;
   platterAngle: number;
-  cuePoints: (number | undefined)[];
+  cuePoints: (HotCue | undefined)[];
+  memoryCue: number | null;
   bpm: number | null;
+  beatgrid?: Beatgrid | null;
   loop: {
     start: number | null;
     end: number | null;
     active: boolean;
   };
   waveform?: Float32Array;
-  key?: string | null;
+  key?: string | null; // Camelot, after keyShift
+  openKey?: string | null; // The same key in Open Key notation
   zoom: number;
   viewStartRatio: number;
   perceivedLoudness?: number;
-  // FIX: Added missing 'lastUpdateTime' property to track playback timing.
-  lastUpdateTime?: number;
   keyLock: boolean;
+  keyShift: number; // Transpose in semitones, -12 to 12
+  quantize: boolean; // Snap cues, loops and play-start to the beatgrid
+  quantizeResolution: QuantizeResolution;
+  slipMode: boolean;
+  slipPosition: number | null; // Shadow playhead during a slip action, where the track would be without it
+  isReversed: boolean;
+  sync: boolean; // Follows the sync master's tempo and phase
+  barSync: boolean; // Phase-lock to bars rather than beats
+  nudge: number; // Rate offset on top of playbackRate from pitch bend or sync, e.g. 0.04
+  pitchBend: -1 | 0 | 1; // Pitch bend button held
   scratchModeEnabled: boolean;
   wasPlayingBeforeScratch: boolean;
+  crossfaderAssignment: CrossfaderAssignment;
+}
+
+// Quantize grid in beats, or a whole bar
+export type QuantizeResolution = 0.125 | 0.25 | 0.5 | 1 | 'bar';
+
+export interface TrackAnalysis {
+  bpm: number | null;
+  bpmConfidence?: number;
+  beatgrid: Beatgrid | null;
+  key: string | null; // Camelot
+  keyConfidence?: number;
+  loudness: number;
+  duration: number; // seconds
+  waveform: Float32Array;
+  fingerprint: Uint32Array;
+}
+
+// Songs that are likely the same recording
+export interface DuplicateGroup {
+  songIds: number[];
+  similarity: number; // 0-1, the weakest match in the group
+}
+
+export interface AnalysisProgress {
+  total: number;
+  completed: number;
+  failed: number;
+  active: string[]; // Names of the tracks currently being analyzed
+}
+
+export interface StorageUsage {
+  usage: number; // bytes
+  quota: number; // bytes
+  persisted: boolean;
+}
+
+// Playlists, crates and the folders that hold them, stored as a flat list linked by parentId.
+// Playlists keep their track order; crates are unordered collections; smart crates
+// hold no songs of their own and are re-evaluated from their rules.
+export type PlaylistNodeType = 'folder' | 'playlist' | 'crate' | 'smartCrate';
+
+export interface PlaylistNode {
+  id: number;
+  type: PlaylistNodeType;
+  name: string;
+  parentId: number | null; // null for top-level nodes
+  songIds: number[]; // Always empty for folders and smart crates
+  rules?: SmartRule[]; // Smart crates only
+  matchAll?: boolean; // Smart crates only: true = every rule must match, false = any rule
+}
+
+export type NumericComparison = '<' | '<=' | '=' | '>=' | '>';
+
+export type SmartRule =
+  | { type: 'bpmRange'; min: number; max: number }
+  | { type: 'keyCompatible'; key: string } // Camelot
+  | { type: 'energy'; comparison: NumericComparison; value: number }
+  | { type: 'genreIn'; genres: string[] }
+  | { type: 'notPlayedInLastSessions'; sessions: number }
+  | { type: 'query'; query: string }; // Library search query, see utils/searchQuery
+
+// Songs that went out on air during one run of the app, from its session log
+export interface PlaySession {
+  id: number;
+  startedAt: number; // ms since epoch
+  songIds: number[];
+}
+
+// One track that went out on the master during a session
+export interface SessionLogEntry {
+  id: number;
+  songId: number; // May no longer be in the library; the fields below are a snapshot
+  fileName: string;
+  title?: string;
+  artist?: string;
+  deck: DeckId;
+  startedAt: number; // ms since epoch, when it first became audible
+  endedAt: number | null; // When it last left the master; null while on air
+  bpm: number | null;
+  key: string | null;
+  onAirMs: number; // Time spent playing with the deck audible through the crossfader
+  onAirSince: number | null; // Start of the current on-air stretch
+}
+
+// Tracklist of one run of the app
+export interface SessionLog {
+  id: number;
+  startedAt: number; // ms since epoch
+  entries: SessionLogEntry[];
 }
 
 export interface EqualizerPreset {
@@ -71,9 +274,11 @@ export interface AutoDjSettings {
     transitionType: 'Smart' | 'Crossfade' | 'Cut' | 'Fade In/Out' | 'EQ Fade' | 'Loop Out' | 'Filter Fade';
     transitionDuration: number; // in seconds
     transitionTrigger: number; // seconds from end
-    playlistSource: 'library' | 'queues';
+    playlistSource: 'library' | 'queues' | 'playlist';
+    playlistId?: number | null; // Playlist or crate used when playlistSource is 'playlist'
     shuffle: boolean;
     harmonicMix: boolean;
+    harmonicKeyShift: boolean; // With harmonicMix, transpose the next track when no compatible one is found
     genreMatch: boolean;
     bpmMatch: {
         enabled: boolean;
@@ -83,26 +288,37 @@ export interface AutoDjSettings {
     autoGain: boolean;
     beatMatch: boolean;
     energyFlow: 'Any' | 'Maintain' | 'Increase' | 'Decrease';
+    minRating: number; // 0 = any
+    colorFilter: TrackColor[]; // Empty = any colour
+    requiredTags: string[]; // Tracks must carry all of these
 }
 
 export type CrossfaderCurveType = 'linear' | 'slow-fade' | 'fast-cut';
 
+// One deck's strip on the mixer
+export interface MixerChannel {
+  deckId: DeckId;
+  volume: number;
+  gain: number;
+  cue: boolean; // Headphone cue
+  crossfaderAssignment: CrossfaderAssignment;
+  frequencyData: Uint8Array;
+}
+
 // MIDI Types
+export type DeckControl =
+  | 'play' | 'volume' | 'pitch'
+  | 'cue' // Headphone cue
+  | 'hotcue_1' | 'hotcue_2' | 'hotcue_3' | 'hotcue_4'
+  | 'hotcue_5' | 'hotcue_6' | 'hotcue_7' | 'hotcue_8'
+  | 'loop_1' | 'loop_4' | 'loop_8' | 'loop_16';
+
 export type MappableControl =
-  | 'deckA_play' | 'deckB_play'
-  | 'deckA_volume' | 'deckB_volume'
-  | 'deckA_pitch' | 'deckB_pitch'
-  | 'deckA_cue' | 'deckB_cue' // Headphone cue
+  | `deck${DeckId}_${DeckControl}`
   | 'crossfader'
   | 'master_volume'
   | 'headphone_volume' | 'headphone_mix'
   | 'eq_bass' | 'eq_mid' | 'eq_treble'
-  | 'deckA_hotcue_1' | 'deckA_hotcue_2' | 'deckA_hotcue_3' | 'deckA_hotcue_4'
-  | 'deckA_hotcue_5' | 'deckA_hotcue_6' | 'deckA_hotcue_7' | 'deckA_hotcue_8'
-  | 'deckB_hotcue_1' | 'deckB_hotcue_2' | 'deckB_hotcue_3' | 'deckB_hotcue_4'
-  | 'deckB_hotcue_5' | 'deckB_hotcue_6' | 'deckB_hotcue_7' | 'deckB_hotcue_8'
-  | 'deckA_loop_1' | 'deckA_loop_4' | 'deckA_loop_8' | 'deckA_loop_16'
-  | 'deckB_loop_1' | 'deckB_loop_4' | 'deckB_loop_8' | 'deckB_loop_16'
   | `fx_toggle_${FxType}`
   | 'fx_selected_dryWet' | 'fx_selected_param1' | 'fx_selected_param2';
 
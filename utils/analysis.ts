@@ -0,0 +1,102 @@
+import type { Song, TrackAnalysis } from '../types';
+import { detectTempo, getMonoSamples } from './tempo';
+import { detectKeyFromSamples } from './key';
+import { computeFingerprint } from './fingerprint';
+
+// --- Track Analysis ---
+// Everything here runs on plain sample arrays so it can be used from the
+// analysis worker as well as the main thread.
+
+// Bump whenever an analyzer's output changes so cached results get recomputed
+// v2: acoustic fingerprint
+// v3: duration
+export const ANALYSIS_VERSION = 3;
+
+// Generate a simplified waveform for visualization
+export const generateWaveform = (rawData: Float32Array): Float32Array => {
+    const samples = 512; // The number of data points for the waveform
+    const blockSize = Math.floor(rawData.length / samples);
+    const filteredData = new Float32Array(samples);
+    for (let i = 0; i < samples; i++) {
+        const blockStart = blockSize * i;
+        let max = 0;
+        for (let j = 0; j < blockSize; j++) {
+            const val = Math.abs(rawData[blockStart + j]);
+            if (val > max) {
+                max = val;
+            }
+        }
+        filteredData[i] = max;
+    }
+    return filteredData;
+};
+
+// Calculate Root Mean Square to estimate loudness
+export const calculateLoudness = (data: Float32Array): number => {
+    let sumOfSquares = 0.0;
+    for (let i = 0; i < data.length; i++) {
+        sumOfSquares += data[i] * data[i];
+    }
+    const rms = Math.sqrt(sumOfSquares / data.length);
+    // Return a value in a more usable range, avoiding zero.
+    return Math.max(0.01, rms);
+};
+
+// Mock energy level calculation based on loudness and genre
+export const calculateEnergy = (loudness: number, genre?: string): number => {
+    let energy = Math.ceil(loudness * 50); // Base energy from loudness (0-10 scale)
+    switch (genre) {
+        case 'Techno':
+        case 'Drum & Bass':
+        case 'Trance':
+            energy += 2;
+            break;
+        case 'House':
+        case 'Pop':
+        case 'Rock':
+            energy += 1;
+            break;
+        case 'Ambient':
+            energy -= 2;
+            break;
+    }
+    return Math.max(1, Math.min(10, energy)); // Clamp to 1-10 range
+};
+
+export const analyzeSamples = (samples: Float32Array, sampleRate: number): TrackAnalysis => {
+    const tempo = detectTempo(samples, sampleRate);
+    const key = detectKeyFromSamples(samples, sampleRate);
+    const loudness = calculateLoudness(samples);
+
+    return {
+        bpm: tempo?.bpm ?? null,
+        bpmConfidence: tempo?.confidence,
+        beatgrid: tempo?.beatgrid ?? null,
+        key: key?.camelot ?? null,
+        keyConfidence: key?.confidence,
+        loudness,
+        duration: samples.length / sampleRate,
+        waveform: generateWaveform(samples),
+        fingerprint: computeFingerprint(samples, sampleRate),
+    };
+};
+
+export const analyzeAudioBuffer = (buffer: AudioBuffer): TrackAnalysis => {
+    return analyzeSamples(getMonoSamples(buffer), buffer.sampleRate);
+};
+
+// Tagged BPM/key (see utils/tags.ts) and locked beatgrids are kept over the detected values.
+// Energy depends on the song's genre as well, so it's worked out here rather than cached.
+export const applyAnalysisToSong = <T extends Song>(song: T, analysis: TrackAnalysis): T => ({
+    ...song,
+    bpm: song.taggedBpm ?? analysis.bpm,
+    bpmConfidence: analysis.bpmConfidence,
+    beatgrid: song.beatgridLocked ? song.beatgrid : analysis.beatgrid,
+    key: song.taggedKey ?? analysis.key,
+    keyConfidence: analysis.keyConfidence,
+    loudness: analysis.loudness,
+    duration: analysis.duration,
+    energy: calculateEnergy(analysis.loudness, song.genre),
+    waveform: analysis.waveform,
+    fingerprint: analysis.fingerprint,
+});
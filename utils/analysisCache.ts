@@ -0,0 +1,67 @@
+import type { TrackAnalysis } from '../types';
+import { ANALYSIS_VERSION } from './analysis';
+
+// --- IndexedDB Analysis Cache ---
+// Results are keyed by a hash of the file bytes, so renamed or re-imported
+// copies of the same audio hit the cache. Records written by an older
+// ANALYSIS_VERSION are treated as misses and get recomputed. Only what comes
+// from the audio is stored, never anything derived from the file name or tags.
+const DB_NAME = 'dj-app-analysis-db';
+const DB_VERSION = 1;
+const STORE_NAME = 'analysis';
+
+interface CachedAnalysisRecord {
+    hash: string;
+    analysisVersion: number;
+    analysis: TrackAnalysis;
+    updatedAt: number;
+}
+
+const openDB = (): Promise<IDBDatabase> => {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onerror = () => reject("Error opening analysis DB");
+        request.onsuccess = () => resolve(request.result);
+        request.onupgradeneeded = (event) => {
+            const db = (event.target as IDBOpenDBRequest).result;
+            if (!db.objectStoreNames.contains(STORE_NAME)) {
+                db.createObjectStore(STORE_NAME, { keyPath: 'hash' });
+            }
+        };
+    });
+};
+
+// SHA-256 of the raw file bytes. Must run before decodeAudioData, which detaches the buffer.
+export const hashAudioContent = async (arrayBuffer: ArrayBuffer): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', arrayBuffer);
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const getCachedAnalysis = async (hash: string): Promise<TrackAnalysis | null> => {
+    try {
+        const db = await openDB();
+        return new Promise((resolve) => {
+            const transaction = db.transaction(STORE_NAME, 'readonly');
+            const request = transaction.objectStore(STORE_NAME).get(hash);
+            request.onsuccess = () => {
+                const record = request.result as CachedAnalysisRecord | undefined;
+                resolve(record && record.analysisVersion === ANALYSIS_VERSION ? record.analysis : null);
+            };
+            request.onerror = () => resolve(null);
+        });
+    } catch (error) {
+        console.error("Failed to read analysis cache:", error);
+        return null;
+    }
+};
+
+export const saveAnalysisToCache = async (hash: string, analysis: TrackAnalysis) => {
+    try {
+        const db = await openDB();
+        const transaction = db.transaction(STORE_NAME, 'readwrite');
+        const record: CachedAnalysisRecord = { hash, analysisVersion: ANALYSIS_VERSION, analysis, updatedAt: Date.now() };
+        transaction.objectStore(STORE_NAME).put(record);
+    } catch (error) {
+        console.error("Failed to write analysis cache:", error);
+    }
+};
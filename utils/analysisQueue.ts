@@ -0,0 +1,173 @@
+import type { Song, TrackAnalysis, AnalysisProgress } from '../types';
+import type { AnalysisRequest, AnalysisResponse } from '../workers/analysis.worker';
+import { getMonoSamples } from './tempo';
+import { hashAudioContent, getCachedAnalysis, saveAnalysisToCache } from './analysisCache';
+
+// --- Background Analysis Queue ---
+// Decodes queued library files on the main thread (decodeAudioData is already
+// off-thread in browsers) and hands the samples to a pool of analysis workers.
+// Cached results are reused unless a job is forced.
+
+const DECODE_SAMPLE_RATE = 44100;
+
+interface AnalysisQueueOptions {
+    concurrency: number;
+    onResult: (songId: number, analysis: TrackAnalysis, contentHash: string) => void;
+    onProgress: (progress: AnalysisProgress) => void;
+}
+
+interface PendingJob {
+    song: Song;
+    force: boolean;
+}
+
+interface ActiveJob {
+    worker: Worker | null;
+    reject: (reason: unknown) => void;
+}
+
+const CANCELLED = 'cancelled';
+
+export const createAnalysisQueue = (options: AnalysisQueueOptions) => {
+    let concurrency = Math.max(1, options.concurrency);
+    let pending: PendingJob[] = [];
+    const activeJobs = new Map<number, ActiveJob>();
+    const activeNames = new Map<number, string>();
+    const idleWorkers: Worker[] = [];
+    let nextJobId = 0;
+    let progress: AnalysisProgress = { total: 0, completed: 0, failed: 0, active: [] };
+    let decoder: OfflineAudioContext | null = null;
+
+    const reportProgress = () => {
+        progress = { ...progress, active: Array.from(activeNames.values()) };
+        options.onProgress(progress);
+    };
+
+    const acquireWorker = (): Worker => {
+        return idleWorkers.pop() ?? new Worker(new URL('../workers/analysis.worker.ts', import.meta.url), { type: 'module' });
+    };
+
+    const releaseWorker = (worker: Worker | null) => {
+        if (!worker) return;
+        // Shrink the pool if the concurrency limit was lowered while the job ran
+        if (idleWorkers.length + activeJobs.size >= concurrency) {
+            worker.terminate();
+        } else {
+            idleWorkers.push(worker);
+        }
+    };
+
+    const analyzeInWorker = (worker: Worker, request: AnalysisRequest): Promise<TrackAnalysis> => {
+        return new Promise((resolve, reject) => {
+            worker.onmessage = (event: MessageEvent<AnalysisResponse>) => {
+                if ('error' in event.data) reject(new Error(event.data.error));
+                else resolve(event.data.analysis);
+            };
+            worker.onerror = (event) => reject(new Error(event.message));
+            worker.postMessage(request, [request.samples.buffer]);
+        });
+    };
+
+    const analyzeSong = async (jobId: number, { song, force }: PendingJob) => {
+        const arrayBuffer = await song.file.arrayBuffer();
+        const contentHash = await hashAudioContent(arrayBuffer);
+        if (!force) {
+            const cached = await getCachedAnalysis(contentHash);
+            if (cached) return { analysis: cached, contentHash };
+        }
+
+        if (!decoder) {
+            decoder = new OfflineAudioContext(1, 1, DECODE_SAMPLE_RATE);
+        }
+        const buffer = await decoder.decodeAudioData(arrayBuffer);
+        const job = activeJobs.get(jobId);
+        if (!job) throw CANCELLED; // Cancelled while decoding
+
+        job.worker = acquireWorker();
+        // Copy so the transfer can't detach the AudioBuffer's own channel data
+        const samples = getMonoSamples(buffer).slice();
+        const analysis = await analyzeInWorker(job.worker, { jobId, samples, sampleRate: buffer.sampleRate });
+        saveAnalysisToCache(contentHash, analysis);
+        return { analysis, contentHash };
+    };
+
+    const runJob = async (job: PendingJob) => {
+        const jobId = ++nextJobId;
+        activeNames.set(jobId, job.song.name);
+        reportProgress();
+
+        try {
+            const { analysis, contentHash } = await new Promise<{ analysis: TrackAnalysis, contentHash: string }>((resolve, reject) => {
+                activeJobs.set(jobId, { worker: null, reject });
+                analyzeSong(jobId, job).then(resolve, reject);
+            });
+            releaseWorker(finishJob(jobId));
+            progress.completed++;
+            options.onResult(job.song.id, analysis, contentHash);
+        } catch (error) {
+            if (error === CANCELLED) return;
+            releaseWorker(finishJob(jobId));
+            progress.failed++;
+            console.error(`Failed to analyze "${job.song.name}":`, error);
+        } finally {
+            activeNames.delete(jobId);
+        }
+        reportProgress();
+        pump();
+    };
+
+    const finishJob = (jobId: number): Worker | null => {
+        const worker = activeJobs.get(jobId)?.worker ?? null;
+        activeJobs.delete(jobId);
+        return worker;
+    };
+
+    const pump = () => {
+        while (activeJobs.size < concurrency && pending.length > 0) {
+            runJob(pending.shift()!);
+        }
+    };
+
+    const enqueue = (songs: Song[], enqueueOptions?: { force?: boolean }) => {
+        if (songs.length === 0) return;
+        const isIdle = pending.length === 0 && activeNames.size === 0;
+        if (isIdle) {
+            progress = { total: 0, completed: 0, failed: 0, active: [] };
+        }
+        const force = enqueueOptions?.force ?? false;
+        pending.push(...songs.map(song => ({ song, force })));
+        progress.total += songs.length;
+        reportProgress();
+        pump();
+    };
+
+    const cancel = () => {
+        pending = [];
+        activeJobs.forEach(({ worker, reject }) => {
+            worker?.terminate();
+            reject(CANCELLED);
+        });
+        activeJobs.clear();
+        activeNames.clear();
+        progress = { total: 0, completed: 0, failed: 0, active: [] };
+        reportProgress();
+    };
+
+    const setConcurrency = (value: number) => {
+        concurrency = Math.max(1, value);
+        while (idleWorkers.length > 0 && idleWorkers.length + activeJobs.size > concurrency) {
+            idleWorkers.pop()!.terminate();
+        }
+        pump();
+    };
+
+    const dispose = () => {
+        cancel();
+        idleWorkers.forEach(worker => worker.terminate());
+        idleWorkers.length = 0;
+    };
+
+    return { enqueue, cancel, setConcurrency, dispose };
+};
+
+export type AnalysisQueue = ReturnType<typeof createAnalysisQueue>;
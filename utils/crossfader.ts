@@ -0,0 +1,31 @@
+import type { CrossfaderAssignment, CrossfaderCurveType } from '../types';
+
+// --- Crossfader ---
+// Gain of each side for a crossfader position from -1 (full A) to 1 (full B).
+
+export const getCrossfaderGains = (crossfader: number, curve: CrossfaderCurveType): { gainA: number, gainB: number } => {
+    const position = (crossfader + 1) / 2; // Normalize to 0 (A) to 1 (B)
+
+    switch (curve) {
+        case 'slow-fade': // Constant power curve
+            return { gainA: Math.cos(position * Math.PI / 2), gainB: Math.sin(position * Math.PI / 2) };
+        case 'fast-cut': {
+            // A curve that is sharp in the middle for quick cuts
+            const p = position < 0.5 ? 2 * position : 2 * (1 - position);
+            const shapedP = Math.pow(p, 3); // Steepness factor
+            return position < 0.5
+                ? { gainA: 1 - shapedP / 2, gainB: shapedP / 2 }
+                : { gainA: shapedP / 2, gainB: 1 - shapedP / 2 };
+        }
+        case 'linear':
+        default:
+            return { gainA: 1 - position, gainB: position };
+    }
+};
+
+// Gain of a channel assigned to a side, or to neither
+export const getChannelCrossfaderGain = (assignment: CrossfaderAssignment, crossfader: number, curve: CrossfaderCurveType): number => {
+    if (assignment === 'thru') return 1;
+    const { gainA, gainB } = getCrossfaderGains(crossfader, curve);
+    return assignment === 'A' ? gainA : gainB;
+};
@@ -0,0 +1,315 @@
+import type { Beat, Song, StorageUsage, SessionLog, HotCue, DeckId } from '../types';
+import { DECK_IDS } from '../constants';
+
+// --- IndexedDB Beat & Library Storage Helpers ---
+const DB_NAME = 'dj-app-beats-db';
+// v1: beats. v2: music library, library audio files and deck queues. v3: session logs.
+const DB_VERSION = 3;
+const STORE_NAME = 'beats';
+const LIBRARY_STORE = 'library';
+const LIBRARY_FILES_STORE = 'libraryFiles';
+const QUEUES_STORE = 'queues';
+const SESSIONS_STORE = 'sessions';
+
+const openDB = (): Promise<IDBDatabase> => {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onerror = () => reject("Error opening DB");
+        request.onsuccess = () => resolve(request.result);
+        request.onupgradeneeded = (event) => {
+            const db = (event.target as IDBOpenDBRequest).result;
+            // Migrations run in order from whatever version the browser already has,
+            // so v1 databases keep their saved beats and just gain the library stores.
+            if (event.oldVersion < 1 && !db.objectStoreNames.contains(STORE_NAME)) {
+                db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+            }
+            if (event.oldVersion < 2) {
+                if (!db.objectStoreNames.contains(LIBRARY_STORE)) {
+                    db.createObjectStore(LIBRARY_STORE, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(LIBRARY_FILES_STORE)) {
+                    db.createObjectStore(LIBRARY_FILES_STORE, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(QUEUES_STORE)) {
+                    db.createObjectStore(QUEUES_STORE, { keyPath: 'deckId' });
+                }
+            }
+            if (event.oldVersion < 3 && !db.objectStoreNames.contains(SESSIONS_STORE)) {
+                db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+            }
+        };
+    });
+};
+
+export const saveBeatsToDB = async (beats: Record<string, (Beat | null)[]>) => {
+    const db = await openDB();
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    await new Promise<void>((resolve, reject) => {
+        const clearRequest = store.clear();
+        clearRequest.onsuccess = () => resolve();
+        clearRequest.onerror = () => reject(clearRequest.error);
+    });
+
+    for (const category in beats) {
+        beats[category].forEach((beat, index) => {
+            if (beat) {
+                // We can't store the File or AudioBuffer object, so create a copy without them.
+                const { file, audioBuffer, ...storableBeat } = beat;
+                store.add({
+                    id: `${category}-${index}`,
+                    category,
+                    index,
+                    beat: storableBeat,
+                });
+            }
+        });
+    }
+};
+
+export const loadBeatsFromDB = async (): Promise<Record<string, (Beat | null)[]>> => {
+    try {
+        const db = await openDB();
+        return new Promise((resolve) => {
+            const transaction = db.transaction(STORE_NAME, 'readonly');
+            const store = transaction.objectStore(STORE_NAME);
+            const request = store.getAll();
+            request.onsuccess = () => {
+                const savedBeats = request.result;
+                const newBeatsState: Record<string, (Beat | null)[]> = {
+                    drum: Array(12).fill(null),
+                    tuning: Array(12).fill(null),
+                    instrumental: Array(12).fill(null),
+                };
+                savedBeats.forEach(item => {
+                    if (newBeatsState[item.category]) {
+                        newBeatsState[item.category][item.index] = item.beat;
+                    }
+                });
+                resolve(newBeatsState);
+            };
+            request.onerror = () => resolve({
+                drum: Array(12).fill(null),
+                tuning: Array(12).fill(null),
+                instrumental: Array(12).fill(null),
+            });
+        });
+    } catch (error) {
+        console.error("Failed to load beats from IndexedDB:", error);
+        return {
+            drum: Array(12).fill(null),
+            tuning: Array(12).fill(null),
+            instrumental: Array(12).fill(null),
+        };
+    }
+};
+
+export const clearBeatsInDB = async () => {
+    const db = await openDB();
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    store.clear();
+};
+
+// --- Library Persistence ---
+// Metadata and audio live in separate stores so metadata edits don't rewrite
+// the audio bytes. Each file is stored either as the File itself (raw bytes)
+// or as a File System Access handle when it was imported through the picker.
+
+type StoredSong = Omit<Song, 'file' | 'fileHandle' | 'isMissing'>;
+
+interface LibraryRecord {
+    id: number;
+    position: number;
+    song: StoredSong;
+}
+
+interface LibraryFileRecord {
+    id: number;
+    file?: File;
+    handle?: FileSystemFileHandle;
+}
+
+interface QueueRecord {
+    deckId: DeckId;
+    songIds: number[];
+}
+
+export interface PersistedLibraryEntry {
+    song: Song;
+    position: number;
+}
+
+// Permission methods are not in the DOM typings yet
+interface PermissionedFileHandle extends FileSystemFileHandle {
+    queryPermission?(descriptor: { mode: 'read' | 'readwrite' }): Promise<PermissionState>;
+    requestPermission?(descriptor: { mode: 'read' | 'readwrite' }): Promise<PermissionState>;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+};
+
+// Resolve a stored handle to a File. Browsers drop read permission between sessions,
+// so without `requestAccess` (which needs a user gesture) this returns null until relinked.
+export const getFileFromHandle = async (handle: FileSystemFileHandle, requestAccess = false): Promise<File | null> => {
+    const permissionedHandle = handle as PermissionedFileHandle;
+    try {
+        let permission = await permissionedHandle.queryPermission?.({ mode: 'read' }) ?? 'granted';
+        if (permission === 'prompt' && requestAccess) {
+            permission = await permissionedHandle.requestPermission?.({ mode: 'read' }) ?? 'denied';
+        }
+        return permission === 'granted' ? await handle.getFile() : null;
+    } catch (error) {
+        // The file was moved or deleted on disk
+        return null;
+    }
+};
+
+// Older libraries store each hot cue as a bare number of seconds, or as an object without a type.
+// A stored cue without a time can't be placed, so its pad comes back empty.
+const restoreCuePoints = (cuePoints: (Partial<HotCue> | number | undefined)[] | undefined): (HotCue | undefined)[] | undefined => {
+    return cuePoints?.map(cue => {
+        if (typeof cue === 'number') return { time: cue, type: 'cue' };
+        if (typeof cue?.time !== 'number') return undefined;
+        return { ...cue, time: cue.time, type: cue.type ?? 'cue' };
+    });
+};
+
+const restoreSong = async (record: LibraryRecord, fileRecord?: LibraryFileRecord): Promise<Song> => {
+    const file = fileRecord?.file ?? (fileRecord?.handle ? await getFileFromHandle(fileRecord.handle) : null);
+    return {
+        ...record.song,
+        cuePoints: restoreCuePoints(record.song.cuePoints),
+        // Missing entries keep an empty placeholder so `file` stays non-null until relinked
+        file: file ?? new File([], record.song.name),
+        fileHandle: fileRecord?.handle,
+        isMissing: !file,
+    };
+};
+
+// One queue per deck
+const createQueueRecord = (create: (deckId: DeckId) => Song[]): Record<DeckId, Song[]> =>
+    Object.fromEntries(DECK_IDS.map(deckId => [deckId, create(deckId)])) as Record<DeckId, Song[]>;
+
+export const loadLibraryFromDB = async (): Promise<{ library: Song[], queues: Record<DeckId, Song[]> }> => {
+    try {
+        const db = await openDB();
+        const transaction = db.transaction([LIBRARY_STORE, LIBRARY_FILES_STORE, QUEUES_STORE], 'readonly');
+        const [records, fileRecords, queueRecords] = await Promise.all([
+            requestToPromise<LibraryRecord[]>(transaction.objectStore(LIBRARY_STORE).getAll()),
+            requestToPromise<LibraryFileRecord[]>(transaction.objectStore(LIBRARY_FILES_STORE).getAll()),
+            requestToPromise<QueueRecord[]>(transaction.objectStore(QUEUES_STORE).getAll()),
+        ]);
+
+        const filesById = new Map(fileRecords.map(record => [record.id, record]));
+        records.sort((a, b) => a.position - b.position);
+        const library = await Promise.all(records.map(record => restoreSong(record, filesById.get(record.id))));
+
+        const songsById = new Map(library.map(song => [song.id, song]));
+        const restoreQueue = (deckId: DeckId) => {
+            const record = queueRecords.find(q => q.deckId === deckId);
+            return (record?.songIds ?? []).map(id => songsById.get(id)).filter((s): s is Song => !!s);
+        };
+
+        return { library, queues: createQueueRecord(restoreQueue) };
+    } catch (error) {
+        console.error("Failed to load library from IndexedDB:", error);
+        return { library: [], queues: createQueueRecord(() => []) };
+    }
+};
+
+// Writes only what changed since `previous` and returns the new snapshot to diff against next time
+export const syncLibraryToDB = async (
+    previous: Map<number, PersistedLibraryEntry>,
+    library: Song[]
+): Promise<Map<number, PersistedLibraryEntry>> => {
+    const next = new Map<number, PersistedLibraryEntry>();
+    const db = await openDB();
+    const transaction = db.transaction([LIBRARY_STORE, LIBRARY_FILES_STORE], 'readwrite');
+    const libraryStore = transaction.objectStore(LIBRARY_STORE);
+    const filesStore = transaction.objectStore(LIBRARY_FILES_STORE);
+
+    library.forEach((song, position) => {
+        next.set(song.id, { song, position });
+        const prev = previous.get(song.id);
+        if (prev && prev.song === song && prev.position === position) return;
+
+        const { file, fileHandle, isMissing, ...storableSong } = song;
+        const record: LibraryRecord = { id: song.id, position, song: storableSong };
+        libraryStore.put(record);
+
+        // Missing entries keep their stored file record until they are relinked
+        const fileChanged = !prev || prev.song.file !== file || prev.song.fileHandle !== fileHandle;
+        if (!isMissing && fileChanged) {
+            const fileRecord: LibraryFileRecord = fileHandle ? { id: song.id, handle: fileHandle } : { id: song.id, file };
+            filesStore.put(fileRecord);
+        }
+    });
+
+    previous.forEach((_, id) => {
+        if (!next.has(id)) {
+            libraryStore.delete(id);
+            filesStore.delete(id);
+        }
+    });
+
+    await transactionDone(transaction);
+    return next;
+};
+
+export const saveQueuesToDB = async (queues: Record<DeckId, Song[]>) => {
+    const db = await openDB();
+    const transaction = db.transaction(QUEUES_STORE, 'readwrite');
+    const store = transaction.objectStore(QUEUES_STORE);
+    const records: QueueRecord[] = DECK_IDS.map(deckId => ({ deckId, songIds: queues[deckId].map(s => s.id) }));
+    records.forEach(record => store.put(record));
+    await transactionDone(transaction);
+};
+
+// --- Session Logs ---
+
+export const saveSessionLogToDB = async (session: SessionLog) => {
+    const db = await openDB();
+    const transaction = db.transaction(SESSIONS_STORE, 'readwrite');
+    transaction.objectStore(SESSIONS_STORE).put(session);
+    await transactionDone(transaction);
+};
+
+// Newest session first
+export const loadSessionLogsFromDB = async (): Promise<SessionLog[]> => {
+    const db = await openDB();
+    const transaction = db.transaction(SESSIONS_STORE, 'readonly');
+    const sessions = await requestToPromise<SessionLog[]>(transaction.objectStore(SESSIONS_STORE).getAll());
+    return sessions.sort((a, b) => b.startedAt - a.startedAt);
+};
+
+export const deleteSessionLogFromDB = async (id: number) => {
+    const db = await openDB();
+    const transaction = db.transaction(SESSIONS_STORE, 'readwrite');
+    transaction.objectStore(SESSIONS_STORE).delete(id);
+    await transactionDone(transaction);
+};
+
+export const getStorageEstimate = async (): Promise<StorageUsage | null> => {
+    if (!navigator.storage?.estimate) return null;
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    const persisted = await navigator.storage.persisted?.() ?? false;
+    return { usage, quota, persisted };
+};
+
+// Ask the browser not to evict the library under storage pressure
+export const requestPersistentStorage = async (): Promise<boolean> => {
+    return await navigator.storage?.persist?.() ?? false;
+};
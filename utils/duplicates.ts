@@ -0,0 +1,57 @@
+import type { Song, PlaylistNode, SessionLog } from '../types';
+
+// --- Duplicate Merging ---
+// Folding duplicates into the copy the user keeps: its own metadata wins, gaps are
+// filled from the others, and playlists and play history are re-pointed to it.
+
+export const mergeSongMetadata = (keeper: Song, duplicates: Song[]): Song => {
+    const merged = { ...keeper };
+    const fill = <K extends 'title' | 'artist' | 'album' | 'year' | 'genre' | 'comment' | 'taggedBpm' | 'taggedKey' | 'taggedGenre' | 'color' | 'memoryCue'>(field: K) => {
+        if (merged[field] !== undefined && merged[field] !== null) return;
+        const donor = duplicates.find(song => song[field] !== undefined && song[field] !== null);
+        if (donor) merged[field] = donor[field];
+    };
+    (['title', 'artist', 'album', 'year', 'genre', 'comment', 'taggedBpm', 'taggedKey', 'taggedGenre', 'color', 'memoryCue'] as const).forEach(fill);
+
+    // A hand-placed grid beats a detected one
+    if (!merged.beatgridLocked) {
+        const locked = duplicates.find(song => song.beatgridLocked && song.beatgrid);
+        if (locked) {
+            merged.beatgrid = locked.beatgrid;
+            merged.beatgridLocked = true;
+        }
+    }
+
+    // Hot cues merge pad by pad; the keeper's pads win
+    const cuePoints = [...(keeper.cuePoints ?? [])];
+    duplicates.forEach(song => song.cuePoints?.forEach((cue, pad) => {
+        if (cue !== undefined && cuePoints[pad] === undefined) cuePoints[pad] = cue;
+    }));
+    if (cuePoints.length > 0) merged.cuePoints = cuePoints;
+
+    const loops = [keeper, ...duplicates].flatMap(song => song.savedLoops ?? []);
+    const uniqueLoops = loops.filter((loop, i) => loops.findIndex(l => Math.abs(l.start - loop.start) < 0.01 && Math.abs(l.end - loop.end) < 0.01) === i);
+    if (uniqueLoops.length > 0) merged.savedLoops = uniqueLoops;
+
+    const rating = Math.max(...[keeper, ...duplicates].map(song => song.rating ?? 0));
+    if (rating > 0) merged.rating = rating;
+    const tags = [...new Set([keeper, ...duplicates].flatMap(song => song.tags ?? []))];
+    if (tags.length > 0) merged.tags = tags;
+
+    return merged;
+};
+
+// Points every reference to a removed song at the one that replaces it, dropping repeats
+export const replaceSongIdsInPlaylists = (nodes: PlaylistNode[], replacements: Map<number, number>): PlaylistNode[] => {
+    return nodes.map(node => {
+        if (!node.songIds.some(id => replacements.has(id))) return node;
+        const songIds = node.songIds.map(id => replacements.get(id) ?? id);
+        return { ...node, songIds: songIds.filter((id, i) => songIds.indexOf(id) === i) };
+    });
+};
+
+// Returns the same session object when no entry refers to a replaced song
+export const replaceSongIdsInSessionLog = (session: SessionLog, replacements: Map<number, number>): SessionLog => {
+    if (!session.entries.some(entry => replacements.has(entry.songId))) return session;
+    return { ...session, entries: session.entries.map(entry => ({ ...entry, songId: replacements.get(entry.songId) ?? entry.songId })) };
+};
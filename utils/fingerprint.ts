@@ -0,0 +1,174 @@
+import type { Song, DuplicateGroup } from '../types';
+import { decimate, fft } from './key';
+
+// --- Acoustic Fingerprints ---
+// One 32-bit word per ~93ms frame (Haitsma & Kalker): bit m is the sign of the
+// change over time of the energy difference between bands m and m+1, over 33
+// log-spaced bands from 300Hz to 2kHz. Re-encodes (MP3 vs FLAC, 128k vs 320k)
+// flip only a few bits, so two copies line up at some frame offset with a low
+// bit error rate. Edits that cut or rearrange sections match at several offsets.
+
+const FRAME_SIZE = 2048;
+// Hop in seconds rather than samples, so 44.1kHz and 48kHz copies produce the same frame rate
+export const FINGERPRINT_FRAME_SECONDS = 1024 / 11025;
+const BAND_COUNT = 33;
+const MIN_FREQ = 300;
+const MAX_FREQ = 2000;
+
+const BLOCK_FRAMES = 64; // ~6s; bit errors are judged per block
+const MAX_BLOCK_BER = 0.35; // Unrelated audio sits near 0.5
+const CANDIDATE_OFFSETS = 3; // An edit can line up with the original at several offsets
+const MIN_MATCH_SECONDS = 20;
+const MIN_MATCH_RATIO = 0.4; // Share of the shorter track that has to match
+
+export const computeFingerprint = (input: Float32Array, inputSampleRate: number): Uint32Array => {
+    const { samples, sampleRate } = decimate(input, inputSampleRate);
+    const hopSize = sampleRate * FINGERPRINT_FRAME_SECONDS;
+    const frameCount = Math.max(0, Math.floor((samples.length - FRAME_SIZE) / hopSize) + 1);
+    if (frameCount < 2) return new Uint32Array(0);
+
+    // Map each FFT bin in range to its band
+    const binBand = new Int8Array(FRAME_SIZE / 2).fill(-1);
+    for (let k = 1; k < FRAME_SIZE / 2; k++) {
+        const freq = k * sampleRate / FRAME_SIZE;
+        if (freq < MIN_FREQ || freq >= MAX_FREQ) continue;
+        binBand[k] = Math.floor(BAND_COUNT * Math.log(freq / MIN_FREQ) / Math.log(MAX_FREQ / MIN_FREQ));
+    }
+
+    const window = new Float64Array(FRAME_SIZE);
+    for (let i = 0; i < FRAME_SIZE; i++) {
+        window[i] = 0.5 - 0.5 * Math.cos(2 * Math.PI * i / (FRAME_SIZE - 1));
+    }
+
+    const re = new Float64Array(FRAME_SIZE);
+    const im = new Float64Array(FRAME_SIZE);
+    let previous = new Float64Array(BAND_COUNT);
+    const fingerprint = new Uint32Array(frameCount - 1);
+    for (let frame = 0; frame < frameCount; frame++) {
+        const start = Math.round(frame * hopSize);
+        for (let i = 0; i < FRAME_SIZE; i++) {
+            re[i] = samples[start + i] * window[i];
+            im[i] = 0;
+        }
+        fft(re, im);
+        const energies = new Float64Array(BAND_COUNT);
+        for (let k = 1; k < FRAME_SIZE / 2; k++) {
+            const band = binBand[k];
+            if (band >= 0) energies[band] += re[k] * re[k] + im[k] * im[k];
+        }
+        if (frame > 0) {
+            let word = 0;
+            for (let m = 0; m < BAND_COUNT - 1; m++) {
+                const delta = (energies[m] - energies[m + 1]) - (previous[m] - previous[m + 1]);
+                if (delta > 0) word |= 1 << m;
+            }
+            fingerprint[frame - 1] = word >>> 0;
+        }
+        previous = energies;
+    }
+    return fingerprint;
+};
+
+const popcount = (x: number): number => {
+    x -= (x >>> 1) & 0x55555555;
+    x = (x & 0x33333333) + ((x >>> 2) & 0x33333333);
+    return Math.imul((x + (x >>> 4)) & 0x0F0F0F0F, 0x01010101) >>> 24;
+};
+
+// Frames of `b` that line up with `a` at the given offset (a index = b index + offset) in low-error blocks
+const matchingFrames = (a: Uint32Array, b: Uint32Array, offset: number, matched: Uint8Array) => {
+    const start = Math.max(0, -offset);
+    const end = Math.min(b.length, a.length - offset);
+    for (let blockStart = start; blockStart < end; blockStart += BLOCK_FRAMES) {
+        const blockEnd = Math.min(end, blockStart + BLOCK_FRAMES);
+        if (blockEnd - blockStart < BLOCK_FRAMES / 2) break;
+        let errors = 0;
+        for (let j = blockStart; j < blockEnd; j++) errors += popcount(a[j + offset] ^ b[j]);
+        if (errors / ((blockEnd - blockStart) * 32) <= MAX_BLOCK_BER) matched.fill(1, blockStart, blockEnd);
+    }
+};
+
+// Share of the shorter fingerprint that matches the other one, from 0 to 1
+export const compareFingerprints = (first: Uint32Array, second: Uint32Array): number => {
+    const [a, b] = first.length >= second.length ? [first, second] : [second, first];
+    if (b.length < BLOCK_FRAMES) return 0;
+
+    // Vote on alignments using exact word matches; silence (0) matches everything, so it's skipped
+    const positions = new Map<number, number[]>();
+    a.forEach((word, i) => {
+        if (word === 0) return;
+        const list = positions.get(word);
+        if (!list) positions.set(word, [i]);
+        else if (list.length < 16) list.push(i);
+    });
+    const votes = new Map<number, number>();
+    b.forEach((word, j) => {
+        positions.get(word)?.forEach(i => votes.set(i - j, (votes.get(i - j) ?? 0) + 1));
+    });
+    const offsets = [...votes.entries()].sort((x, y) => y[1] - x[1]).slice(0, CANDIDATE_OFFSETS).map(([offset]) => offset);
+
+    const matched = new Uint8Array(b.length);
+    offsets.forEach(offset => matchingFrames(a, b, offset, matched));
+    const matchedCount = matched.reduce((sum, value) => sum + value, 0);
+    if (matchedCount * FINGERPRINT_FRAME_SECONDS < Math.min(MIN_MATCH_SECONDS, b.length * FINGERPRINT_FRAME_SECONDS * 0.9)) return 0;
+    return matchedCount / b.length;
+};
+
+// Groups songs that are likely the same recording. Identical files (same content hash) always group;
+// otherwise only pairs that share enough exact fingerprint words are compared in full.
+export const findDuplicateGroups = (library: Song[]): DuplicateGroup[] => {
+    const parent = library.map((_, i) => i);
+    const find = (i: number): number => parent[i] === i ? i : (parent[i] = find(parent[i]));
+    const similarity = new Map<number, number>(); // Lowest pair similarity per group root, for sorting
+
+    const union = (i: number, j: number, score: number) => {
+        const [rootI, rootJ] = [find(i), find(j)];
+        const lowest = Math.min(score, similarity.get(rootI) ?? 1, similarity.get(rootJ) ?? 1);
+        if (rootI !== rootJ) parent[rootJ] = rootI;
+        similarity.set(rootI, lowest);
+    };
+
+    const byHash = new Map<string, number>();
+    library.forEach((song, i) => {
+        if (!song.contentHash) return;
+        const first = byHash.get(song.contentHash);
+        if (first === undefined) byHash.set(song.contentHash, i);
+        else union(first, i, 1);
+    });
+
+    // Index every 8th word so candidate lookup stays cheap on large libraries
+    const index = new Map<number, number[]>();
+    library.forEach((song, i) => {
+        song.fingerprint?.forEach((word, frame) => {
+            if (word === 0 || frame % 8 !== 0) return;
+            const list = index.get(word);
+            if (!list) index.set(word, [i]);
+            else if (list[list.length - 1] !== i) list.push(i);
+        });
+    });
+
+    library.forEach((song, i) => {
+        if (!song.fingerprint) return;
+        const hits = new Map<number, number>();
+        song.fingerprint.forEach(word => {
+            index.get(word)?.forEach(j => {
+                if (j > i) hits.set(j, (hits.get(j) ?? 0) + 1);
+            });
+        });
+        hits.forEach((count, j) => {
+            if (count < 4 || find(i) === find(j)) return;
+            const score = compareFingerprints(song.fingerprint!, library[j].fingerprint!);
+            if (score >= MIN_MATCH_RATIO) union(i, j, score);
+        });
+    });
+
+    const groups = new Map<number, number[]>();
+    library.forEach((song, i) => {
+        const root = find(i);
+        groups.set(root, [...(groups.get(root) ?? []), song.id]);
+    });
+    return [...groups.entries()]
+        .filter(([, songIds]) => songIds.length > 1)
+        .map(([root, songIds]) => ({ songIds, similarity: similarity.get(root) ?? 1 }))
+        .sort((a, b) => b.similarity - a.similarity);
+};
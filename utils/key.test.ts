@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { camelotToOpenKey, detectKeyFromSamples, estimateKeyFromChroma, toCamelot } from './key';
+
+const SAMPLE_RATE = 11025;
+const CHORD_SECONDS = 2;
+
+// Semitones above the tonic of each triad in I-IV-V-I, and i-iv-V-i with the raised leading tone
+const PROGRESSIONS = {
+    major: [[0, 4, 7], [5, 9, 12], [7, 11, 14], [0, 4, 7]],
+    minor: [[0, 3, 7], [5, 8, 12], [7, 11, 14], [0, 3, 7]],
+};
+
+const midiToFrequency = (midi: number) => 440 * 2 ** ((midi - 69) / 12);
+
+// Each chord as sine tones around middle C over its root an octave down
+const synthesizeProgression = (tonic: number, mode: 'major' | 'minor'): Float32Array => {
+    const chordLength = CHORD_SECONDS * SAMPLE_RATE;
+    const samples = new Float32Array(chordLength * 4);
+    PROGRESSIONS[mode].forEach((chord, c) => {
+        const notes = [60 + tonic + chord[0] - 12, ...chord.map(step => 60 + tonic + step)];
+        notes.forEach(midi => {
+            const frequency = midiToFrequency(midi);
+            for (let i = 0; i < chordLength; i++) {
+                samples[c * chordLength + i] += 0.2 * Math.sin(2 * Math.PI * frequency * i / SAMPLE_RATE);
+            }
+        });
+    });
+    return samples;
+};
+
+describe('detectKeyFromSamples', () => {
+    it.each([
+        ['C major', 0, 'major', '8B', '1d'],
+        ['A minor', 9, 'minor', '8A', '1m'],
+        ['G major', 7, 'major', '9B', '2d'],
+        ['E minor', 4, 'minor', '9A', '2m'],
+        ['Eb major', 3, 'major', '5B', '10d'],
+        ['F# minor', 6, 'minor', '11A', '4m'],
+    ] as const)('finds %s in a synthesized progression', (name, tonic, mode, camelot, openKey) => {
+        const key = detectKeyFromSamples(synthesizeProgression(tonic, mode), SAMPLE_RATE);
+        expect(key).toMatchObject({ name, camelot, openKey });
+        expect(key!.confidence).toBeGreaterThan(0.3);
+    });
+
+    it('tells a key from its relative major or minor', () => {
+        expect(detectKeyFromSamples(synthesizeProgression(0, 'major'), SAMPLE_RATE)?.camelot).toBe('8B');
+        expect(detectKeyFromSamples(synthesizeProgression(9, 'minor'), SAMPLE_RATE)?.camelot).toBe('8A');
+    });
+
+    it('has no key for silence or audio shorter than a frame', () => {
+        expect(detectKeyFromSamples(new Float32Array(SAMPLE_RATE * 4), SAMPLE_RATE)).toBeNull();
+        expect(detectKeyFromSamples(synthesizeProgression(0, 'major').subarray(0, 1000), SAMPLE_RATE)).toBeNull();
+    });
+});
+
+describe('estimateKeyFromChroma', () => {
+    it('is sure of a lone triad only as far as the runner-up allows', () => {
+        const chroma = new Array(12).fill(0);
+        [0, 4, 7].forEach(pc => { chroma[pc] = 1; });
+        const key = estimateKeyFromChroma(chroma)!;
+        expect(key.camelot).toBe('8B');
+        expect(key.confidence).toBeGreaterThan(0);
+        expect(key.confidence).toBeLessThan(1);
+    });
+});
+
+describe('toCamelot and camelotToOpenKey', () => {
+    it('agree on every key of the wheel', () => {
+        for (let tonic = 0; tonic < 12; tonic++) {
+            const major = toCamelot(tonic, 'major');
+            const minor = toCamelot((tonic + 9) % 12, 'minor');
+            expect(parseInt(minor)).toBe(parseInt(major));
+            expect(camelotToOpenKey(major)).toBe(`${(parseInt(major) + 4) % 12 + 1}d`);
+            expect(camelotToOpenKey(minor)).toBe(`${(parseInt(minor) + 4) % 12 + 1}m`);
+        }
+    });
+});
@@ -0,0 +1,269 @@
+import type { KeyAnalysis } from '../types';
+import { getMonoSamples } from './tempo';
+
+// --- Musical Key Detection ---
+// Builds a pitch-class profile (chromagram) over the whole track and matches it
+// against the Krumhansl-Kessler major/minor key profiles.
+
+const TARGET_SAMPLE_RATE = 11025;
+const FRAME_SIZE = 8192; // ~0.74s at 11.025kHz, 1.35Hz bin spacing
+const MIN_FREQ = 65; // C2
+const MAX_FREQ = 2000;
+
+const PITCH_CLASS_NAMES = ['C', 'C#', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab', 'A', 'Bb', 'B'];
+
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.60, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+// Camelot wheel position: C major is 8B, each step clockwise is a fifth up.
+// Minor keys share the number of their relative major (three semitones up).
+export const toCamelot = (tonic: number, mode: 'major' | 'minor'): string => {
+    const relativeMajor = mode === 'major' ? tonic : (tonic + 3) % 12;
+    const number = ((relativeMajor * 7) % 12 + 7) % 12 + 1;
+    return `${number}${mode === 'major' ? 'B' : 'A'}`;
+};
+
+// Open Key shares the wheel but starts at C major = 1d
+export const camelotToOpenKey = (camelot: string): string | null => {
+    const match = camelot.match(/^(\d{1,2})([AB])$/);
+    if (!match) return null;
+    const number = parseInt(match[1]);
+    const openNumber = ((number - 8 + 12) % 12) + 1;
+    return `${openNumber}${match[2] === 'B' ? 'd' : 'm'}`;
+};
+
+// Standard notation as used in ID3 TKEY ('Am', 'F#m', 'Eb')
+export const camelotToKeyName = (camelot: string): string | null => {
+    const match = camelot.match(/^(\d{1,2})([AB])$/);
+    if (!match) return null;
+    // Inverse of toCamelot: 7 is its own inverse mod 12
+    const relativeMajor = (((parseInt(match[1]) - 8) * 7) % 12 + 12) % 12;
+    return match[2] === 'B'
+        ? PITCH_CLASS_NAMES[relativeMajor]
+        : `${PITCH_CLASS_NAMES[(relativeMajor + 9) % 12]}m`;
+};
+
+// Camelot neighbours for harmonic mixing: relative major/minor and one step either way on the wheel
+export const getCompatibleKeys = (key: string): string[] => {
+    if (!key) return [];
+    const num = parseInt(key.slice(0, -1));
+    const letter = key.slice(-1);
+
+    const compatible: string[] = [];
+
+    // Same number, different letter (e.g., 8A -> 8B)
+    compatible.push(`${num}${letter === 'A' ? 'B' : 'A'}`);
+
+    // One number up, same letter (e.g., 8A -> 9A)
+    const nextNum = num === 12 ? 1 : num + 1;
+    compatible.push(`${nextNum}${letter}`);
+
+    // One number down, same letter (e.g., 8A -> 7A)
+    const prevNum = num === 1 ? 12 : num - 1;
+    compatible.push(`${prevNum}${letter}`);
+
+    return compatible;
+};
+
+// A semitone up is seven steps round the wheel; the letter (mode) stays
+export const shiftCamelotKey = (key: string, semitones: number): string | null => {
+    const match = key.match(/^(\d{1,2})([AB])$/);
+    if (!match) return null;
+    const number = (((parseInt(match[1]) - 1 + semitones * 7) % 12) + 12) % 12 + 1;
+    return `${number}${match[2]}`;
+};
+
+// Smallest transpose that puts `key` on `target` or one of its Camelot neighbours. Every
+// position on the wheel is within six semitones, so there's always one for valid keys.
+export const getMatchingKeyShift = (key: string, target: string): number | null => {
+    const compatible = new Set([target, ...getCompatibleKeys(target)]);
+    for (let distance = 0; distance <= 6; distance++) {
+        for (const shift of distance === 0 ? [0] : [-distance, distance]) {
+            const shifted = shiftCamelotKey(key, shift);
+            if (shifted && compatible.has(shifted)) return shift;
+        }
+    }
+    return null;
+};
+
+const NOTE_OFFSETS: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+// Normalizes a key as written by other software ('8A', '1m', 'Am', 'F# minor', 'Ebmaj')
+// to Camelot notation. Returns null for unrecognized values such as 'o' (off key).
+export const parseKeyToCamelot = (value: string): string | null => {
+    const text = value.trim();
+
+    const camelot = text.match(/^(\d{1,2})\s*([AB])$/i);
+    if (camelot) {
+        const number = parseInt(camelot[1]);
+        return number >= 1 && number <= 12 ? `${number}${camelot[2].toUpperCase()}` : null;
+    }
+
+    const openKey = text.match(/^(\d{1,2})\s*([dm])$/);
+    if (openKey) {
+        const number = parseInt(openKey[1]);
+        if (number < 1 || number > 12) return null;
+        return `${((number + 6) % 12) + 1}${openKey[2] === 'd' ? 'B' : 'A'}`;
+    }
+
+    const standard = text.match(/^([A-G])\s*([#♯b♭]?)\s*(.*)$/);
+    if (!standard) return null;
+    const accidental = standard[2] === '#' || standard[2] === '♯' ? 1 : standard[2] ? -1 : 0;
+    const tonic = (NOTE_OFFSETS[standard[1]] + accidental + 12) % 12;
+    const quality = standard[3].toLowerCase();
+    if (quality === '' || /^(maj|major)$/.test(quality)) return toCamelot(tonic, 'major');
+    if (/^(m|min|minor)$/.test(quality)) return toCamelot(tonic, 'minor');
+    return null;
+};
+
+// Second-order low-pass (RBJ cookbook) used as the anti-aliasing filter before decimation
+const lowPass = (samples: Float32Array, sampleRate: number, cutoff: number): Float32Array => {
+    const w0 = 2 * Math.PI * cutoff / sampleRate;
+    const alpha = Math.sin(w0) / (2 * Math.SQRT1_2);
+    const cosW0 = Math.cos(w0);
+    const a0 = 1 + alpha;
+    const b0 = (1 - cosW0) / 2 / a0;
+    const b1 = (1 - cosW0) / a0;
+    const b2 = b0;
+    const a1 = -2 * cosW0 / a0;
+    const a2 = (1 - alpha) / a0;
+
+    const out = new Float32Array(samples.length);
+    let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+    for (let i = 0; i < samples.length; i++) {
+        const x0 = samples[i];
+        const y0 = b0 * x0 + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+        out[i] = y0;
+        x2 = x1; x1 = x0;
+        y2 = y1; y1 = y0;
+    }
+    return out;
+};
+
+// Down to ~11kHz, plenty for pitch content; also used by the fingerprinter
+export const decimate = (samples: Float32Array, sampleRate: number) => {
+    const factor = Math.max(1, Math.floor(sampleRate / TARGET_SAMPLE_RATE));
+    if (factor === 1) return { samples, sampleRate };
+    const newRate = sampleRate / factor;
+    const filtered = lowPass(lowPass(samples, sampleRate, newRate * 0.4), sampleRate, newRate * 0.4);
+    const out = new Float32Array(Math.floor(samples.length / factor));
+    for (let i = 0; i < out.length; i++) {
+        out[i] = filtered[i * factor];
+    }
+    return { samples: out, sampleRate: newRate };
+};
+
+// In-place iterative radix-2 FFT
+export const fft = (re: Float64Array, im: Float64Array) => {
+    const n = re.length;
+    for (let i = 1, j = 0; i < n; i++) {
+        let bit = n >> 1;
+        for (; j & bit; bit >>= 1) j ^= bit;
+        j ^= bit;
+        if (i < j) {
+            [re[i], re[j]] = [re[j], re[i]];
+            [im[i], im[j]] = [im[j], im[i]];
+        }
+    }
+    for (let size = 2; size <= n; size <<= 1) {
+        const angle = -2 * Math.PI / size;
+        const wRe = Math.cos(angle);
+        const wIm = Math.sin(angle);
+        for (let start = 0; start < n; start += size) {
+            let curRe = 1, curIm = 0;
+            for (let k = 0; k < size / 2; k++) {
+                const a = start + k;
+                const b = a + size / 2;
+                const tRe = re[b] * curRe - im[b] * curIm;
+                const tIm = re[b] * curIm + im[b] * curRe;
+                re[b] = re[a] - tRe;
+                im[b] = im[a] - tIm;
+                re[a] += tRe;
+                im[a] += tIm;
+                const nextRe = curRe * wRe - curIm * wIm;
+                curIm = curRe * wIm + curIm * wRe;
+                curRe = nextRe;
+            }
+        }
+    }
+};
+
+export const computeChromagram = (input: Float32Array, inputSampleRate: number): number[] => {
+    const { samples, sampleRate } = decimate(input, inputSampleRate);
+    const chroma = new Array(12).fill(0);
+    if (samples.length < FRAME_SIZE) return chroma;
+
+    // Map each FFT bin in range to its nearest pitch class
+    const binPitchClass = new Int8Array(FRAME_SIZE / 2).fill(-1);
+    for (let k = 1; k < FRAME_SIZE / 2; k++) {
+        const freq = k * sampleRate / FRAME_SIZE;
+        if (freq < MIN_FREQ || freq > MAX_FREQ) continue;
+        const midi = Math.round(69 + 12 * Math.log2(freq / 440));
+        binPitchClass[k] = midi % 12;
+    }
+
+    const window = new Float64Array(FRAME_SIZE);
+    for (let i = 0; i < FRAME_SIZE; i++) {
+        window[i] = 0.5 - 0.5 * Math.cos(2 * Math.PI * i / (FRAME_SIZE - 1));
+    }
+
+    const re = new Float64Array(FRAME_SIZE);
+    const im = new Float64Array(FRAME_SIZE);
+    for (let start = 0; start + FRAME_SIZE <= samples.length; start += FRAME_SIZE) {
+        for (let i = 0; i < FRAME_SIZE; i++) {
+            re[i] = samples[start + i] * window[i];
+            im[i] = 0;
+        }
+        fft(re, im);
+        for (let k = 1; k < FRAME_SIZE / 2; k++) {
+            const pc = binPitchClass[k];
+            if (pc >= 0) chroma[pc] += Math.hypot(re[k], im[k]);
+        }
+    }
+    return chroma;
+};
+
+const correlate = (a: number[], b: number[]): number => {
+    const meanA = a.reduce((sum, v) => sum + v, 0) / a.length;
+    const meanB = b.reduce((sum, v) => sum + v, 0) / b.length;
+    let num = 0, denA = 0, denB = 0;
+    for (let i = 0; i < a.length; i++) {
+        num += (a[i] - meanA) * (b[i] - meanB);
+        denA += (a[i] - meanA) ** 2;
+        denB += (b[i] - meanB) ** 2;
+    }
+    return denA > 0 && denB > 0 ? num / Math.sqrt(denA * denB) : 0;
+};
+
+export const estimateKeyFromChroma = (chroma: number[]): KeyAnalysis | null => {
+    if (chroma.every(v => v === 0)) return null;
+
+    const scores: { tonic: number, mode: 'major' | 'minor', score: number }[] = [];
+    for (let tonic = 0; tonic < 12; tonic++) {
+        // Rotate the profile so its first entry lines up with the candidate tonic
+        const rotate = (profile: number[]) => profile.map((_, i) => profile[(i - tonic + 12) % 12]);
+        scores.push({ tonic, mode: 'major', score: correlate(chroma, rotate(MAJOR_PROFILE)) });
+        scores.push({ tonic, mode: 'minor', score: correlate(chroma, rotate(MINOR_PROFILE)) });
+    }
+    scores.sort((a, b) => b.score - a.score);
+
+    const [best, runnerUp] = scores;
+    // Share of the remaining headroom the winner gains over the runner-up
+    const confidence = best.score >= 1 ? 1 : Math.max(0, Math.min(1, (best.score - runnerUp.score) / (1 - runnerUp.score)));
+    const camelot = toCamelot(best.tonic, best.mode);
+
+    return {
+        name: `${PITCH_CLASS_NAMES[best.tonic]} ${best.mode}`,
+        camelot,
+        openKey: camelotToOpenKey(camelot)!,
+        confidence,
+    };
+};
+
+export const detectKeyFromSamples = (samples: Float32Array, sampleRate: number): KeyAnalysis | null => {
+    return estimateKeyFromChroma(computeChromagram(samples, sampleRate));
+};
+
+export const analyzeKey = (buffer: AudioBuffer): KeyAnalysis | null => {
+    return detectKeyFromSamples(getMonoSamples(buffer), buffer.sampleRate);
+};
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_KEY_SHIFT } from '../constants';
+import { getPitchRatio, getPlayableKeyShift } from './keyLock';
+import { MIN_PITCH_RATIO, MAX_PITCH_RATIO } from './timeStretch';
+
+describe('getPitchRatio', () => {
+    it('transposes by the key shift and undoes the rate with key lock', () => {
+        expect(getPitchRatio({ keyLock: false, keyShift: 7 }, 1.1)).toBeCloseTo(2 ** (7 / 12), 10);
+        expect(getPitchRatio({ keyLock: true, keyShift: 0 }, 1.25)).toBeCloseTo(0.8, 10);
+        expect(getPitchRatio({ keyLock: true, keyShift: -3 }, 0.9)).toBeCloseTo(2 ** (-3 / 12) / 0.9, 10);
+    });
+
+    it('plays the full range at the original tempo', () => {
+        expect(getPitchRatio({ keyLock: true, keyShift: MAX_KEY_SHIFT }, 1)).toBeCloseTo(MAX_PITCH_RATIO, 10);
+        expect(getPitchRatio({ keyLock: true, keyShift: -MAX_KEY_SHIFT }, 1)).toBeCloseTo(MIN_PITCH_RATIO, 10);
+    });
+
+    it.each([0.5, 0.8, 0.94, 1, 1.06, 1.3, 2])('stays within the shifter range at rate %s', rate => {
+        for (let keyShift = -MAX_KEY_SHIFT; keyShift <= MAX_KEY_SHIFT; keyShift++) {
+            for (const keyLock of [false, true]) {
+                const ratio = getPitchRatio({ keyLock, keyShift }, rate);
+                expect(ratio).toBeGreaterThanOrEqual(MIN_PITCH_RATIO - 1e-9);
+                expect(ratio).toBeLessThanOrEqual(MAX_PITCH_RATIO + 1e-9);
+            }
+        }
+    });
+});
+
+describe('getPlayableKeyShift', () => {
+    it('cuts an octave shift back to the nearest semitone that fits the rate', () => {
+        // Slowed down, key lock already raises the pitch by about a semitone
+        expect(getPlayableKeyShift({ keyLock: true, keyShift: 12 }, 0.94)).toBe(10);
+        expect(getPlayableKeyShift({ keyLock: true, keyShift: -12 }, 0.94)).toBe(-12);
+        expect(getPlayableKeyShift({ keyLock: true, keyShift: -12 }, 1.06)).toBe(-10);
+        expect(getPlayableKeyShift({ keyLock: true, keyShift: 12 }, 1.06)).toBe(12);
+    });
+
+    it('leaves shifts that fit, and any shift without key lock', () => {
+        expect(getPlayableKeyShift({ keyLock: true, keyShift: 5 }, 0.8)).toBe(5);
+        expect(getPlayableKeyShift({ keyLock: false, keyShift: 12 }, 0.5)).toBe(12);
+    });
+});
@@ -0,0 +1,46 @@
+/// <reference types="vite/client" />
+import keyLockWorkletUrl from '../workers/keyLock.worklet.ts?worker&url';
+import type { DeckState } from '../types';
+import { KEY_LOCK_PROCESSOR, MIN_PITCH_RATIO, MAX_PITCH_RATIO, getPitchShifterLatency } from './timeStretch';
+
+// --- Key Lock ---
+// Loads the time-stretch worklet and makes the per-source nodes decks play through
+// when key lock or a key shift is on. A node is made for each buffer source so a
+// stopped source's last few milliseconds still play out of its own node while the
+// next source's node fills up.
+
+export const loadKeyLockProcessor = (context: BaseAudioContext): Promise<void> => {
+    if (!context.audioWorklet) return Promise.reject(new Error('AudioWorklet is not supported here.'));
+    return context.audioWorklet.addModule(keyLockWorkletUrl);
+};
+
+export const needsPitchShift = (deck: Pick<DeckState, 'keyLock' | 'keyShift'>): boolean => deck.keyLock || deck.keyShift !== 0;
+
+// How much of the key shift the shifter can play at this rate. With key lock the ratio also
+// undoes the rate's pitch change, and the whole ratio has to stay within MIN/MAX_PITCH_RATIO,
+// so a sped-up deck can't go a full octave up (nor a slowed-down one an octave down).
+export const getPlayableKeyShift = (deck: Pick<DeckState, 'keyLock' | 'keyShift'>, playbackRate: number): number => {
+    const lockRatio = deck.keyLock ? 1 / playbackRate : 1;
+    const lowest = Math.ceil(12 * Math.log2(MIN_PITCH_RATIO / lockRatio) - 1e-9);
+    const highest = Math.floor(12 * Math.log2(MAX_PITCH_RATIO / lockRatio) + 1e-9);
+    return Math.max(lowest, Math.min(highest, deck.keyShift));
+};
+
+// Key lock undoes the playback rate's pitch change, then the key shift transposes
+export const getPitchRatio = (deck: Pick<DeckState, 'keyLock' | 'keyShift'>, playbackRate: number): number =>
+    (deck.keyLock ? 1 / playbackRate : 1) * 2 ** (getPlayableKeyShift(deck, playbackRate) / 12);
+
+export const createKeyLockNode = (context: BaseAudioContext, pitchRatio: number): AudioWorkletNode =>
+    new AudioWorkletNode(context, KEY_LOCK_PROCESSOR, {
+        numberOfInputs: 1,
+        numberOfOutputs: 1,
+        outputChannelCount: [2],
+        parameterData: { pitchRatio },
+    });
+
+export const setKeyLockPitch = (node: AudioWorkletNode, pitchRatio: number, when: number) => {
+    node.parameters.get('pitchRatio')?.setValueAtTime(pitchRatio, when);
+};
+
+// Seconds the key lock delays a deck's sound
+export const getKeyLockLatency = (context: BaseAudioContext): number => getPitchShifterLatency(context.sampleRate) / context.sampleRate;
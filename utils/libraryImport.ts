@@ -0,0 +1,140 @@
+import type { Song, PlaylistNode } from '../types';
+
+// --- Library Import ---
+// Common shape that the Rekordbox/Traktor/Serato readers produce, and the merge
+// into our library. Tracks are matched to library entries by file name; tracks
+// that aren't in the library yet are added as missing entries, ready to be relinked.
+
+export type ImportedSongDetails = Partial<Pick<Song,
+    'title' | 'artist' | 'album' | 'year' | 'genre' | 'taggedGenre' | 'comment' |
+    'bpm' | 'taggedBpm' | 'key' | 'taggedKey' | 'beatgrid' | 'beatgridLocked' |
+    'cuePoints' | 'memoryCue' | 'savedLoops'
+>>;
+
+export interface ImportedTrack {
+    id: string; // Format-specific id that playlists refer to
+    fileName: string;
+    details: ImportedSongDetails;
+}
+
+export interface ImportedPlaylist {
+    name: string;
+    type: 'folder' | 'playlist' | 'crate';
+    children: ImportedPlaylist[]; // Folders only
+    trackIds: string[]; // Playlists and crates only
+}
+
+export interface LibraryImport {
+    source: string; // e.g. 'Rekordbox'; names the folder imported playlists go into
+    tracks: ImportedTrack[];
+    playlists: ImportedPlaylist[];
+}
+
+export interface LibraryImportResult {
+    library: Song[];
+    playlists: PlaylistNode[];
+    matched: number;
+    added: number;
+}
+
+// Last path segment of a file:// URL or a plain path, URL-decoded
+export const fileNameFromLocation = (location: string): string => {
+    const segment = location.split(/[\\/]/).pop() ?? location;
+    try {
+        return decodeURIComponent(segment);
+    } catch {
+        return segment;
+    }
+};
+
+// Drops undefined values so they don't overwrite what the library already knows
+const definedDetails = (details: ImportedSongDetails): ImportedSongDetails => {
+    return Object.fromEntries(Object.entries(details).filter(([, value]) => value !== undefined));
+};
+
+export const mergeLibraryImport = (library: Song[], playlists: PlaylistNode[], data: LibraryImport): LibraryImportResult => {
+    const songsByName = new Map(library.map(song => [song.name.toLowerCase(), song]));
+    const updated = new Map<number, Song>();
+    const added: Song[] = [];
+    const songIdByTrackId = new Map<string, number>();
+
+    data.tracks.forEach(track => {
+        const existing = songsByName.get(track.fileName.toLowerCase());
+        const details = definedDetails(track.details);
+        if (existing) {
+            const song = { ...(updated.get(existing.id) ?? existing), ...details };
+            updated.set(existing.id, song);
+            songIdByTrackId.set(track.id, song.id);
+        } else {
+            const song: Song = {
+                id: Date.now() + Math.random(),
+                name: track.fileName,
+                file: new File([], track.fileName),
+                isMissing: true,
+                ...details,
+            };
+            added.push(song);
+            songsByName.set(song.name.toLowerCase(), song);
+            songIdByTrackId.set(track.id, song.id);
+        }
+    });
+
+    // Imported playlists go into a folder named after their source
+    const nodes: PlaylistNode[] = [...playlists];
+    const addNode = (item: ImportedPlaylist, parentId: number | null) => {
+        const node: PlaylistNode = {
+            id: Date.now() + Math.random(),
+            type: item.type,
+            name: item.name,
+            parentId,
+            songIds: item.type !== 'folder'
+                ? item.trackIds.flatMap(trackId => songIdByTrackId.get(trackId) ?? [])
+                : [],
+        };
+        nodes.push(node);
+        item.children.forEach(child => addNode(child, node.id));
+    };
+    if (data.playlists.length > 0) {
+        addNode({ name: data.source, type: 'folder', children: data.playlists, trackIds: [] }, null);
+    }
+
+    return {
+        library: [...library.map(song => updated.get(song.id) ?? song), ...added],
+        playlists: nodes,
+        matched: updated.size,
+        added: added.length,
+    };
+};
+
+export const escapeXml = (value: string): string => {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+};
+
+// Attribute list for an XML element; empty and undefined values are left out
+export const xmlAttrs = (values: Record<string, string | number | undefined>): string => {
+    return Object.entries(values)
+        .filter(([, value]) => value !== undefined && value !== '')
+        .map(([name, value]) => `${name}="${escapeXml(String(value))}"`)
+        .join(' ');
+};
+
+// file://localhost/ URL in the form DJ software expects, from a folder the user names and a file name
+export const toFileUrl = (musicFolder: string, fileName: string): string => {
+    const segments = [...musicFolder.split(/[\\/]/), fileName].filter(Boolean);
+    return `file://localhost/${segments.map(segment => /^[A-Za-z]:$/.test(segment) ? segment : encodeURIComponent(segment)).join('/')}`;
+};
+
+// Cue colours travel as '#rrggbb' in the library and as separate RGB values in the formats
+export const rgbToHex = (red: number, green: number, blue: number): string => {
+    return '#' + [red, green, blue].map(value => Math.max(0, Math.min(255, Math.round(value))).toString(16).padStart(2, '0')).join('');
+};
+
+export const hexToRgb = (hex: string): [number, number, number] | null => {
+    const match = hex.match(/^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+    return match ? [parseInt(match[1], 16), parseInt(match[2], 16), parseInt(match[3], 16)] : null;
+};
@@ -0,0 +1,160 @@
+import type { Song } from '../types';
+import { fileNameFromLocation } from './libraryImport';
+
+// --- Playlist Files ---
+// Plain M3U, extended M3U/M3U8 (#EXTINF duration and title, #EXTBYT file size) and PLS.
+// Entries are matched back to the library by file name. A size or duration in the
+// playlist that disagrees with the library's file rules it out.
+
+export type PlaylistFileFormat = 'm3u' | 'm3u8' | 'pls';
+
+export interface PlaylistFileEntry {
+    location: string;
+    title?: string;
+    duration?: number; // Seconds, when the file gives one
+    size?: number; // Bytes
+}
+
+export interface PlaylistMatchResult {
+    songs: Song[];
+    unmatched: PlaylistFileEntry[];
+}
+
+// #EXTINF durations are usually whole seconds
+const DURATION_TOLERANCE = 2;
+
+const splitLines = (text: string): string[] => {
+    return text.replace(/^\uFEFF/, '').split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+};
+
+export const parseM3u = (text: string): PlaylistFileEntry[] => {
+    const entries: PlaylistFileEntry[] = [];
+    let pending: Omit<PlaylistFileEntry, 'location'> = {};
+    splitLines(text).forEach(line => {
+        if (line.startsWith('#EXTINF:')) {
+            const match = line.slice('#EXTINF:'.length).match(/^(-?[\d.]+)[^,]*,?(.*)$/);
+            if (match) {
+                const duration = parseFloat(match[1]);
+                pending.duration = duration >= 0 ? duration : undefined;
+                pending.title = match[2].trim() || undefined;
+            }
+        } else if (line.startsWith('#EXTBYT:')) {
+            pending.size = parseInt(line.slice('#EXTBYT:'.length)) || undefined;
+        } else if (!line.startsWith('#')) {
+            entries.push({ location: line, ...pending });
+            pending = {};
+        }
+    });
+    return entries;
+};
+
+export const parsePls = (text: string): PlaylistFileEntry[] => {
+    const files = new Map<number, PlaylistFileEntry>();
+    const titles = new Map<number, string>();
+    const lengths = new Map<number, number>();
+    splitLines(text).forEach(line => {
+        const match = line.match(/^(File|Title|Length)(\d+)=(.*)$/i);
+        if (!match) return;
+        const index = parseInt(match[2]);
+        const value = match[3].trim();
+        switch (match[1].toLowerCase()) {
+            case 'file': files.set(index, { location: value }); break;
+            case 'title': titles.set(index, value); break;
+            case 'length': lengths.set(index, parseFloat(value)); break;
+        }
+    });
+    return [...files.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([index, entry]) => {
+            const duration = lengths.get(index);
+            return {
+                ...entry,
+                title: titles.get(index) || undefined,
+                duration: duration !== undefined && duration >= 0 ? duration : undefined,
+            };
+        });
+};
+
+// Picks the parser from the extension, falling back to sniffing the content
+export const parsePlaylistFile = (text: string, fileName: string): PlaylistFileEntry[] => {
+    const isPls = /\.pls$/i.test(fileName) || /^\s*\[playlist\]/i.test(text.replace(/^\uFEFF/, ''));
+    return isPls ? parsePls(text) : parseM3u(text);
+};
+
+// A missing song's placeholder file has no size, so only present files are compared by size
+const isConsistentWith = (entry: PlaylistFileEntry) => (song: Song): boolean => {
+    if (entry.size !== undefined && !song.isMissing && song.file.size !== entry.size) return false;
+    if (entry.duration !== undefined && song.duration !== undefined && Math.abs(song.duration - entry.duration) > DURATION_TOLERANCE) return false;
+    return true;
+};
+
+export const matchPlaylistEntries = (entries: PlaylistFileEntry[], library: Song[]): PlaylistMatchResult => {
+    const songsByName = new Map<string, Song[]>();
+    library.forEach(song => {
+        const key = song.name.toLowerCase();
+        songsByName.set(key, [...(songsByName.get(key) ?? []), song]);
+    });
+
+    const songs: Song[] = [];
+    const unmatched: PlaylistFileEntry[] = [];
+    entries.forEach(entry => {
+        const candidates = (songsByName.get(fileNameFromLocation(entry.location).toLowerCase()) ?? []).filter(isConsistentWith(entry));
+        const match = candidates.find(song => !song.isMissing) ?? candidates[0];
+        if (match) {
+            songs.push(match);
+        } else {
+            unmatched.push(entry);
+        }
+    });
+    return { songs, unmatched };
+};
+
+// --- Export ---
+
+// Joins with the folder's own separator so Windows paths stay Windows paths
+const toPath = (musicFolder: string, fileName: string): string => {
+    if (!musicFolder) return fileName;
+    const separator = musicFolder.includes('\\') ? '\\' : '/';
+    return `${musicFolder.replace(/[\\/]+$/, '')}${separator}${fileName}`;
+};
+
+const displayTitle = (song: Song): string => {
+    const title = song.title ?? song.name.replace(/\.[^.]+$/, '');
+    return song.artist ? `${song.artist} - ${title}` : title;
+};
+
+// Songs that haven't been analyzed yet have no duration and get -1 (unknown)
+const durationSeconds = (song: Song): number => song.duration !== undefined ? Math.round(song.duration) : -1;
+
+export const writeM3u = (songs: Song[], musicFolder = '', extended = true): string => {
+    if (!extended) {
+        return songs.map(song => toPath(musicFolder, song.name)).join('\n') + '\n';
+    }
+    const lines = ['#EXTM3U'];
+    songs.forEach(song => {
+        lines.push(`#EXTINF:${durationSeconds(song)},${displayTitle(song)}`);
+        if (song.file.size) lines.push(`#EXTBYT:${song.file.size}`);
+        lines.push(toPath(musicFolder, song.name));
+    });
+    return lines.join('\n') + '\n';
+};
+
+export const writePls = (songs: Song[], musicFolder = ''): string => {
+    const lines = ['[playlist]'];
+    songs.forEach((song, i) => {
+        lines.push(`File${i + 1}=${toPath(musicFolder, song.name)}`);
+        lines.push(`Title${i + 1}=${displayTitle(song)}`);
+        lines.push(`Length${i + 1}=${durationSeconds(song)}`);
+    });
+    lines.push(`NumberOfEntries=${songs.length}`, 'Version=2');
+    return lines.join('\n') + '\n';
+};
+
+// Plain .m3u is kept to the bare path list that every player understands
+export const writePlaylistFile = (songs: Song[], format: PlaylistFileFormat, musicFolder = ''): string => {
+    switch (format) {
+        case 'm3u': return writeM3u(songs, musicFolder, false);
+        case 'm3u8': return writeM3u(songs, musicFolder, true);
+        case 'pls': return writePls(songs, musicFolder);
+    }
+};
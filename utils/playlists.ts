@@ -0,0 +1,140 @@
+import type { PlaylistNode, PlaylistNodeType, Song, SmartRule } from '../types';
+import { evaluateSmartRules, type RuleContext } from './trackRules';
+
+// --- Playlist Tree ---
+// Pure helpers over the flat PlaylistNode list. Siblings are ordered by their
+// position in the list, so moving a node also means moving it within the array.
+
+const PLAYLISTS_STORAGE_KEY = 'dj-playlists';
+
+export const loadPlaylists = (): PlaylistNode[] => {
+    try {
+        const saved = localStorage.getItem(PLAYLISTS_STORAGE_KEY);
+        return saved ? JSON.parse(saved) : [];
+    } catch (error) {
+        console.error("Could not load playlists:", error);
+        return [];
+    }
+};
+
+export const savePlaylists = (nodes: PlaylistNode[]) => {
+    try {
+        localStorage.setItem(PLAYLISTS_STORAGE_KEY, JSON.stringify(nodes));
+    } catch (error) {
+        console.error("Could not save playlists:", error);
+    }
+};
+
+export const getChildNodes = (nodes: PlaylistNode[], parentId: number | null): PlaylistNode[] => {
+    return nodes.filter(node => node.parentId === parentId);
+};
+
+// The node's id plus the ids of everything nested below it
+const getSubtreeIds = (nodes: PlaylistNode[], id: number): Set<number> => {
+    const ids = new Set([id]);
+    let added = true;
+    while (added) {
+        added = false;
+        nodes.forEach(node => {
+            if (node.parentId !== null && ids.has(node.parentId) && !ids.has(node.id)) {
+                ids.add(node.id);
+                added = true;
+            }
+        });
+    }
+    return ids;
+};
+
+const isFolder = (nodes: PlaylistNode[], id: number | null) => {
+    return id === null || nodes.some(node => node.id === id && node.type === 'folder');
+};
+
+const buildNode = (nodes: PlaylistNode[], type: PlaylistNodeType, name: string, parentId: number | null): PlaylistNode => ({
+    id: Date.now() + Math.random(),
+    type,
+    name: name.trim() || `New ${type}`,
+    parentId: isFolder(nodes, parentId) ? parentId : null,
+    songIds: [],
+});
+
+export const createPlaylistNode = (nodes: PlaylistNode[], type: PlaylistNodeType, name: string, parentId: number | null = null): PlaylistNode[] => {
+    return [...nodes, buildNode(nodes, type, name, parentId)];
+};
+
+export const createSmartCrate = (nodes: PlaylistNode[], name: string, rules: SmartRule[], matchAll = true, parentId: number | null = null): PlaylistNode[] => {
+    return [...nodes, { ...buildNode(nodes, 'smartCrate', name, parentId), rules, matchAll }];
+};
+
+export const updateSmartCrateRules = (nodes: PlaylistNode[], id: number, rules: SmartRule[], matchAll: boolean): PlaylistNode[] => {
+    return nodes.map(node => node.id === id && node.type === 'smartCrate' ? { ...node, rules, matchAll } : node);
+};
+
+export const renamePlaylistNode = (nodes: PlaylistNode[], id: number, name: string): PlaylistNode[] => {
+    const trimmed = name.trim();
+    if (!trimmed) return nodes;
+    return nodes.map(node => node.id === id ? { ...node, name: trimmed } : node);
+};
+
+// Deleting a folder deletes everything inside it
+export const deletePlaylistNode = (nodes: PlaylistNode[], id: number): PlaylistNode[] => {
+    const removed = getSubtreeIds(nodes, id);
+    return nodes.filter(node => !removed.has(node.id));
+};
+
+// Moves a node into a folder (or the top level) at the given position among its new siblings.
+// Moves into the node's own subtree are ignored.
+export const movePlaylistNode = (nodes: PlaylistNode[], id: number, parentId: number | null, index?: number): PlaylistNode[] => {
+    const node = nodes.find(n => n.id === id);
+    if (!node || !isFolder(nodes, parentId) || (parentId !== null && getSubtreeIds(nodes, id).has(parentId))) {
+        return nodes;
+    }
+    const remaining = nodes.filter(n => n.id !== id);
+    const siblings = getChildNodes(remaining, parentId);
+    const moved = { ...node, parentId };
+    if (index === undefined || index >= siblings.length) {
+        return [...remaining, moved];
+    }
+    const insertAt = remaining.indexOf(siblings[Math.max(0, index)]);
+    return [...remaining.slice(0, insertAt), moved, ...remaining.slice(insertAt)];
+};
+
+// Songs already in the playlist are skipped rather than duplicated
+export const addSongsToPlaylist = (nodes: PlaylistNode[], id: number, songIds: number[], index?: number): PlaylistNode[] => {
+    return nodes.map(node => {
+        if (node.id !== id || node.type === 'folder' || node.type === 'smartCrate') return node;
+        const existing = new Set(node.songIds);
+        const added = songIds.filter((songId, i) => !existing.has(songId) && songIds.indexOf(songId) === i);
+        const insertAt = index === undefined ? node.songIds.length : Math.max(0, Math.min(index, node.songIds.length));
+        return { ...node, songIds: [...node.songIds.slice(0, insertAt), ...added, ...node.songIds.slice(insertAt)] };
+    });
+};
+
+export const removeSongsFromPlaylist = (nodes: PlaylistNode[], id: number, songIds: number[]): PlaylistNode[] => {
+    const removed = new Set(songIds);
+    return nodes.map(node => node.id === id ? { ...node, songIds: node.songIds.filter(songId => !removed.has(songId)) } : node);
+};
+
+export const reorderPlaylistSongs = (nodes: PlaylistNode[], id: number, fromIndex: number, toIndex: number): PlaylistNode[] => {
+    return nodes.map(node => {
+        if (node.id !== id || fromIndex < 0 || fromIndex >= node.songIds.length) return node;
+        const songIds = [...node.songIds];
+        const [moved] = songIds.splice(fromIndex, 1);
+        songIds.splice(Math.max(0, Math.min(toIndex, songIds.length)), 0, moved);
+        return { ...node, songIds };
+    });
+};
+
+// Resolves a playlist's songs from the library, dropping ids that are no longer in it.
+// Crates and smart crates follow library order; playlists keep their own.
+export const getPlaylistSongs = (node: PlaylistNode | undefined, library: Song[], context: RuleContext): Song[] => {
+    if (!node || node.type === 'folder') return [];
+    if (node.type === 'smartCrate') {
+        return evaluateSmartRules(library, node.rules ?? [], node.matchAll ?? true, context);
+    }
+    if (node.type === 'crate') {
+        const ids = new Set(node.songIds);
+        return library.filter(song => ids.has(song.id));
+    }
+    const songsById = new Map(library.map(song => [song.id, song]));
+    return node.songIds.flatMap(songId => songsById.get(songId) ?? []);
+};
@@ -0,0 +1,27 @@
+import type { Beatgrid, QuantizeResolution } from '../types';
+
+// --- Quantize ---
+// Grid lines run from the beatgrid's first downbeat in steps of the chosen
+// resolution, backwards as well as forwards, so the intro before the first
+// downbeat has lines too. Times are in track seconds.
+
+export const QUANTIZE_RESOLUTIONS: QuantizeResolution[] = [0.125, 0.25, 0.5, 1, 'bar'];
+
+// Tolerance for treating a position as already on a grid line
+const ON_GRID_EPSILON = 0.0005;
+
+export const getGridStep = (grid: Beatgrid, resolution: QuantizeResolution): number => {
+    const beats = resolution === 'bar' ? grid.beatsPerBar : resolution;
+    return beats * 60 / grid.bpm;
+};
+
+export const snapToGrid = (time: number, grid: Beatgrid, resolution: QuantizeResolution): number => {
+    const step = getGridStep(grid, resolution);
+    return Math.max(0, grid.firstDownbeat + Math.round((time - grid.firstDownbeat) / step) * step);
+};
+
+// The first grid line at or after `time`
+export const nextGridLine = (time: number, grid: Beatgrid, resolution: QuantizeResolution): number => {
+    const step = getGridStep(grid, resolution);
+    return grid.firstDownbeat + Math.ceil((time - grid.firstDownbeat - ON_GRID_EPSILON) / step) * step;
+};
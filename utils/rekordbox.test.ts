@@ -0,0 +1,80 @@
+// @vitest-environment jsdom
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import type { PlaylistNode } from '../types';
+import { parseRekordboxXml, exportRekordboxXml } from './rekordbox';
+import { mergeLibraryImport, type ImportedPlaylist } from './libraryImport';
+
+const fixture = readFileSync(join(__dirname, 'fixtures/rekordbox-collection.xml'), 'utf8');
+
+const playlistShape = (items: ImportedPlaylist[], fileNameById: Map<string, string>): unknown[] => items.map(item => ({
+    name: item.name,
+    type: item.type,
+    children: playlistShape(item.children, fileNameById),
+    files: item.trackIds.map(id => fileNameById.get(id)),
+}));
+
+describe('parseRekordboxXml', () => {
+    const data = parseRekordboxXml(fixture);
+    const [nightDrive, glass] = data.tracks;
+
+    it('reads track details, tonality and the grid', () => {
+        expect(nightDrive.fileName).toBe('Night Drive.mp3');
+        expect(nightDrive.details).toMatchObject({ title: 'Night Drive', artist: 'Lumen', genre: 'Deep House', year: 2021, bpm: 122, key: '8A', beatgridLocked: true });
+        // Inizio is beat 2 of the bar, so the first downbeat is three beats later
+        expect(nightDrive.details.beatgrid?.firstDownbeat).toBeCloseTo(0.148 + 3 * 60 / 122, 6);
+        expect(glass.fileName).toBe('Glass & Steel.wav');
+        expect(glass.details).toMatchObject({ title: 'Glass & Steel', bpm: 132.5, key: '11B' });
+    });
+
+    it('maps hot cues, loops and the memory cue', () => {
+        expect(nightDrive.details.cuePoints).toEqual([
+            { time: 0.148, type: 'cue', label: 'Intro', color: '#28e214' },
+            { time: 64.098, type: 'cue', label: 'Drop', color: '#e62828' },
+            { time: 96, end: 97.967, type: 'loop', label: 'Roll', color: '#ff8c00' },
+        ]);
+        expect(nightDrive.details.savedLoops).toEqual([{ start: 320, end: 327.869, label: 'Outro loop' }]);
+        expect(nightDrive.details.memoryCue).toBe(16.01);
+    });
+
+    it('reads playlists keyed by TrackID and by Location', () => {
+        const fileNameById = new Map(data.tracks.map(track => [track.id, track.fileName]));
+        expect(playlistShape(data.playlists, fileNameById)).toEqual([
+            { name: 'Gigs', type: 'folder', files: [], children: [
+                { name: 'Friday', type: 'playlist', children: [], files: ['Glass & Steel.wav', 'Night Drive.mp3'] },
+            ] },
+            { name: 'By location', type: 'playlist', children: [], files: ['Night Drive.mp3'] },
+        ]);
+    });
+
+    it('rejects other documents', () => {
+        expect(() => parseRekordboxXml('<NML VERSION="19"/>')).toThrow(/DJ_PLAYLISTS/);
+    });
+});
+
+describe('exportRekordboxXml', () => {
+    it('round-trips the fixture through the library', () => {
+        const imported = parseRekordboxXml(fixture);
+        const { library, playlists } = mergeLibraryImport([], [], imported);
+        const songsById = new Map(library.map(song => [song.id, song]));
+        const getPlaylistSongs = (node: PlaylistNode) => node.songIds.flatMap(id => songsById.get(id) ?? []);
+        // Everything sits in the 'Rekordbox' folder the merge creates
+        const exported = parseRekordboxXml(exportRekordboxXml(library, playlists, getPlaylistSongs, '/Users/dj/Music'));
+
+        expect(exported.tracks.map(track => track.fileName)).toEqual(imported.tracks.map(track => track.fileName));
+        exported.tracks.forEach((track, index) => {
+            const { beatgrid, ...details } = imported.tracks[index].details;
+            expect(track.details).toMatchObject(details);
+            if (beatgrid) {
+                expect(track.details.beatgrid?.bpm).toBe(beatgrid.bpm);
+                expect(track.details.beatgrid?.firstDownbeat).toBeCloseTo(beatgrid.firstDownbeat, 3);
+            }
+        });
+
+        const importedIds = new Map(imported.tracks.map(track => [track.id, track.fileName]));
+        const exportedIds = new Map(exported.tracks.map(track => [track.id, track.fileName]));
+        expect(exported.playlists).toHaveLength(1);
+        expect(playlistShape(exported.playlists[0].children, exportedIds)).toEqual(playlistShape(imported.playlists, importedIds));
+    });
+});
@@ -0,0 +1,231 @@
+import type { Song, PlaylistNode, Beatgrid, HotCue, SavedLoop, CueType } from '../types';
+import { parseKeyToCamelot, camelotToKeyName } from './key';
+import { fileNameFromLocation, xmlAttrs, toFileUrl, rgbToHex, hexToRgb, type LibraryImport, type ImportedTrack, type ImportedPlaylist, type ImportedSongDetails } from './libraryImport';
+
+// --- Rekordbox XML ---
+// Reads and writes the DJ_PLAYLISTS collection format (File > Export Collection in xml format).
+// Hot cues are POSITION_MARKs with Num 0-7, carrying a name, a Red/Green/Blue colour and
+// a Type; loops without a pad (Num -1) are saved loops. Of the other memory cues only the
+// earliest plain cue is kept, as the memory cue.
+
+const POSITION_MARK_CUE = '0';
+const POSITION_MARK_LOOP = '4';
+const POSITION_MARK_TYPES: CueType[] = ['cue', 'fadeIn', 'fadeOut', 'load', 'loop']; // By Type value
+const NODE_FOLDER = '0';
+const NODE_PLAYLIST = '1';
+const MAX_HOT_CUES = 8;
+
+const numberAttr = (element: Element, name: string): number | undefined => {
+    const value = parseFloat(element.getAttribute(name) ?? '');
+    return Number.isFinite(value) ? value : undefined;
+};
+
+const textAttr = (element: Element, name: string): string | undefined => {
+    return element.getAttribute(name)?.trim() || undefined;
+};
+
+// Rekordbox anchors its grid on any beat (Battito = position in the bar); we store the first downbeat
+const readBeatgrid = (track: Element): Beatgrid | undefined => {
+    const tempo = track.getElementsByTagName('TEMPO')[0];
+    if (!tempo) return undefined;
+    const bpm = numberAttr(tempo, 'Bpm');
+    const start = numberAttr(tempo, 'Inizio');
+    if (!bpm || start === undefined) return undefined;
+    const beatsPerBar = parseInt(tempo.getAttribute('Metro')?.split('/')[0] ?? '') || 4;
+    const beatInBar = numberAttr(tempo, 'Battito') ?? 1;
+    const beatLength = 60 / bpm;
+    const barLength = beatLength * beatsPerBar;
+    const downbeat = start + ((beatsPerBar - beatInBar + 1) % beatsPerBar) * beatLength;
+    return { bpm, firstDownbeat: ((downbeat % barLength) + barLength) % barLength, beatsPerBar };
+};
+
+const readTrack = (track: Element): ImportedTrack => {
+    const location = track.getAttribute('Location') ?? '';
+    const averageBpm = numberAttr(track, 'AverageBpm');
+    const tonality = textAttr(track, 'Tonality');
+    const key = tonality ? parseKeyToCamelot(tonality) ?? undefined : undefined;
+    const beatgrid = readBeatgrid(track);
+
+    const cuePoints: (HotCue | undefined)[] = [];
+    const savedLoops: SavedLoop[] = [];
+    let memoryCue: number | undefined;
+    Array.from(track.getElementsByTagName('POSITION_MARK')).forEach(mark => {
+        const start = numberAttr(mark, 'Start');
+        const num = numberAttr(mark, 'Num') ?? -1;
+        const label = textAttr(mark, 'Name');
+        const type = POSITION_MARK_TYPES[numberAttr(mark, 'Type') ?? -1];
+        const end = numberAttr(mark, 'End');
+        if (start === undefined || !type) return;
+        if (num >= 0 && num < MAX_HOT_CUES) {
+            if (type === 'loop' && !(end !== undefined && end > start)) return;
+            const cue: HotCue = { time: start, type };
+            if (type === 'loop') cue.end = end;
+            if (label) cue.label = label;
+            const [red, green, blue] = ['Red', 'Green', 'Blue'].map(name => numberAttr(mark, name));
+            if (red !== undefined && green !== undefined && blue !== undefined) cue.color = rgbToHex(red, green, blue);
+            cuePoints[num] = cue;
+        } else if (num < 0 && type === 'loop') {
+            if (end !== undefined && end > start) savedLoops.push(label ? { start, end, label } : { start, end });
+        } else if (num < 0 && type === 'cue') {
+            memoryCue = Math.min(memoryCue ?? Infinity, start);
+        }
+    });
+
+    const details: ImportedSongDetails = {
+        title: textAttr(track, 'Name'),
+        artist: textAttr(track, 'Artist'),
+        album: textAttr(track, 'Album'),
+        genre: textAttr(track, 'Genre'),
+        taggedGenre: textAttr(track, 'Genre'),
+        year: numberAttr(track, 'Year') || undefined,
+        comment: textAttr(track, 'Comments'),
+        bpm: averageBpm || undefined,
+        taggedBpm: averageBpm || undefined,
+        key,
+        taggedKey: key,
+        beatgrid,
+        beatgridLocked: beatgrid ? true : undefined,
+        cuePoints: cuePoints.length > 0 ? cuePoints : undefined,
+        memoryCue,
+        savedLoops: savedLoops.length > 0 ? savedLoops : undefined,
+    };
+    return { id: track.getAttribute('TrackID') ?? location, fileName: fileNameFromLocation(location), details };
+};
+
+const readPlaylistNode = (node: Element, trackIdByLocation: Map<string, string>): ImportedPlaylist => {
+    const children = Array.from(node.children).filter(child => child.tagName === 'NODE');
+    if (node.getAttribute('Type') === NODE_PLAYLIST) {
+        // KeyType 0 refers to TrackIDs, KeyType 1 to Locations
+        const byLocation = node.getAttribute('KeyType') === '1';
+        const trackIds = Array.from(node.children)
+            .filter(child => child.tagName === 'TRACK')
+            .map(child => child.getAttribute('Key') ?? '')
+            .map(key => byLocation ? trackIdByLocation.get(key) ?? key : key);
+        return { name: node.getAttribute('Name') ?? 'Playlist', type: 'playlist', children: [], trackIds };
+    }
+    return {
+        name: node.getAttribute('Name') ?? 'Folder',
+        type: 'folder',
+        children: children.map(child => readPlaylistNode(child, trackIdByLocation)),
+        trackIds: [],
+    };
+};
+
+export const parseRekordboxXml = (xml: string): LibraryImport => {
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0 || doc.documentElement.tagName !== 'DJ_PLAYLISTS') {
+        throw new Error("Not a Rekordbox collection XML file (expected a DJ_PLAYLISTS document).");
+    }
+
+    const collection = doc.getElementsByTagName('COLLECTION')[0];
+    const trackElements = collection ? Array.from(collection.children).filter(child => child.tagName === 'TRACK') : [];
+    const tracks = trackElements.map(readTrack);
+    const trackIdByLocation = new Map(trackElements.map((element, i) => [element.getAttribute('Location') ?? '', tracks[i].id]));
+
+    // The ROOT folder itself isn't imported, only what's inside it
+    const root = doc.getElementsByTagName('PLAYLISTS')[0]?.getElementsByTagName('NODE')[0];
+    const playlists = root
+        ? Array.from(root.children).filter(child => child.tagName === 'NODE').map(node => readPlaylistNode(node, trackIdByLocation))
+        : [];
+
+    return { source: 'Rekordbox', tracks, playlists };
+};
+
+// --- Export ---
+
+const formatSeconds = (seconds: number) => seconds.toFixed(3);
+
+const trackXml = (song: Song, trackId: number, musicFolder: string): string => {
+    const extension = song.name.split('.').pop()?.toUpperCase() ?? '';
+    const children: string[] = [];
+
+    if (song.beatgrid) {
+        children.push(`<TEMPO ${xmlAttrs({
+            Inizio: formatSeconds(song.beatgrid.firstDownbeat),
+            Bpm: song.beatgrid.bpm.toFixed(2),
+            Metro: `${song.beatgrid.beatsPerBar}/4`,
+            Battito: 1,
+        })}/>`);
+    }
+    if (song.memoryCue !== undefined) {
+        children.push(`<POSITION_MARK ${xmlAttrs({ Name: '', Type: POSITION_MARK_CUE, Start: formatSeconds(song.memoryCue), Num: -1 })}/>`);
+    }
+    song.cuePoints?.forEach((cue, num) => {
+        if (cue === undefined) return;
+        const [red, green, blue] = hexToRgb(cue.color ?? '') ?? [];
+        const isLoop = cue.type === 'loop' && cue.end !== undefined;
+        children.push(`<POSITION_MARK ${xmlAttrs({
+            Name: cue.label ?? '',
+            Type: isLoop ? POSITION_MARK_LOOP : POSITION_MARK_TYPES.indexOf(cue.type === 'loop' ? 'cue' : cue.type),
+            Start: formatSeconds(cue.time),
+            End: isLoop ? formatSeconds(cue.end!) : undefined,
+            Num: num, Red: red, Green: green, Blue: blue,
+        })}/>`);
+    });
+    song.savedLoops?.forEach(loop => {
+        children.push(`<POSITION_MARK ${xmlAttrs({ Name: loop.label ?? '', Type: POSITION_MARK_LOOP, Start: formatSeconds(loop.start), End: formatSeconds(loop.end), Num: -1 })}/>`);
+    });
+
+    const trackAttrs = xmlAttrs({
+        TrackID: trackId,
+        Name: song.title ?? song.name.replace(/\.[^.]+$/, ''),
+        Artist: song.artist,
+        Album: song.album,
+        Genre: song.genre,
+        Kind: extension ? `${extension} File` : undefined,
+        Size: song.file.size || undefined,
+        Year: song.year,
+        AverageBpm: song.bpm ? song.bpm.toFixed(2) : undefined,
+        Comments: song.comment,
+        Tonality: song.key ? camelotToKeyName(song.key) ?? undefined : undefined,
+        Location: toFileUrl(musicFolder, song.name),
+    });
+    return children.length > 0
+        ? `    <TRACK ${trackAttrs}>\n${children.map(child => `      ${child}`).join('\n')}\n    </TRACK>`
+        : `    <TRACK ${trackAttrs}/>`;
+};
+
+// Playlist contents come from the caller so smart crates are exported as their current result
+export const exportRekordboxXml = (
+    library: Song[],
+    playlists: PlaylistNode[],
+    getPlaylistSongs: (node: PlaylistNode) => Song[],
+    musicFolder = '',
+): string => {
+    const trackIds = new Map(library.map((song, index) => [song.id, index + 1]));
+
+    const nodeXml = (node: PlaylistNode, depth: number): string => {
+        const indent = '  '.repeat(depth);
+        if (node.type === 'folder') {
+            const children = playlists.filter(child => child.parentId === node.id);
+            return [
+                `${indent}<NODE ${xmlAttrs({ Type: NODE_FOLDER, Name: node.name, Count: children.length })}>`,
+                ...children.map(child => nodeXml(child, depth + 1)),
+                `${indent}</NODE>`,
+            ].join('\n');
+        }
+        const keys = getPlaylistSongs(node).flatMap(song => trackIds.get(song.id) ?? []);
+        return [
+            `${indent}<NODE ${xmlAttrs({ Name: node.name, Type: NODE_PLAYLIST, KeyType: 0, Entries: keys.length })}>`,
+            ...keys.map(key => `${indent}  <TRACK Key="${key}"/>`),
+            `${indent}</NODE>`,
+        ].join('\n');
+    };
+
+    const topLevel = playlists.filter(node => node.parentId === null);
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<DJ_PLAYLISTS Version="1.0.0">',
+        '  <PRODUCT Name="Pro DJ Remix Studio" Version="1.0.0" Company=""/>',
+        `  <COLLECTION Entries="${library.length}">`,
+        ...library.map(song => trackXml(song, trackIds.get(song.id)!, musicFolder)),
+        '  </COLLECTION>',
+        '  <PLAYLISTS>',
+        `    <NODE Type="${NODE_FOLDER}" Name="ROOT" Count="${topLevel.length}">`,
+        ...topLevel.map(node => nodeXml(node, 3)),
+        '    </NODE>',
+        '  </PLAYLISTS>',
+        '</DJ_PLAYLISTS>',
+        '',
+    ].join('\n');
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import type { Song } from '../types';
+import { parseSearchQuery, searchLibrary } from './searchQuery';
+
+const song = (id: number, name: string, details: Partial<Song> = {}): Song => ({ id, name, file: new File([], name), ...details });
+
+const library = [
+    song(1, 'Intro: Remix.mp3', { bpm: 124, key: '8A' }),
+    song(2, 'Set 12:30.mp3', { bpm: 128, key: '9A' }),
+    song(3, 'Closer.mp3', { bpm: 140, genre: 'Techno' }),
+];
+
+describe('parseSearchQuery', () => {
+    it('reads fields, alternatives and plain words', () => {
+        expect(parseSearchQuery('bpm:120-126|>135 genre:techno closer').ast).toEqual({
+            type: 'and',
+            children: [
+                { type: 'numberField', field: 'bpm', filters: [{ type: 'range', min: 120, max: 126 }, { type: 'compare', comparison: '>', value: 135 }] },
+                { type: 'textField', field: 'genre', values: ['techno'] },
+                { type: 'text', value: 'closer' },
+            ],
+        });
+    });
+
+    it('treats words with an unknown field as plain text', () => {
+        expect(parseSearchQuery('12:30').ast).toEqual({ type: 'text', value: '12:30' });
+        expect(parseSearchQuery('Intro: remix')).toEqual({
+            ast: { type: 'and', children: [{ type: 'text', value: 'Intro:' }, { type: 'text', value: 'remix' }] },
+            error: null,
+        });
+    });
+
+    it('points errors at the alternative that is wrong', () => {
+        expect(parseSearchQuery('key:8A|zz').error).toMatchObject({ position: 7 });
+        expect(parseSearchQuery('genre:house bpm:120|fast').error).toMatchObject({ position: 20 });
+        expect(parseSearchQuery('color:red|').error).toMatchObject({ message: 'Missing value after "color:".', position: 10 });
+    });
+});
+
+describe('searchLibrary', () => {
+    it('filters by a word that looks like a field', () => {
+        expect(searchLibrary(library, 'Intro: remix', { playHistory: [] }).songs.map(s => s.id)).toEqual([1]);
+        expect(searchLibrary(library, '12:30', { playHistory: [] }).songs.map(s => s.id)).toEqual([2]);
+    });
+
+    it('returns the library unfiltered with the error for a malformed query', () => {
+        const result = searchLibrary(library, 'bpm:fast', { playHistory: [] });
+        expect(result.songs).toBe(library);
+        expect(result.error?.position).toBe(4);
+    });
+});
@@ -0,0 +1,325 @@
+import type { Song, NumericComparison, TrackColor } from '../types';
+import type { SongPredicate, RuleContext } from './trackRules';
+import { parseKeyToCamelot } from './key';
+import { normalizeTag } from './songLabels';
+import { TRACK_COLORS } from '../constants';
+
+// --- Library Search Queries ---
+// A small query language for the library search boxes, e.g.
+//   bpm:120-128 key:8A|9A energy:>6 genre:"Deep House" -artist:foo played:never
+//   rating:>=4 color:red|orange tag:vocal
+// Terms are ANDed; OR and parentheses combine them, '-' negates a term or group,
+// and '|' lists alternatives for one field. Words without a field match title,
+// artist, album, genre, comment or file name. Text matches are case-insensitive
+// substrings; numbers take a value, a range (120-128) or a comparison (>6).
+// Colours and tags match whole names; rating:0 finds unrated tracks. A word whose
+// 'field:' isn't one of ours (12:30, Intro:) is plain text.
+
+export type TextField = 'title' | 'artist' | 'album' | 'genre' | 'comment' | 'file';
+export type NumberField = 'bpm' | 'energy' | 'year' | 'played' | 'rating';
+
+export type NumberFilter =
+    | { type: 'range'; min: number; max: number }
+    | { type: 'compare'; comparison: NumericComparison; value: number };
+
+export type SearchNode =
+    | { type: 'and'; children: SearchNode[] }
+    | { type: 'or'; children: SearchNode[] }
+    | { type: 'not'; child: SearchNode }
+    | { type: 'text'; value: string } // Any text field
+    | { type: 'textField'; field: TextField; values: string[] }
+    | { type: 'numberField'; field: NumberField; filters: NumberFilter[] }
+    | { type: 'key'; keys: string[] } // Camelot
+    | { type: 'color'; colors: TrackColor[] }
+    | { type: 'tag'; tags: string[] };
+
+export interface SearchQueryError {
+    message: string;
+    position: number; // Index into the query string
+}
+
+export interface SearchQueryResult {
+    ast: SearchNode | null; // null for an empty query, which matches everything
+    error: SearchQueryError | null;
+}
+
+const TEXT_FIELDS: Record<TextField, (song: Song) => string | undefined> = {
+    title: song => song.title ?? song.name,
+    artist: song => song.artist,
+    album: song => song.album,
+    genre: song => song.genre,
+    comment: song => song.comment,
+    file: song => song.name,
+};
+
+const NUMBER_FIELDS: NumberField[] = ['bpm', 'energy', 'year', 'played', 'rating'];
+const FIELD_NAMES = [...Object.keys(TEXT_FIELDS), ...NUMBER_FIELDS, 'key', 'color', 'tag'];
+
+// --- Tokenizer ---
+
+type Token =
+    | { type: '(' | ')' | '-' | 'OR' | 'AND'; position: number }
+    | { type: 'term'; position: number; text: string; field: string | null; values: string[]; valuePositions: number[] };
+
+const queryError = (message: string, position: number) => Object.assign(new Error(message), { position });
+
+const tokenize = (query: string): Token[] => {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < query.length) {
+        const char = query[i];
+        if (/\s/.test(char)) {
+            i++;
+        } else if (char === '(' || char === ')') {
+            tokens.push({ type: char, position: i++ });
+        } else if (char === '-' && i + 1 < query.length && !/\s/.test(query[i + 1])) {
+            tokens.push({ type: '-', position: i++ });
+        } else {
+            // One term: an optional unquoted 'field:' then '|'-separated values, any of them quoted
+            // `text` is the whole term without its quotes, for when the field turns out to be unknown
+            const start = i;
+            let field: string | null = null;
+            const values: string[] = [];
+            const valuePositions: number[] = [];
+            let valueStart = start;
+            let buffer = '';
+            let text = '';
+            let wasQuoted = false;
+            while (i < query.length && !/[\s()]/.test(query[i])) {
+                if (query[i] === '"') {
+                    const end = query.indexOf('"', i + 1);
+                    if (end === -1) throw queryError('Unclosed quote.', i);
+                    buffer += query.slice(i + 1, end);
+                    text += query.slice(i + 1, end);
+                    wasQuoted = true;
+                    i = end + 1;
+                } else if (query[i] === ':' && field === null && !wasQuoted && buffer) {
+                    field = buffer.toLowerCase();
+                    buffer = '';
+                    text += query[i++];
+                    valueStart = i;
+                } else if (query[i] === '|' && field !== null) {
+                    values.push(buffer);
+                    valuePositions.push(valueStart);
+                    buffer = '';
+                    text += query[i++];
+                    valueStart = i;
+                } else {
+                    text += query[i];
+                    buffer += query[i++];
+                }
+            }
+            values.push(buffer);
+            valuePositions.push(valueStart);
+            if (field === null && !wasQuoted && (buffer === 'OR' || buffer === 'AND')) {
+                tokens.push({ type: buffer, position: start });
+            } else {
+                tokens.push({ type: 'term', position: start, text, field, values, valuePositions });
+            }
+        }
+    }
+    return tokens;
+};
+
+// --- Parser ---
+
+const parseNumberFilter = (value: string, field: NumberField, position: number): NumberFilter => {
+    if (field === 'played' && value.toLowerCase() === 'never') return { type: 'compare', comparison: '=', value: 0 };
+    const range = value.match(/^(\d+(?:\.\d+)?)-(\d+(?:\.\d+)?)$/);
+    if (range) {
+        const [min, max] = [parseFloat(range[1]), parseFloat(range[2])];
+        return { type: 'range', min: Math.min(min, max), max: Math.max(min, max) };
+    }
+    const comparison = value.match(/^(<=|>=|<|>|=)?(\d+(?:\.\d+)?)$/);
+    if (comparison) {
+        return { type: 'compare', comparison: (comparison[1] ?? '=') as NumericComparison, value: parseFloat(comparison[2]) };
+    }
+    const hint = field === 'played' ? ', a comparison like >2, or never' : ' or a comparison like >6';
+    throw queryError(`"${value}" is not a valid ${field} value. Use a number, a range like 120-128${hint}.`, position);
+};
+
+const parseTerm = (token: Extract<Token, { type: 'term' }>): SearchNode => {
+    if (token.field === null || !FIELD_NAMES.includes(token.field)) return { type: 'text', value: token.text };
+    const field = token.field;
+    const { valuePositions } = token;
+    const missing = token.values.findIndex(value => !value);
+    if (missing >= 0) {
+        throw queryError(`Missing value after "${field}:".`, valuePositions[missing]);
+    }
+    if (Object.hasOwn(TEXT_FIELDS, field)) {
+        return { type: 'textField', field: field as TextField, values: token.values };
+    }
+    if ((NUMBER_FIELDS as string[]).includes(field)) {
+        const filters = token.values.map((value, i) => parseNumberFilter(value, field as NumberField, valuePositions[i]));
+        return { type: 'numberField', field: field as NumberField, filters };
+    }
+    if (field === 'key') {
+        const keys = token.values.map((value, i) => {
+            const key = parseKeyToCamelot(value);
+            if (!key) throw queryError(`"${value}" is not a key. Use Camelot (8A), Open Key (1m) or a name (Am).`, valuePositions[i]);
+            return key;
+        });
+        return { type: 'key', keys };
+    }
+    if (field === 'color') {
+        const colors = token.values.map((value, i) => {
+            const color = value.toLowerCase();
+            if (!Object.hasOwn(TRACK_COLORS, color)) throw queryError(`"${value}" is not a colour label. Use one of: ${Object.keys(TRACK_COLORS).join(', ')}.`, valuePositions[i]);
+            return color as TrackColor;
+        });
+        return { type: 'color', colors };
+    }
+    return { type: 'tag', tags: token.values.map(normalizeTag) };
+};
+
+const parseTokens = (tokens: Token[], queryLength: number): SearchNode => {
+    let index = 0;
+    const peek = () => tokens[index];
+
+    const parseOr = (): SearchNode => {
+        const children = [parseAnd()];
+        while (peek()?.type === 'OR') {
+            index++;
+            children.push(parseAnd());
+        }
+        return children.length === 1 ? children[0] : { type: 'or', children };
+    };
+
+    const parseAnd = (): SearchNode => {
+        const children = [parseUnary()];
+        while (peek() && peek().type !== 'OR' && peek().type !== ')') {
+            if (peek().type === 'AND') index++;
+            children.push(parseUnary());
+        }
+        return children.length === 1 ? children[0] : { type: 'and', children };
+    };
+
+    const parseUnary = (): SearchNode => {
+        const token = peek();
+        if (!token) throw queryError('The query ends where a search term was expected.', queryLength);
+        index++;
+        switch (token.type) {
+            case '-':
+                return { type: 'not', child: parseUnary() };
+            case '(': {
+                const node = parseOr();
+                if (peek()?.type !== ')') throw queryError('Missing closing parenthesis.', token.position);
+                index++;
+                return node;
+            }
+            case 'term':
+                return parseTerm(token);
+            default:
+                throw queryError(`Unexpected "${token.type}" where a search term was expected.`, token.position);
+        }
+    };
+
+    const ast = parseOr();
+    if (index < tokens.length) {
+        const token = tokens[index];
+        throw queryError(token.type === ')' ? 'Unmatched closing parenthesis.' : 'Unexpected text.', token.position);
+    }
+    return ast;
+};
+
+export const parseSearchQuery = (query: string): SearchQueryResult => {
+    try {
+        const tokens = tokenize(query);
+        if (tokens.length === 0) return { ast: null, error: null };
+        return { ast: parseTokens(tokens, query.length), error: null };
+    } catch (error) {
+        const position = (error as { position?: number }).position ?? 0;
+        return { ast: null, error: { message: error instanceof Error ? error.message : String(error), position } };
+    }
+};
+
+// --- Evaluation ---
+
+const matchesNumber = (value: number, filter: NumberFilter): boolean => {
+    if (filter.type === 'range') return value >= filter.min && value <= filter.max;
+    switch (filter.comparison) {
+        case '<': return value < filter.value;
+        case '<=': return value <= filter.value;
+        // Equality at the precision the user typed, so bpm:128 matches 127.96
+        case '=': return Math.abs(value - filter.value) < 0.5 * 10 ** -((String(filter.value).split('.')[1] ?? '').length);
+        case '>=': return value >= filter.value;
+        case '>': return value > filter.value;
+    }
+};
+
+export const compileSearchQuery = (ast: SearchNode | null, context: RuleContext): SongPredicate => {
+    if (!ast) return () => true;
+
+    let playCounts: Map<number, number> | null = null;
+    const getPlayCount = (song: Song) => {
+        if (!playCounts) {
+            playCounts = new Map();
+            context.playHistory.forEach(session => session.songIds.forEach(id => playCounts!.set(id, (playCounts!.get(id) ?? 0) + 1)));
+        }
+        return playCounts.get(song.id) ?? 0;
+    };
+    const numberValue = (song: Song, field: NumberField): number | undefined => {
+        switch (field) {
+            case 'bpm': return song.bpm ?? undefined;
+            case 'energy': return song.energy;
+            case 'year': return song.year;
+            case 'played': return getPlayCount(song);
+            case 'rating': return song.rating ?? 0;
+        }
+    };
+
+    const compile = (node: SearchNode): SongPredicate => {
+        switch (node.type) {
+            case 'and': {
+                const children = node.children.map(compile);
+                return song => children.every(predicate => predicate(song));
+            }
+            case 'or': {
+                const children = node.children.map(compile);
+                return song => children.some(predicate => predicate(song));
+            }
+            case 'not': {
+                const child = compile(node.child);
+                return song => !child(song);
+            }
+            case 'text': {
+                const value = node.value.toLowerCase();
+                const getters = Object.values(TEXT_FIELDS);
+                return song => getters.some(get => get(song)?.toLowerCase().includes(value));
+            }
+            case 'textField': {
+                const get = TEXT_FIELDS[node.field];
+                const values = node.values.map(value => value.toLowerCase());
+                return song => {
+                    const text = get(song)?.toLowerCase();
+                    return !!text && values.some(value => text.includes(value));
+                };
+            }
+            case 'numberField':
+                // Songs without the value (e.g. not analyzed yet) don't match
+                return song => {
+                    const value = numberValue(song, node.field);
+                    return value !== undefined && node.filters.some(filter => matchesNumber(value, filter));
+                };
+            case 'key': {
+                const keys = new Set(node.keys);
+                return song => !!song.key && keys.has(song.key);
+            }
+            case 'color': {
+                const colors = new Set(node.colors);
+                return song => !!song.color && colors.has(song.color);
+            }
+            case 'tag':
+                return song => node.tags.some(tag => song.tags?.includes(tag));
+        }
+    };
+    return compile(ast);
+};
+
+// Parses and filters in one go; on a malformed query the library comes back unfiltered with the error
+export const searchLibrary = (library: Song[], query: string, context: RuleContext): { songs: Song[], error: SearchQueryError | null } => {
+    const { ast, error } = parseSearchQuery(query);
+    if (error) return { songs: library, error };
+    const predicate = compileSearchQuery(ast, context);
+    return { songs: library.filter(predicate), error: null };
+};
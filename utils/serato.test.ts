@@ -0,0 +1,79 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import type { PlaylistNode } from '../types';
+import {
+    decodeSeratoMarkers2, encodeSeratoMarkers2, decodeSeratoMarkers2Comment, encodeSeratoMarkers2Comment,
+    parseSeratoCrate, encodeSeratoCrate, parseSeratoCrateFiles, toSeratoCrateFileName, toSeratoPath,
+} from './serato';
+
+const readFixture = (name: string) => new Uint8Array(readFileSync(join(__dirname, 'fixtures', name)));
+
+describe('Serato Markers2', () => {
+    const fixture = readFixture('serato-markers2.bin');
+
+    it('decodes cues and loops from a GEOB body', () => {
+        expect(decodeSeratoMarkers2(fixture)).toEqual({
+            cuePoints: [
+                { time: 0.148, type: 'cue', color: '#cc0000', label: 'Intro' },
+                undefined,
+                undefined,
+                { time: 64.098, type: 'cue', color: '#00cc00' },
+            ],
+            savedLoops: [{ start: 320, end: 327.869, label: 'Outro' }],
+        });
+    });
+
+    it('writes what it reads, padded like Serato', () => {
+        const { cuePoints, savedLoops } = decodeSeratoMarkers2(fixture)!;
+        const encoded = encodeSeratoMarkers2(cuePoints, savedLoops);
+        expect(encoded.length).toBe(470);
+        expect(decodeSeratoMarkers2(encoded)).toEqual({ cuePoints, savedLoops });
+    });
+
+    it('round-trips through the FLAC Vorbis comment', () => {
+        const cuePoints = [{ time: 1.5, type: 'cue' as const, label: 'Vox', color: '#112233' }];
+        const savedLoops = [{ start: 8, end: 12 }];
+        expect(decodeSeratoMarkers2Comment(encodeSeratoMarkers2Comment(cuePoints, savedLoops))).toEqual({ cuePoints, savedLoops });
+    });
+
+    it('rejects other data', () => {
+        expect(decodeSeratoMarkers2(new Uint8Array([2, 1, 0]))).toBeNull();
+    });
+});
+
+describe('Serato crates', () => {
+    const friday = readFixture('Gigs%%Friday.crate');
+
+    it('reads track paths from a crate file', () => {
+        expect(parseSeratoCrate(friday)).toEqual(['Users/dj/Music/Night Drive.mp3', 'Users/dj/Music/Techno/Glass & Steel.wav']);
+    });
+
+    it('writes crates it can read back', () => {
+        const paths = ['Users/dj/Music/Night Drive.mp3', 'Music/Ünïcode – track.flac'];
+        expect(parseSeratoCrate(encodeSeratoCrate(paths))).toEqual(paths);
+    });
+
+    it('imports crate files as nested crates sharing tracks', () => {
+        const data = parseSeratoCrateFiles([
+            { fileName: 'Warm-up.crate', bytes: readFixture('Warm-up.crate') },
+            { fileName: 'Gigs%%Friday.crate', bytes: friday },
+        ]);
+        expect(data.tracks.map(track => track.fileName)).toEqual(['Night Drive.mp3', 'Glass & Steel.wav']);
+        expect(data.playlists).toEqual([
+            { name: 'Gigs', type: 'folder', trackIds: [], children: [
+                { name: 'Friday', type: 'crate', children: [], trackIds: ['Users/dj/Music/Night Drive.mp3', 'Users/dj/Music/Techno/Glass & Steel.wav'] },
+            ] },
+            { name: 'Warm-up', type: 'crate', children: [], trackIds: ['Users/dj/Music/Night Drive.mp3'] },
+        ]);
+    });
+
+    it('names nested crate files and paths the way Serato does', () => {
+        const nodes: PlaylistNode[] = [
+            { id: 1, type: 'folder', name: 'Gigs', parentId: null, songIds: [] },
+            { id: 2, type: 'crate', name: 'Fri/Sat', parentId: 1, songIds: [] },
+        ];
+        expect(toSeratoCrateFileName(nodes, nodes[1])).toBe('Gigs%%Fri_Sat.crate');
+        expect(toSeratoPath('C:\\Music\\House', 'Track.mp3')).toBe('Music/House/Track.mp3');
+    });
+});
@@ -0,0 +1,244 @@
+import type { SavedLoop, PlaylistNode, HotCue } from '../types';
+import { concatBytes } from './bytes';
+import { fileNameFromLocation, rgbToHex, hexToRgb, type LibraryImport, type ImportedTrack, type ImportedPlaylist } from './libraryImport';
+import { HOT_CUE_COLORS } from '../constants';
+
+// --- Serato Metadata ---
+// Serato keeps cue points in a "Serato Markers2" blob: an ID3 GEOB frame in MP3s and
+// a base64 SERATO_MARKERS_V2 Vorbis comment in FLACs. Rekordbox, Traktor and Mixxx
+// all read it, which makes it the most portable way to carry cues inside the file.
+// Crates are separate binary .crate files listing track paths.
+
+export const SERATO_MARKERS2_DESCRIPTION = 'Serato Markers2';
+
+const encoder = new TextEncoder();
+
+const MAX_LOOPS = 8;
+
+const toBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+    return btoa(binary);
+};
+
+// Tolerates Serato's line breaks, missing '=' padding and the stray trailing character it sometimes writes
+const fromBase64 = (text: string): Uint8Array => {
+    let clean = text.replace(/[^A-Za-z0-9+/]/g, '');
+    if (clean.length % 4 === 1) clean = clean.slice(0, -1);
+    clean += '='.repeat((4 - clean.length % 4) % 4);
+    return Uint8Array.from(atob(clean), char => char.charCodeAt(0));
+};
+
+const readTerminated = (bytes: Uint8Array, offset: number): { text: string, end: number } => {
+    let end = offset;
+    while (end < bytes.length && bytes[end] !== 0) end++;
+    return { text: new TextDecoder().decode(bytes.subarray(offset, end)), end: end + 1 };
+};
+
+const markerEntry = (type: string, data: Uint8Array): Uint8Array => {
+    const header = new Uint8Array(type.length + 5);
+    header.set(encoder.encode(type));
+    new DataView(header.buffer).setUint32(type.length + 1, data.length);
+    return concatBytes([header, data]);
+};
+
+const cueEntry = (index: number, cue: HotCue): Uint8Array => {
+    const name = encoder.encode(cue.label ?? '');
+    const data = new Uint8Array(13 + name.length);
+    const view = new DataView(data.buffer);
+    data[1] = index;
+    view.setUint32(2, Math.round(cue.time * 1000));
+    const color = hexToRgb(cue.color ?? '') ?? hexToRgb(HOT_CUE_COLORS[index % HOT_CUE_COLORS.length])!;
+    data.set(color, 7);
+    // bytes 10-11 are reserved, then the null-terminated cue name
+    data.set(name, 12);
+    return markerEntry('CUE', data);
+};
+
+const loopEntry = (index: number, loop: SavedLoop): Uint8Array => {
+    const name = encoder.encode(loop.label ?? '');
+    const data = new Uint8Array(21 + name.length);
+    const view = new DataView(data.buffer);
+    data[1] = index;
+    view.setUint32(2, Math.round(loop.start * 1000));
+    view.setUint32(6, Math.round(loop.end * 1000));
+    view.setUint32(10, 0xffffffff);
+    view.setUint32(14, 0x0027aae1); // Serato's default loop colour
+    // byte 19 is the lock flag, then the null-terminated loop name
+    data.set(name, 20);
+    return markerEntry('LOOP', data);
+};
+
+// Body of the Markers2 GEOB frame. Cue slots without a time are skipped. Serato has no
+// cue types, so fade, load and loop cues are written as plain cues at their start.
+export const encodeSeratoMarkers2 = (cuePoints: (HotCue | undefined)[], savedLoops: SavedLoop[] = []): Uint8Array => {
+    const entries = [
+        markerEntry('COLOR', new Uint8Array([0, 0xff, 0xff, 0xff])),
+        ...cuePoints.flatMap((cue, index) => cue === undefined ? [] : [cueEntry(index, cue)]),
+        ...savedLoops.slice(0, MAX_LOOPS).map((loop, index) => loopEntry(index, loop)),
+        markerEntry('BPMLOCK', new Uint8Array([0])),
+    ];
+    const payload = concatBytes([new Uint8Array([1, 1]), ...entries, new Uint8Array([0])]);
+    // Serato wraps the base64 at 72 columns, omits '=' padding and pads the frame to 470 bytes
+    const base64 = toBase64(payload).replace(/=+$/, '').replace(/(.{72})(?=.)/g, '$1\n');
+    const body = new Uint8Array(Math.max(470, base64.length + 3));
+    body.set([1, 1]);
+    body.set(encoder.encode(base64), 2);
+    return body;
+};
+
+// FLAC stores the whole GEOB frame body (MIME type, file name, description, data) base64-encoded
+export const encodeSeratoMarkers2Comment = (cuePoints: (HotCue | undefined)[], savedLoops: SavedLoop[] = []): string => {
+    const header = encoder.encode(`application/octet-stream\0\0${SERATO_MARKERS2_DESCRIPTION}\0`);
+    return toBase64(concatBytes([header, encodeSeratoMarkers2(cuePoints, savedLoops)]));
+};
+
+export interface SeratoMarkers {
+    cuePoints: (HotCue | undefined)[];
+    savedLoops: SavedLoop[];
+}
+
+// Reads hot cues and saved loops from a Markers2 GEOB body; other entry types are skipped
+export const decodeSeratoMarkers2 = (object: Uint8Array): SeratoMarkers | null => {
+    if (object[0] !== 1 || object[1] !== 1) return null;
+    const { text } = readTerminated(object, 2);
+    const payload = fromBase64(text);
+    if (payload[0] !== 1 || payload[1] !== 1) return null;
+
+    const view = new DataView(payload.buffer);
+    const markers: SeratoMarkers = { cuePoints: [], savedLoops: [] };
+    let cursor = 2;
+    while (cursor < payload.length) {
+        const { text: type, end } = readTerminated(payload, cursor);
+        if (!type || end + 4 > payload.length) break;
+        const length = view.getUint32(end);
+        const dataStart = end + 4;
+        if (type === 'CUE' && length >= 6) {
+            const cue: HotCue = { time: view.getUint32(dataStart + 2) / 1000, type: 'cue' };
+            if (length >= 10) cue.color = rgbToHex(payload[dataStart + 7], payload[dataStart + 8], payload[dataStart + 9]);
+            const label = length > 12 ? readTerminated(payload.subarray(0, dataStart + length), dataStart + 12).text : '';
+            if (label) cue.label = label;
+            markers.cuePoints[payload[dataStart + 1]] = cue;
+        } else if (type === 'LOOP' && length >= 10) {
+            const start = view.getUint32(dataStart + 2) / 1000;
+            const loopEnd = view.getUint32(dataStart + 6) / 1000;
+            const label = length > 20 ? readTerminated(payload.subarray(0, dataStart + length), dataStart + 20).text : '';
+            if (loopEnd > start) markers.savedLoops.push(label ? { start, end: loopEnd, label } : { start, end: loopEnd });
+        }
+        cursor = dataStart + length;
+    }
+    return markers;
+};
+
+// Decodes a SERATO_MARKERS_V2 Vorbis comment: skip the MIME type, file name and description
+export const decodeSeratoMarkers2Comment = (value: string): SeratoMarkers | null => {
+    const frame = fromBase64(value);
+    let cursor = 0;
+    for (let i = 0; i < 3; i++) cursor = readTerminated(frame, cursor).end;
+    return decodeSeratoMarkers2(frame.subarray(cursor));
+};
+
+// --- Crates ---
+// A .crate is a list of [4-byte tag][u32 length][data] records. Strings are UTF-16BE;
+// 'otrk' records hold a nested 'ptrk' with the track path relative to the drive root.
+// Nested crates are encoded in the file name: 'Parent%%Child.crate'.
+
+export const SERATO_SUBCRATE_SEPARATOR = '%%';
+
+const encodeUtf16be = (text: string): Uint8Array => {
+    const bytes = new Uint8Array(text.length * 2);
+    const view = new DataView(bytes.buffer);
+    for (let i = 0; i < text.length; i++) view.setUint16(i * 2, text.charCodeAt(i));
+    return bytes;
+};
+
+const crateRecord = (tag: string, data: Uint8Array): Uint8Array => {
+    const header = new Uint8Array(8);
+    header.set(encoder.encode(tag));
+    new DataView(header.buffer).setUint32(4, data.length);
+    return concatBytes([header, data]);
+};
+
+const readCrateRecords = (bytes: Uint8Array): { tag: string, data: Uint8Array }[] => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const records: { tag: string, data: Uint8Array }[] = [];
+    let cursor = 0;
+    while (cursor + 8 <= bytes.length) {
+        const tag = String.fromCharCode(...bytes.subarray(cursor, cursor + 4));
+        const length = view.getUint32(cursor + 4);
+        records.push({ tag, data: bytes.subarray(cursor + 8, cursor + 8 + length) });
+        cursor += 8 + length;
+    }
+    return records;
+};
+
+export const parseSeratoCrate = (bytes: Uint8Array): string[] => {
+    const utf16 = new TextDecoder('utf-16be');
+    return readCrateRecords(bytes)
+        .filter(record => record.tag === 'otrk')
+        .flatMap(record => readCrateRecords(record.data).filter(inner => inner.tag === 'ptrk'))
+        .map(ptrk => utf16.decode(ptrk.data));
+};
+
+export const encodeSeratoCrate = (trackPaths: string[]): Uint8Array => {
+    const column = (name: string) => crateRecord('ovct', concatBytes([
+        crateRecord('tvcn', encodeUtf16be(name)),
+        crateRecord('tvcw', encodeUtf16be('0')),
+    ]));
+    return concatBytes([
+        crateRecord('vrsn', encodeUtf16be('1.0/Serato ScratchLive Crate')),
+        crateRecord('osrt', concatBytes([crateRecord('tvcn', encodeUtf16be('song')), crateRecord('brev', new Uint8Array([0]))])),
+        ...['song', 'artist', 'bpm', 'key'].map(column),
+        ...trackPaths.map(path => crateRecord('otrk', crateRecord('ptrk', encodeUtf16be(path)))),
+    ]);
+};
+
+// Serato stores paths without the leading slash or drive letter, with forward slashes
+export const toSeratoPath = (musicFolder: string, fileName: string): string => {
+    return [...musicFolder.split(/[\\/]/), fileName]
+        .filter(segment => segment && !/^[A-Za-z]:$/.test(segment))
+        .join('/');
+};
+
+// Builds a library import from a set of .crate files, recreating the '%%' nesting as folders.
+// Tracks are keyed by path, so the same file in several crates is one library entry.
+export const parseSeratoCrateFiles = (crates: { fileName: string, bytes: Uint8Array }[]): LibraryImport => {
+    const tracks = new Map<string, ImportedTrack>();
+    const root: ImportedPlaylist[] = [];
+
+    const findOrAddFolder = (siblings: ImportedPlaylist[], name: string): ImportedPlaylist => {
+        let folder = siblings.find(item => item.type === 'folder' && item.name === name);
+        if (!folder) {
+            folder = { name, type: 'folder', children: [], trackIds: [] };
+            siblings.push(folder);
+        }
+        return folder;
+    };
+
+    [...crates].sort((a, b) => a.fileName.localeCompare(b.fileName)).forEach(crate => {
+        const path = crate.fileName.replace(/\.crate$/i, '').split(SERATO_SUBCRATE_SEPARATOR);
+        const name = path.pop() || 'Crate';
+        const siblings = path.reduce((list, folderName) => findOrAddFolder(list, folderName).children, root);
+        const trackIds = parseSeratoCrate(crate.bytes);
+        trackIds.forEach(trackPath => {
+            if (!tracks.has(trackPath)) {
+                tracks.set(trackPath, { id: trackPath, fileName: fileNameFromLocation(trackPath), details: {} });
+            }
+        });
+        siblings.push({ name, type: 'crate', children: [], trackIds });
+    });
+
+    return { source: 'Serato', tracks: [...tracks.values()], playlists: root };
+};
+
+// 'Parent%%Child.crate' for a node nested in folders
+export const toSeratoCrateFileName = (nodes: PlaylistNode[], node: PlaylistNode): string => {
+    const names = [node.name];
+    let parent = nodes.find(n => n.id === node.parentId);
+    while (parent) {
+        names.unshift(parent.name);
+        const parentId = parent.parentId;
+        parent = nodes.find(n => n.id === parentId);
+    }
+    return `${names.map(name => name.replace(/[\\/:*?"<>|]/g, '_')).join(SERATO_SUBCRATE_SEPARATOR)}.crate`;
+};
@@ -0,0 +1,148 @@
+import type { Song, SessionLog, SessionLogEntry, PlaySession, DeckId } from '../types';
+import { camelotToOpenKey } from './key';
+
+// --- Session Log ---
+// Tracklist of what actually went out on the master. A track is logged the first
+// time its deck is playing and audible through the crossfader; tracks only heard
+// in the headphones never appear. On-air time accumulates over every stretch the
+// deck stays audible until another song is loaded on it. Entries keep their own copy
+// of the track details, so a tracklist still exports after its songs leave the library.
+
+// Below this channel gain (volume x crossfader) a deck counts as off air
+const ON_AIR_GAIN = 0.05;
+
+export type SessionLogFormat = 'csv' | 'txt' | 'json';
+
+export interface DeckAirState {
+    song: Song | null;
+    isPlaying: boolean;
+    gain: number; // Channel volume times crossfader gain
+    bpm: number | null;
+    key?: string | null;
+}
+
+const closeStretch = (entry: SessionLogEntry, now: number): SessionLogEntry => {
+    if (entry.onAirSince === null) return entry;
+    return { ...entry, onAirMs: entry.onAirMs + (now - entry.onAirSince), onAirSince: null, endedAt: now };
+};
+
+// Returns the same session object when nothing changed, so state updates can bail out
+export const updateSessionLog = (session: SessionLog, deck: DeckId, state: DeckAirState, now: number): SessionLog => {
+    const onAir = state.isPlaying && state.gain > ON_AIR_GAIN && state.song !== null;
+    const index = session.entries.map(entry => entry.deck).lastIndexOf(deck);
+    const current = index >= 0 ? session.entries[index] : undefined;
+    const isCurrentSong = current !== undefined && current.songId === state.song?.id;
+
+    const replace = (entry: SessionLogEntry): SessionLog => ({
+        ...session,
+        entries: session.entries.map((e, i) => i === index ? entry : e),
+    });
+
+    if (isCurrentSong) {
+        if (onAir && current.onAirSince === null) return replace({ ...current, onAirSince: now, endedAt: null });
+        if (!onAir && current.onAirSince !== null) return replace(closeStretch(current, now));
+        return session;
+    }
+
+    // A different song on this deck: close whatever was playing before
+    const closed = current && current.onAirSince !== null ? replace(closeStretch(current, now)) : session;
+    if (!onAir || !state.song) return closed;
+
+    const entry: SessionLogEntry = {
+        id: now + Math.random(),
+        songId: state.song.id,
+        fileName: state.song.name,
+        title: state.song.title,
+        artist: state.song.artist,
+        deck,
+        startedAt: now,
+        endedAt: null,
+        bpm: state.bpm,
+        key: state.key ?? null,
+        onAirMs: 0,
+        onAirSince: now,
+    };
+    return { ...closed, entries: [...closed.entries, entry] };
+};
+
+// Ends every open on-air stretch, e.g. when the page is closing
+export const closeSessionLog = (session: SessionLog, now: number): SessionLog => {
+    if (!session.entries.some(entry => entry.onAirSince !== null)) return session;
+    return { ...session, entries: session.entries.map(entry => closeStretch(entry, now)) };
+};
+
+// The songs each session put on air, for "not played recently" rules and play counts.
+// Sessions come newest first; ones where nothing went out are left out.
+export const getPlayHistory = (sessions: SessionLog[]): PlaySession[] => {
+    return sessions
+        .filter(session => session.entries.length > 0)
+        .map(({ id, startedAt, entries }) => ({ id, startedAt, songIds: [...new Set(entries.map(entry => entry.songId))] }));
+};
+
+// --- Export ---
+
+const entryTitle = (entry: SessionLogEntry): string => {
+    const title = entry.title ?? entry.fileName.replace(/\.[^.]+$/, '');
+    return entry.artist ? `${entry.artist} - ${title}` : title;
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const formatDuration = (ms: number): string => {
+    const totalSeconds = Math.round(ms / 1000);
+    return `${pad(Math.floor(totalSeconds / 3600))}:${pad(Math.floor(totalSeconds / 60) % 60)}:${pad(totalSeconds % 60)}`;
+};
+
+const csvField = (value: string | number | null | undefined): string => {
+    const text = value === null || value === undefined ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const sessionLogToCsv = (session: SessionLog): string => {
+    const header = ['#', 'Started', 'Ended', 'Deck', 'Artist', 'Title', 'File', 'BPM', 'Key', 'Open Key', 'On Air (s)'];
+    const rows = session.entries.map((entry, i) => [
+        i + 1,
+        new Date(entry.startedAt).toISOString(),
+        entry.endedAt !== null ? new Date(entry.endedAt).toISOString() : '',
+        entry.deck,
+        entry.artist,
+        entry.title,
+        entry.fileName,
+        entry.bpm !== null ? entry.bpm.toFixed(1) : '',
+        entry.key,
+        entry.key ? camelotToOpenKey(entry.key) : null,
+        Math.round(entry.onAirMs / 1000),
+    ]);
+    return [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+};
+
+// Timestamps are offsets from the first track, the usual layout for show tracklists
+export const sessionLogToText = (session: SessionLog): string => {
+    const first = session.entries[0]?.startedAt ?? session.startedAt;
+    const lines = [
+        `Tracklist - ${new Date(session.startedAt).toLocaleString()}`,
+        '',
+        ...session.entries.map(entry => `${formatDuration(entry.startedAt - first)}  ${entryTitle(entry)}`),
+    ];
+    return lines.join('\n') + '\n';
+};
+
+export const sessionLogToJson = (session: SessionLog): string => {
+    return JSON.stringify({
+        id: session.id,
+        startedAt: new Date(session.startedAt).toISOString(),
+        tracks: session.entries.map(({ onAirSince, ...entry }) => ({
+            ...entry,
+            startedAt: new Date(entry.startedAt).toISOString(),
+            endedAt: entry.endedAt !== null ? new Date(entry.endedAt).toISOString() : null,
+        })),
+    }, null, 2);
+};
+
+export const exportSessionLog = (session: SessionLog, format: SessionLogFormat): string => {
+    switch (format) {
+        case 'csv': return sessionLogToCsv(session);
+        case 'txt': return sessionLogToText(session);
+        case 'json': return sessionLogToJson(session);
+    }
+};
@@ -0,0 +1,28 @@
+import type { Song, SongLabelUpdate } from '../types';
+
+// --- Song Labels ---
+// User-editable rating, colour, comment and tags. Tags are stored trimmed and
+// lowercase so 'Vocal' and 'vocal ' are the same tag.
+
+export const normalizeTag = (tag: string): string => tag.trim().toLowerCase().replace(/\s+/g, '-');
+
+export const applyLabelUpdate = (song: Song, update: SongLabelUpdate): Song => {
+    const updated = { ...song };
+    if (update.rating !== undefined) updated.rating = update.rating === null ? 0 : Math.max(0, Math.min(5, Math.round(update.rating)));
+    if (update.color !== undefined) updated.color = update.color;
+    if (update.comment !== undefined) updated.comment = update.comment?.trim() || undefined;
+    if (update.addTags?.length || update.removeTags?.length) {
+        const removed = new Set((update.removeTags ?? []).map(normalizeTag));
+        const tags = [...(song.tags ?? []), ...(update.addTags ?? []).map(normalizeTag)]
+            .filter((tag, i, all) => tag && !removed.has(tag) && all.indexOf(tag) === i);
+        updated.tags = tags;
+    }
+    return updated;
+};
+
+// Every tag in use, most used first, for autocomplete
+export const getAllTags = (library: Song[]): string[] => {
+    const counts = new Map<string, number>();
+    library.forEach(song => song.tags?.forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1)));
+    return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).map(([tag]) => tag);
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import type { Beatgrid } from '../types';
+import { getSyncCorrection, type SyncDeck } from './sync';
+
+const grid = (bpm: number, firstDownbeat = 0): Beatgrid => ({ bpm, firstDownbeat, beatsPerBar: 4 });
+
+const deck = (bpm: number, position: number, playbackRate = 1, firstDownbeat = 0): SyncDeck => ({ beatgrid: grid(bpm, firstDownbeat), playbackRate, position });
+
+describe('getSyncCorrection', () => {
+    it('matches the master tempo with no nudge when in phase', () => {
+        expect(getSyncCorrection(deck(128, 30), deck(124, 30 * 128 / 124), 'beat')).toEqual({ playbackRate: 128 / 124, nudge: 0, phaseError: 0 });
+    });
+
+    it('follows the master playback rate', () => {
+        expect(getSyncCorrection(deck(120, 0, 1.05), deck(126, 0), 'beat').playbackRate).toBeCloseTo(1, 10);
+    });
+
+    it.each([
+        [72, 70 / 72],
+        [136, 140 / 136],
+        [276, 280 / 276],
+    ])('locks a %s BPM follower to 140 BPM at the rate nearest 1', (bpm, rate) => {
+        expect(getSyncCorrection(deck(140, 0), deck(bpm, 0), 'beat').playbackRate).toBeCloseTo(rate, 10);
+    });
+
+    it('speeds up a follower that is behind and slows down one that is ahead', () => {
+        const beat = 60 / 120;
+        const behind = getSyncCorrection(deck(120, 10), deck(120, 10 - 0.1 * beat), 'beat');
+        expect(behind.phaseError).toBeCloseTo(0.1, 10);
+        expect(behind.nudge).toBeCloseTo(0.05, 10); // 0.05 s to make up in a second
+        const ahead = getSyncCorrection(deck(120, 10), deck(120, 10 + 0.02 * beat), 'beat');
+        expect(ahead.phaseError).toBeCloseTo(-0.02, 10);
+        expect(ahead.nudge).toBeCloseTo(-0.01, 10);
+    });
+
+    it('caps the nudge', () => {
+        const beat = 60 / 120;
+        expect(getSyncCorrection(deck(120, 10), deck(120, 10 - 0.4 * beat), 'beat').nudge).toBe(0.05);
+        expect(getSyncCorrection(deck(120, 10), deck(120, 10 + 0.4 * beat), 'beat').nudge).toBe(-0.05);
+    });
+
+    it('lines up bars with bar sync and beats without it', () => {
+        const beat = 60 / 120;
+        // One beat behind is in phase by the beat, a quarter bar out by the bar
+        expect(getSyncCorrection(deck(120, 10), deck(120, 10 - beat), 'beat').phaseError).toBeCloseTo(0, 10);
+        expect(getSyncCorrection(deck(120, 10), deck(120, 10 - beat), 'bar').phaseError).toBeCloseTo(0.25, 10);
+    });
+
+    it('measures phase from each grid first downbeat', () => {
+        const correction = getSyncCorrection(deck(120, 10, 1, 0.25), deck(120, 20, 1, 10.25), 'bar');
+        expect(correction.phaseError).toBeCloseTo(0, 10);
+        expect(correction.nudge).toBe(0);
+    });
+
+    it('holds a phase offset instead of correcting it', () => {
+        const beat = 60 / 120;
+        const correction = getSyncCorrection(deck(120, 10), deck(120, 10 - 0.1 * beat), 'beat', 0.1);
+        expect(correction.phaseError).toBeCloseTo(0, 10);
+        expect(correction.nudge).toBe(0);
+    });
+});
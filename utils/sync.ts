@@ -0,0 +1,54 @@
+import type { Beatgrid } from '../types';
+
+// --- Sync ---
+// A follower deck plays at the master's effective tempo (bpm * playbackRate) and
+// chases its beat or bar phase by nudging its rate a little, never by seeking.
+// Half and double tempo tracks (70 vs 140) lock at the rate nearest 1, a follower
+// beat then spanning two master beats or half of one.
+
+export type SyncPhaseUnit = 'beat' | 'bar';
+
+export const PITCH_BEND = 0.04; // Rate change while a pitch bend button is held
+const MAX_SYNC_NUDGE = 0.05;
+const PHASE_CORRECTION_SECONDS = 1; // Time constant the phase error closes at, within MAX_SYNC_NUDGE
+const PHASE_TOLERANCE = 0.001; // seconds; closer than this counts as in phase
+
+export interface SyncDeck {
+    beatgrid: Beatgrid;
+    playbackRate: number;
+    position: number; // Track seconds
+}
+
+export interface SyncCorrection {
+    playbackRate: number;
+    nudge: number; // Rate offset on top of playbackRate, as a fraction
+    phaseError: number; // Units (beats or bars) the follower is behind, from -0.5 to 0.5
+}
+
+// Follower beats per master beat
+const getTempoFactor = (masterBpm: number, followerBpm: number): number => {
+    return [0.5, 1, 2].reduce((best, factor) =>
+        Math.abs(Math.log(masterBpm * factor / followerBpm)) < Math.abs(Math.log(masterBpm * best / followerBpm)) ? factor : best);
+};
+
+const wrapPhase = (phase: number): number => phase - Math.round(phase);
+
+// `phaseOffset` is an error to hold rather than correct, left by manual nudging
+export const getSyncCorrection = (master: SyncDeck, follower: SyncDeck, unit: SyncPhaseUnit, phaseOffset = 0): SyncCorrection => {
+    const masterBpm = master.beatgrid.bpm * master.playbackRate;
+    const factor = getTempoFactor(masterBpm, follower.beatgrid.bpm);
+    const playbackRate = masterBpm * factor / follower.beatgrid.bpm;
+
+    // Both positions in master beats from their first downbeats
+    const unitBeats = unit === 'bar' ? master.beatgrid.beatsPerBar : 1;
+    const masterBeats = (master.position - master.beatgrid.firstDownbeat) * master.beatgrid.bpm / 60;
+    const followerBeats = (follower.position - follower.beatgrid.firstDownbeat) * follower.beatgrid.bpm / 60 / factor;
+    const phaseError = wrapPhase((masterBeats - followerBeats) / unitBeats - phaseOffset);
+
+    // Catch up (or drop back) by the error in follower track seconds
+    const errorSeconds = phaseError * unitBeats * factor * 60 / follower.beatgrid.bpm;
+    const nudge = Math.abs(errorSeconds) < PHASE_TOLERANCE
+        ? 0
+        : Math.max(-MAX_SYNC_NUDGE, Math.min(MAX_SYNC_NUDGE, errorSeconds / (PHASE_CORRECTION_SECONDS * playbackRate)));
+    return { playbackRate, nudge, phaseError };
+};
@@ -0,0 +1,218 @@
+import type { Song, SavedLoop, HotCue } from '../types';
+import { readId3Frames, parseGeobFrame } from './tags';
+import { camelotToKeyName } from './key';
+import { SERATO_MARKERS2_DESCRIPTION, encodeSeratoMarkers2, encodeSeratoMarkers2Comment } from './serato';
+import { concatBytes } from './bytes';
+
+// --- Tag Writer ---
+// Writes the app's BPM, key, genre and cue points back into a copy of the audio file:
+// ID3v2 (TBPM/TKEY/TCON + Serato Markers2 GEOB) for MP3, Vorbis comments for FLAC.
+// Every other frame/comment in the file is kept as-is.
+
+const PADDING_SIZE = 1024; // Lets other taggers edit in place without rewriting the audio
+
+const encoder = new TextEncoder();
+
+const toSyncsafe = (value: number) => new Uint8Array([(value >> 21) & 0x7f, (value >> 14) & 0x7f, (value >> 7) & 0x7f, value & 0x7f]);
+
+const formatBpm = (bpm: number) => String(Number(bpm.toFixed(2)));
+
+interface TagValues {
+    bpm?: string;
+    key?: string;
+    genre?: string;
+    cuePoints?: (HotCue | undefined)[];
+    savedLoops?: SavedLoop[];
+}
+
+// Only values from the user, the file's tags, an import or analysis; the genre guessed from the file name isn't written
+const getTagValues = (song: Song): TagValues => ({
+    bpm: song.bpm ? formatBpm(song.bpm) : undefined,
+    key: song.key ? camelotToKeyName(song.key) ?? undefined : undefined,
+    genre: song.taggedGenre,
+    cuePoints: song.cuePoints?.some(cue => cue !== undefined) || song.savedLoops?.length ? song.cuePoints ?? [] : undefined,
+    savedLoops: song.savedLoops,
+});
+
+// --- ID3v2 (MP3) ---
+
+const id3Frame = (id: string, body: Uint8Array, version: number): Uint8Array => {
+    const header = new Uint8Array(10);
+    header.set(encoder.encode(id));
+    header.set(version === 4 ? toSyncsafe(body.length) : [body.length >>> 24, (body.length >> 16) & 0xff, (body.length >> 8) & 0xff, body.length & 0xff], 4);
+    return concatBytes([header, body]);
+};
+
+// UTF-8 only exists from v2.4; v2.3 readers expect UTF-16 with a BOM
+const id3TextFrame = (id: string, text: string, version: number): Uint8Array => {
+    if (version === 4) {
+        return id3Frame(id, concatBytes([new Uint8Array([3]), encoder.encode(text)]), version);
+    }
+    const utf16 = new Uint8Array(3 + text.length * 2);
+    utf16.set([1, 0xff, 0xfe]);
+    for (let i = 0; i < text.length; i++) {
+        const code = text.charCodeAt(i);
+        utf16[3 + i * 2] = code & 0xff;
+        utf16[4 + i * 2] = code >> 8;
+    }
+    return id3Frame(id, utf16, version);
+};
+
+const id3GeobFrame = (description: string, object: Uint8Array, version: number): Uint8Array => {
+    const header = encoder.encode(`\0application/octet-stream\0\0${description}\0`);
+    return id3Frame('GEOB', concatBytes([header, object]), version);
+};
+
+const writeId3 = (bytes: Uint8Array, values: TagValues): Uint8Array => {
+    let version = 3;
+    let keptFrames: Uint8Array[] = [];
+    let audioStart = 0;
+
+    if (String.fromCharCode(...bytes.subarray(0, 3)) === 'ID3') {
+        const size = ((bytes[6] << 21) | (bytes[7] << 14) | (bytes[8] << 7) | bytes[9]) + 10;
+        audioStart = size + (bytes[5] & 0x10 ? 10 : 0); // v2.4 footer
+        const existing = readId3Frames(bytes.subarray(0, size));
+        // v2.2 frames use a different layout and can't be mixed into a v2.3 tag, so they're dropped
+        if (existing.version >= 3) {
+            version = existing.version;
+            const isReplaced = (id: string, data: Uint8Array) =>
+                (id === 'TBPM' && values.bpm) ||
+                (id === 'TKEY' && values.key) ||
+                (id === 'TCON' && values.genre) ||
+                (id === 'GEOB' && values.cuePoints && parseGeobFrame(data).description === SERATO_MARKERS2_DESCRIPTION);
+            keptFrames = existing.frames.filter(frame => !isReplaced(frame.id, frame.data)).map(frame => frame.raw);
+        }
+    }
+
+    const newFrames: Uint8Array[] = [];
+    if (values.bpm) newFrames.push(id3TextFrame('TBPM', values.bpm, version));
+    if (values.key) newFrames.push(id3TextFrame('TKEY', values.key, version));
+    if (values.genre) newFrames.push(id3TextFrame('TCON', values.genre, version));
+    if (values.cuePoints) newFrames.push(id3GeobFrame(SERATO_MARKERS2_DESCRIPTION, encodeSeratoMarkers2(values.cuePoints, values.savedLoops), version));
+
+    const frames = concatBytes([...keptFrames, ...newFrames]);
+    const header = new Uint8Array(10);
+    header.set([0x49, 0x44, 0x33, version, 0, 0]); // 'ID3', no flags
+    header.set(toSyncsafe(frames.length + PADDING_SIZE), 6);
+    return concatBytes([header, frames, new Uint8Array(PADDING_SIZE), bytes.subarray(audioStart)]);
+};
+
+// --- Vorbis Comments (FLAC) ---
+
+const FLAC_STREAMINFO = 0;
+const FLAC_PADDING = 1;
+const FLAC_VORBIS_COMMENT = 4;
+
+interface FlacBlock {
+    type: number;
+    data: Uint8Array;
+}
+
+const encodeVorbisComment = (vendor: string, entries: string[]): Uint8Array => {
+    const parts: Uint8Array[] = [];
+    const lengthPrefixed = (text: string) => {
+        const encoded = encoder.encode(text);
+        const length = new Uint8Array(4);
+        new DataView(length.buffer).setUint32(0, encoded.length, true);
+        parts.push(length, encoded);
+    };
+    lengthPrefixed(vendor);
+    const count = new Uint8Array(4);
+    new DataView(count.buffer).setUint32(0, entries.length, true);
+    parts.push(count);
+    entries.forEach(lengthPrefixed);
+    return concatBytes(parts);
+};
+
+const decodeVorbisComment = (data: Uint8Array): { vendor: string, entries: string[] } => {
+    const decoder = new TextDecoder();
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const vendorLength = view.getUint32(0, true);
+    const vendor = decoder.decode(data.subarray(4, 4 + vendorLength));
+    let cursor = 4 + vendorLength;
+    const count = view.getUint32(cursor, true);
+    cursor += 4;
+    const entries: string[] = [];
+    for (let i = 0; i < count; i++) {
+        const length = view.getUint32(cursor, true);
+        entries.push(decoder.decode(data.subarray(cursor + 4, cursor + 4 + length)));
+        cursor += 4 + length;
+    }
+    return { vendor, entries };
+};
+
+const writeFlac = (bytes: Uint8Array, flacStart: number, values: TagValues): Uint8Array => {
+    const blocks: FlacBlock[] = [];
+    let cursor = flacStart + 4;
+    let isLast = false;
+    while (!isLast) {
+        if (cursor + 4 > bytes.length) {
+            throw new Error("FLAC metadata ends before its last block");
+        }
+        isLast = (bytes[cursor] & 0x80) !== 0;
+        const type = bytes[cursor] & 0x7f;
+        const length = (bytes[cursor + 1] << 16) | (bytes[cursor + 2] << 8) | bytes[cursor + 3];
+        if (cursor + 4 + length > bytes.length) {
+            throw new Error(`FLAC metadata block (type ${type}) runs past the end of the file`);
+        }
+        if (type !== FLAC_PADDING) {
+            blocks.push({ type, data: bytes.subarray(cursor + 4, cursor + 4 + length) });
+        }
+        cursor += 4 + length;
+    }
+
+    const existing = blocks.find(block => block.type === FLAC_VORBIS_COMMENT);
+    const { vendor, entries } = existing ? decodeVorbisComment(existing.data) : { vendor: 'DJ App', entries: [] };
+    const replaced = new Set<string>();
+    const added: string[] = [];
+    if (values.bpm) { replaced.add('BPM'); added.push(`BPM=${values.bpm}`); }
+    if (values.key) { replaced.add('INITIALKEY'); added.push(`INITIALKEY=${values.key}`); }
+    if (values.genre) { replaced.add('GENRE'); added.push(`GENRE=${values.genre}`); }
+    if (values.cuePoints) { replaced.add('SERATO_MARKERS_V2'); added.push(`SERATO_MARKERS_V2=${encodeSeratoMarkers2Comment(values.cuePoints, values.savedLoops)}`); }
+    const kept = entries.filter(entry => !replaced.has(entry.slice(0, entry.indexOf('=')).toUpperCase()));
+    const comment: FlacBlock = { type: FLAC_VORBIS_COMMENT, data: encodeVorbisComment(vendor, [...kept, ...added]) };
+
+    if (existing) {
+        blocks[blocks.indexOf(existing)] = comment;
+    } else {
+        // STREAMINFO must stay the first block
+        blocks.splice(blocks.findIndex(block => block.type === FLAC_STREAMINFO) + 1, 0, comment);
+    }
+    blocks.push({ type: FLAC_PADDING, data: new Uint8Array(PADDING_SIZE) });
+
+    const encodedBlocks = blocks.map((block, index) => {
+        const header = new Uint8Array(4);
+        header[0] = block.type | (index === blocks.length - 1 ? 0x80 : 0);
+        header[1] = (block.data.length >> 16) & 0xff;
+        header[2] = (block.data.length >> 8) & 0xff;
+        header[3] = block.data.length & 0xff;
+        return concatBytes([header, block.data]);
+    });
+    // Anything before 'fLaC' (a stray ID3 tag) is kept untouched
+    return concatBytes([bytes.subarray(0, flacStart + 4), ...encodedBlocks, bytes.subarray(cursor)]);
+};
+
+// --- Public API ---
+
+// Returns a new File with the song's metadata, cues and saved loops written in; the original is left untouched.
+export const writeTagsToFile = async (song: Song): Promise<File> => {
+    const bytes = new Uint8Array(await song.file.arrayBuffer());
+    const values = getTagValues(song);
+    const magic = String.fromCharCode(...bytes.subarray(0, 4));
+
+    let flacStart = magic === 'fLaC' ? 0 : -1;
+    if (magic.startsWith('ID3')) {
+        const id3End = ((bytes[6] << 21) | (bytes[7] << 14) | (bytes[8] << 7) | bytes[9]) + 10 + (bytes[5] & 0x10 ? 10 : 0);
+        if (String.fromCharCode(...bytes.subarray(id3End, id3End + 4)) === 'fLaC') flacStart = id3End;
+    }
+
+    let output: Uint8Array;
+    if (flacStart >= 0) {
+        output = writeFlac(bytes, flacStart, values);
+    } else if (magic.startsWith('ID3') || (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0)) {
+        output = writeId3(bytes, values);
+    } else {
+        throw new Error(`Writing tags is only supported for MP3 and FLAC files ("${song.name}")`);
+    }
+    return new File([output], song.file.name, { type: song.file.type, lastModified: Date.now() });
+};
@@ -0,0 +1,534 @@
+import type { Song, TrackTags } from '../types';
+import { parseKeyToCamelot } from './key';
+import { SERATO_MARKERS2_DESCRIPTION, decodeSeratoMarkers2, decodeSeratoMarkers2Comment, type SeratoMarkers } from './serato';
+
+// --- Embedded Tag Reader ---
+// Reads ID3v2/ID3v1 (MP3, WAV), Vorbis comments (FLAC, OGG/Opus), MP4 atoms (M4A)
+// and RIFF INFO (WAV). The container is detected from magic bytes, not the extension,
+// and only the byte ranges that hold metadata are read from the file.
+
+// ID3v1 genre list (the original 80 entries; Winamp extensions fall back to the raw value)
+const ID3_GENRES = [
+    'Blues', 'Classic Rock', 'Country', 'Dance', 'Disco', 'Funk', 'Grunge', 'Hip-Hop', 'Jazz', 'Metal',
+    'New Age', 'Oldies', 'Other', 'Pop', 'R&B', 'Rap', 'Reggae', 'Rock', 'Techno', 'Industrial',
+    'Alternative', 'Ska', 'Death Metal', 'Pranks', 'Soundtrack', 'Euro-Techno', 'Ambient', 'Trip-Hop', 'Vocal', 'Jazz+Funk',
+    'Fusion', 'Trance', 'Classical', 'Instrumental', 'Acid', 'House', 'Game', 'Sound Clip', 'Gospel', 'Noise',
+    'AlternRock', 'Bass', 'Soul', 'Punk', 'Space', 'Meditative', 'Instrumental Pop', 'Instrumental Rock', 'Ethnic', 'Gothic',
+    'Darkwave', 'Techno-Industrial', 'Electronic', 'Pop-Folk', 'Eurodance', 'Dream', 'Southern Rock', 'Comedy', 'Cult', 'Gangsta',
+    'Top 40', 'Christian Rap', 'Pop/Funk', 'Jungle', 'Native American', 'Cabaret', 'New Wave', 'Psychedelic', 'Rave', 'Showtunes',
+    'Trailer', 'Lo-Fi', 'Tribal', 'Acid Punk', 'Acid Jazz', 'Polka', 'Retro', 'Musical', 'Rock & Roll', 'Hard Rock',
+];
+
+const latin1 = new TextDecoder('latin1');
+const utf8 = new TextDecoder('utf-8');
+
+const readBytes = async (file: Blob, start: number, length: number): Promise<Uint8Array> => {
+    return new Uint8Array(await file.slice(start, start + length).arrayBuffer());
+};
+
+const ascii = (bytes: Uint8Array, start: number, length: number) => latin1.decode(bytes.subarray(start, start + length));
+
+const cleanText = (value: string | undefined): string | undefined => {
+    const trimmed = value?.replace(/\0+$/, '').split('\0')[0].trim();
+    return trimmed ? trimmed : undefined;
+};
+
+const parseYear = (value?: string): number | undefined => {
+    const match = value?.match(/\d{4}/);
+    return match ? parseInt(match[0]) : undefined;
+};
+
+const parseBpm = (value?: string): number | undefined => {
+    const bpm = parseFloat(value ?? '');
+    return bpm > 0 ? bpm : undefined;
+};
+
+// Resolves ID3 "(17)", "(17)Rock" and bare "17" genre references
+const parseGenre = (value?: string): string | undefined => {
+    const text = cleanText(value);
+    if (!text) return undefined;
+    const match = text.match(/^\((\d+)\)(.*)$/) ?? text.match(/^(\d+)()$/);
+    if (match) {
+        return cleanText(match[2]) ?? ID3_GENRES[parseInt(match[1])] ?? text;
+    }
+    return text;
+};
+
+// Fill only the fields that are still empty, so earlier (richer) tag sources win
+const mergeTags = (target: TrackTags, source: TrackTags): TrackTags => {
+    const merged = { ...target };
+    (Object.keys(source) as (keyof TrackTags)[]).forEach(field => {
+        if (merged[field] === undefined && source[field] !== undefined) {
+            (merged as Record<string, unknown>)[field] = source[field];
+        }
+    });
+    return merged;
+};
+
+const applySeratoMarkers = (tags: TrackTags, markers: SeratoMarkers | null) => {
+    if (!markers) return;
+    if (markers.cuePoints.some(cue => cue !== undefined)) tags.cuePoints ??= markers.cuePoints;
+    if (markers.savedLoops.length > 0) tags.savedLoops ??= markers.savedLoops;
+};
+
+// --- ID3v2 ---
+
+const syncsafe = (bytes: Uint8Array, offset: number) =>
+    (bytes[offset] << 21) | (bytes[offset + 1] << 14) | (bytes[offset + 2] << 7) | bytes[offset + 3];
+
+const removeUnsynchronisation = (bytes: Uint8Array): Uint8Array => {
+    const out: number[] = [];
+    for (let i = 0; i < bytes.length; i++) {
+        out.push(bytes[i]);
+        if (bytes[i] === 0xff && bytes[i + 1] === 0x00) i++;
+    }
+    return new Uint8Array(out);
+};
+
+const decodeId3Text = (bytes: Uint8Array, encoding: number): string => {
+    switch (encoding) {
+        case 1: return new TextDecoder('utf-16').decode(bytes); // BOM decides endianness
+        case 2: return new TextDecoder('utf-16be').decode(bytes);
+        case 3: return utf8.decode(bytes);
+        default: return latin1.decode(bytes);
+    }
+};
+
+// Index just past the encoded string terminator starting at `offset`
+const skipTerminated = (bytes: Uint8Array, offset: number, encoding: number): number => {
+    const wide = encoding === 1 || encoding === 2;
+    for (let i = offset; i < bytes.length; i += wide ? 2 : 1) {
+        if (bytes[i] === 0 && (!wide || bytes[i + 1] === 0)) {
+            return i + (wide ? 2 : 1);
+        }
+    }
+    return bytes.length;
+};
+
+export interface Id3Frame {
+    id: string;
+    data: Uint8Array; // Frame body with unsynchronisation and data length indicator removed
+    raw: Uint8Array; // Header + body as stored, for copying into a rewritten tag
+}
+
+// Walks the frames of a complete ID3v2 tag (header included)
+export const readId3Frames = (tag: Uint8Array): { version: number, frames: Id3Frame[] } => {
+    const frames: Id3Frame[] = [];
+    const version = tag[3];
+    const flags = tag[5];
+    let body = tag.subarray(10, 10 + syncsafe(tag, 6));
+    if (version < 4 && flags & 0x80) body = removeUnsynchronisation(body);
+
+    let offset = 0;
+    if (flags & 0x40) {
+        // Skip the extended header (its size field excludes itself in v2.3)
+        offset = version === 4 ? syncsafe(body, 0) : new DataView(body.buffer, body.byteOffset).getUint32(0) + 4;
+    }
+
+    const idLength = version === 2 ? 3 : 4;
+    const headerLength = version === 2 ? 6 : 10;
+    while (offset + headerLength <= body.length) {
+        const id = ascii(body, offset, idLength);
+        if (!/^[A-Z0-9]+$/.test(id)) break; // Padding
+        const size = version === 2
+            ? (body[offset + 3] << 16) | (body[offset + 4] << 8) | body[offset + 5]
+            : version === 4 ? syncsafe(body, offset + 4) : new DataView(body.buffer, body.byteOffset).getUint32(offset + 4);
+        const frameFlags = version === 2 ? 0 : body[offset + 9];
+        const raw = body.subarray(offset, offset + headerLength + size);
+        let data = raw.subarray(headerLength);
+        offset += headerLength + size;
+
+        if (version === 4) {
+            if (frameFlags & 0x02) data = removeUnsynchronisation(data.subarray(frameFlags & 0x01 ? 4 : 0));
+            else if (frameFlags & 0x01) data = data.subarray(4);
+        }
+        frames.push({ id, data, raw });
+    }
+    return { version, frames };
+};
+
+// GEOB (general encapsulated object) frames carry other apps' binary data, e.g. Serato cues
+export const parseGeobFrame = (data: Uint8Array): { mimeType: string, description: string, object: Uint8Array } => {
+    const encoding = data[0];
+    const mimeEnd = skipTerminated(data, 1, 0);
+    const fileNameEnd = skipTerminated(data, mimeEnd, encoding);
+    const descriptionEnd = skipTerminated(data, fileNameEnd, encoding);
+    return {
+        mimeType: ascii(data, 1, mimeEnd - 2),
+        description: cleanText(decodeId3Text(data.subarray(fileNameEnd, descriptionEnd), encoding)) ?? '',
+        object: data.subarray(descriptionEnd),
+    };
+};
+
+export const parseId3v2 = (tag: Uint8Array): TrackTags => {
+    const tags: TrackTags = {};
+    readId3Frames(tag).frames.forEach(({ id, data }) => {
+        if (data.length === 0) return;
+        const encoding = data[0];
+        const text = () => cleanText(decodeId3Text(data.subarray(1), encoding));
+
+        switch (id) {
+            case 'TIT2': case 'TT2': tags.title ??= text(); break;
+            case 'TPE1': case 'TP1': tags.artist ??= text(); break;
+            case 'TALB': case 'TAL': tags.album ??= text(); break;
+            case 'TDRC': case 'TYER': case 'TYE': tags.year ??= parseYear(text()); break;
+            case 'TCON': case 'TCO': tags.genre ??= parseGenre(decodeId3Text(data.subarray(1), encoding)); break;
+            case 'TBPM': case 'TBP': tags.bpm ??= parseBpm(text()); break;
+            case 'TKEY': case 'TKE': tags.key ??= text(); break;
+            case 'COMM': case 'COM': {
+                // encoding, 3-byte language, short description, then the comment itself
+                const descriptionEnd = skipTerminated(data, 4, encoding);
+                const description = decodeId3Text(data.subarray(4, descriptionEnd), encoding);
+                // Skip iTunes' machine-readable comments (iTunNORM, iTunSMPB, ...)
+                if (!description.startsWith('iTun')) {
+                    tags.comment ??= cleanText(decodeId3Text(data.subarray(descriptionEnd), encoding));
+                }
+                break;
+            }
+            case 'GEOB': {
+                const geob = parseGeobFrame(data);
+                if (geob.description === SERATO_MARKERS2_DESCRIPTION) {
+                    try {
+                        applySeratoMarkers(tags, decodeSeratoMarkers2(geob.object));
+                    } catch (error) {
+                        console.warn("Skipping malformed Serato markers:", error);
+                    }
+                }
+                break;
+            }
+            case 'APIC': case 'PIC': {
+                if (tags.coverArt) break;
+                let mimeType: string;
+                let cursor: number;
+                if (id === 'PIC') {
+                    const format = ascii(data, 1, 3).toLowerCase();
+                    mimeType = format === 'png' ? 'image/png' : 'image/jpeg';
+                    cursor = 4;
+                } else {
+                    const mimeEnd = skipTerminated(data, 1, 0);
+                    mimeType = ascii(data, 1, mimeEnd - 2) || 'image/jpeg';
+                    cursor = mimeEnd;
+                }
+                cursor = skipTerminated(data, cursor + 1, encoding); // picture type byte, then description
+                tags.coverArt = new Blob([data.slice(cursor)], { type: mimeType });
+                break;
+            }
+        }
+    });
+    return tags;
+};
+
+const readId3v2 = async (file: Blob, offset = 0): Promise<{ tags: TrackTags, end: number } | null> => {
+    const header = await readBytes(file, offset, 10);
+    if (header.length < 10 || ascii(header, 0, 3) !== 'ID3') return null;
+    const size = syncsafe(header, 6);
+    const footer = header[5] & 0x10 ? 10 : 0;
+    const tag = await readBytes(file, offset, 10 + size);
+    return { tags: parseId3v2(tag), end: offset + 10 + size + footer };
+};
+
+const readId3v1 = async (file: Blob): Promise<TrackTags> => {
+    if (file.size < 128) return {};
+    const tag = await readBytes(file, file.size - 128, 128);
+    if (ascii(tag, 0, 3) !== 'TAG') return {};
+    return {
+        title: cleanText(ascii(tag, 3, 30)),
+        artist: cleanText(ascii(tag, 33, 30)),
+        album: cleanText(ascii(tag, 63, 30)),
+        year: parseYear(ascii(tag, 93, 4)),
+        comment: cleanText(ascii(tag, 97, tag[125] === 0 ? 28 : 30)),
+        genre: ID3_GENRES[tag[127]],
+    };
+};
+
+// --- Vorbis Comments (FLAC, Ogg Vorbis, Opus) ---
+
+// FLAC PICTURE block layout, also used base64-encoded in METADATA_BLOCK_PICTURE
+const parseFlacPicture = (block: Uint8Array): Blob => {
+    const view = new DataView(block.buffer, block.byteOffset, block.byteLength);
+    let cursor = 4; // picture type
+    const mimeLength = view.getUint32(cursor);
+    const mimeType = ascii(block, cursor + 4, mimeLength);
+    cursor += 4 + mimeLength;
+    cursor += 4 + view.getUint32(cursor); // description
+    cursor += 16; // width, height, depth, colour count
+    const dataLength = view.getUint32(cursor);
+    return new Blob([block.slice(cursor + 4, cursor + 4 + dataLength)], { type: mimeType || 'image/jpeg' });
+};
+
+export const parseVorbisComment = (block: Uint8Array): TrackTags => {
+    const tags: TrackTags = {};
+    const view = new DataView(block.buffer, block.byteOffset, block.byteLength);
+    let cursor = 4 + view.getUint32(0, true); // vendor string
+    const count = view.getUint32(cursor, true);
+    cursor += 4;
+
+    for (let i = 0; i < count && cursor + 4 <= block.length; i++) {
+        const length = view.getUint32(cursor, true);
+        const entry = utf8.decode(block.subarray(cursor + 4, cursor + 4 + length));
+        cursor += 4 + length;
+        const separator = entry.indexOf('=');
+        if (separator < 0) continue;
+        const field = entry.slice(0, separator).toUpperCase();
+        const value = entry.slice(separator + 1);
+
+        switch (field) {
+            case 'TITLE': tags.title ??= cleanText(value); break;
+            case 'ARTIST': tags.artist ??= cleanText(value); break;
+            case 'ALBUM': tags.album ??= cleanText(value); break;
+            case 'DATE': case 'YEAR': tags.year ??= parseYear(value); break;
+            case 'GENRE': tags.genre ??= cleanText(value); break;
+            case 'BPM': case 'TEMPO': tags.bpm ??= parseBpm(value); break;
+            case 'INITIALKEY': case 'KEY': tags.key ??= cleanText(value); break;
+            case 'COMMENT': case 'DESCRIPTION': tags.comment ??= cleanText(value); break;
+            case 'SERATO_MARKERS_V2':
+                try {
+                    applySeratoMarkers(tags, decodeSeratoMarkers2Comment(value));
+                } catch (error) {
+                    console.warn("Skipping malformed Serato markers:", error);
+                }
+                break;
+            case 'METADATA_BLOCK_PICTURE':
+                try {
+                    tags.coverArt ??= parseFlacPicture(Uint8Array.from(atob(value), c => c.charCodeAt(0)));
+                } catch (error) {
+                    console.warn("Skipping malformed embedded picture:", error);
+                }
+                break;
+        }
+    }
+    return tags;
+};
+
+const readFlac = async (file: Blob, offset: number): Promise<TrackTags> => {
+    let tags: TrackTags = {};
+    let cursor = offset + 4; // 'fLaC'
+    let isLast = false;
+    while (!isLast && cursor + 4 <= file.size) {
+        const header = await readBytes(file, cursor, 4);
+        isLast = (header[0] & 0x80) !== 0;
+        const type = header[0] & 0x7f;
+        const length = (header[1] << 16) | (header[2] << 8) | header[3];
+        if (type === 4) {
+            tags = mergeTags(tags, parseVorbisComment(await readBytes(file, cursor + 4, length)));
+        } else if (type === 6 && !tags.coverArt) {
+            tags.coverArt = parseFlacPicture(await readBytes(file, cursor + 4, length));
+        }
+        cursor += 4 + length;
+    }
+    return tags;
+};
+
+// Reassemble the second logical packet (the comment header) from Ogg pages
+const readOgg = async (file: Blob): Promise<TrackTags> => {
+    const packets: Uint8Array[] = [];
+    let current: Uint8Array[] = [];
+    let cursor = 0;
+    while (packets.length < 2 && cursor + 27 <= file.size) {
+        const header = await readBytes(file, cursor, 27);
+        if (ascii(header, 0, 4) !== 'OggS') break;
+        const segmentCount = header[26];
+        const lacing = await readBytes(file, cursor + 27, segmentCount);
+        const dataLength = lacing.reduce((sum, value) => sum + value, 0);
+        const data = await readBytes(file, cursor + 27 + segmentCount, dataLength);
+
+        let segmentStart = 0;
+        for (let i = 0; i < segmentCount; i++) {
+            current.push(data.subarray(segmentStart, segmentStart + lacing[i]));
+            segmentStart += lacing[i];
+            if (lacing[i] < 255) { // Packet ends on a short segment
+                const packet = new Uint8Array(current.reduce((sum, part) => sum + part.length, 0));
+                let position = 0;
+                current.forEach(part => { packet.set(part, position); position += part.length; });
+                packets.push(packet);
+                current = [];
+            }
+        }
+        cursor += 27 + segmentCount + dataLength;
+    }
+
+    const commentPacket = packets[1];
+    if (!commentPacket) return {};
+    if (ascii(commentPacket, 0, 7) === '\x03vorbis') return parseVorbisComment(commentPacket.subarray(7));
+    if (ascii(commentPacket, 0, 8) === 'OpusTags') return parseVorbisComment(commentPacket.subarray(8));
+    return {};
+};
+
+// --- MP4 Atoms (M4A/AAC/ALAC) ---
+
+interface Atom {
+    type: string;
+    start: number; // offset of the payload
+    end: number;
+}
+
+const listAtoms = (bytes: Uint8Array, start: number, end: number): Atom[] => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const atoms: Atom[] = [];
+    let cursor = start;
+    while (cursor + 8 <= end) {
+        let size = view.getUint32(cursor);
+        let headerLength = 8;
+        if (size === 1) {
+            size = Number(view.getBigUint64(cursor + 8));
+            headerLength = 16;
+        } else if (size === 0) {
+            size = end - cursor;
+        }
+        if (size < headerLength) break;
+        atoms.push({ type: ascii(bytes, cursor + 4, 4), start: cursor + headerLength, end: Math.min(cursor + size, end) });
+        cursor += size;
+    }
+    return atoms;
+};
+
+const parseIlst = (bytes: Uint8Array, ilst: Atom): TrackTags => {
+    const tags: TrackTags = {};
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+    listAtoms(bytes, ilst.start, ilst.end).forEach(item => {
+        const children = listAtoms(bytes, item.start, item.end);
+        const dataAtom = children.find(child => child.type === 'data');
+        if (!dataAtom) return;
+        const dataType = view.getUint32(dataAtom.start) & 0xffffff;
+        const payload = bytes.subarray(dataAtom.start + 8, dataAtom.end); // skip type + locale
+        const text = () => cleanText(utf8.decode(payload));
+
+        switch (item.type) {
+            case '\xa9nam': tags.title ??= text(); break;
+            case '\xa9ART': tags.artist ??= text(); break;
+            case '\xa9alb': tags.album ??= text(); break;
+            case '\xa9day': tags.year ??= parseYear(text()); break;
+            case '\xa9gen': tags.genre ??= text(); break;
+            case '\xa9cmt': tags.comment ??= text(); break;
+            case 'gnre': tags.genre ??= ID3_GENRES[view.getUint16(dataAtom.start + 8) - 1]; break;
+            case 'tmpo': tags.bpm ??= view.getUint16(dataAtom.start + 8) || undefined; break;
+            case 'covr':
+                tags.coverArt ??= new Blob([payload.slice()], { type: dataType === 14 ? 'image/png' : 'image/jpeg' });
+                break;
+            case '----': {
+                // Freeform iTunes atoms: mean + name + data
+                const nameAtom = children.find(child => child.type === 'name');
+                const name = nameAtom ? utf8.decode(bytes.subarray(nameAtom.start + 4, nameAtom.end)).toUpperCase() : '';
+                if (name === 'INITIALKEY' || name === 'KEY') tags.key ??= text();
+                else if (name === 'BPM') tags.bpm ??= parseBpm(text());
+                break;
+            }
+        }
+    });
+    return tags;
+};
+
+const readMp4 = async (file: Blob): Promise<TrackTags> => {
+    // Walk top-level atom headers until moov, then load just that atom
+    let cursor = 0;
+    while (cursor + 8 <= file.size) {
+        const header = await readBytes(file, cursor, 16);
+        const view = new DataView(header.buffer);
+        let size = view.getUint32(0);
+        if (size === 1) size = Number(view.getBigUint64(8));
+        else if (size === 0) size = file.size - cursor;
+        if (size < 8) break;
+
+        if (ascii(header, 4, 4) === 'moov') {
+            const moov = await readBytes(file, cursor, size);
+            const find = (atoms: Atom[], type: string) => atoms.find(atom => atom.type === type);
+            const udta = find(listAtoms(moov, 8, moov.length), 'udta');
+            const meta = udta && find(listAtoms(moov, udta.start, udta.end), 'meta');
+            // meta is a full box: 4 bytes of version/flags precede its children
+            const ilst = meta && find(listAtoms(moov, meta.start + 4, meta.end), 'ilst');
+            return ilst ? parseIlst(moov, ilst) : {};
+        }
+        cursor += size;
+    }
+    return {};
+};
+
+// --- RIFF WAVE ---
+
+const readWav = async (file: Blob): Promise<TrackTags> => {
+    let tags: TrackTags = {};
+    let cursor = 12;
+    while (cursor + 8 <= file.size) {
+        const header = await readBytes(file, cursor, 8);
+        const id = ascii(header, 0, 4);
+        const size = new DataView(header.buffer).getUint32(4, true);
+
+        if (id === 'LIST') {
+            const list = await readBytes(file, cursor + 8, size);
+            if (ascii(list, 0, 4) === 'INFO') {
+                const info: TrackTags = {};
+                const view = new DataView(list.buffer);
+                for (let sub = 4; sub + 8 <= list.length;) {
+                    const subId = ascii(list, sub, 4);
+                    const subSize = view.getUint32(sub + 4, true);
+                    const value = cleanText(latin1.decode(list.subarray(sub + 8, sub + 8 + subSize)));
+                    switch (subId) {
+                        case 'INAM': info.title = value; break;
+                        case 'IART': info.artist = value; break;
+                        case 'IPRD': info.album = value; break;
+                        case 'ICRD': info.year = parseYear(value); break;
+                        case 'IGNR': info.genre = value; break;
+                        case 'ICMT': info.comment = value; break;
+                    }
+                    sub += 8 + subSize + (subSize % 2);
+                }
+                tags = mergeTags(tags, info);
+            }
+        } else if (id === 'id3 ' || id === 'ID3 ') {
+            const id3 = await readId3v2(file, cursor + 8);
+            // ID3 carries BPM, key and artwork, which RIFF INFO can't, so it takes precedence
+            if (id3) tags = mergeTags(id3.tags, tags);
+        }
+        cursor += 8 + size + (size % 2); // Chunks are word-aligned
+    }
+    return tags;
+};
+
+// --- Public API ---
+
+export const readTags = async (file: Blob): Promise<TrackTags> => {
+    try {
+        const magic = await readBytes(file, 0, 12);
+        if (ascii(magic, 0, 4) === 'RIFF' && ascii(magic, 8, 4) === 'WAVE') return await readWav(file);
+        if (ascii(magic, 0, 4) === 'OggS') return await readOgg(file);
+        if (ascii(magic, 4, 4) === 'ftyp') return await readMp4(file);
+        if (ascii(magic, 0, 4) === 'fLaC') return await readFlac(file, 0);
+
+        const id3 = await readId3v2(file);
+        if (id3) {
+            // Some encoders prepend an ID3 tag to FLAC files
+            const next = await readBytes(file, id3.end, 4);
+            if (ascii(next, 0, 4) === 'fLaC') return mergeTags(id3.tags, await readFlac(file, id3.end));
+            return mergeTags(id3.tags, await readId3v1(file));
+        }
+        return await readId3v1(file);
+    } catch (error) {
+        console.warn("Could not read embedded tags:", error);
+        return {};
+    }
+};
+
+// Embedded BPM and key are curated by the user or their other DJ software,
+// so they take priority over both mock values and automatic detection.
+export const applyTagsToSong = <T extends Song>(song: T, tags: TrackTags): T => {
+    const taggedKey = tags.key ? parseKeyToCamelot(tags.key) : null;
+    return {
+        ...song,
+        title: tags.title ?? song.title,
+        artist: tags.artist ?? song.artist,
+        album: tags.album ?? song.album,
+        year: tags.year ?? song.year,
+        genre: tags.genre ?? song.genre,
+        comment: tags.comment ?? song.comment,
+        coverArt: tags.coverArt ?? song.coverArt,
+        taggedBpm: tags.bpm ?? song.taggedBpm,
+        taggedKey: taggedKey ?? song.taggedKey,
+        taggedGenre: tags.genre ?? song.taggedGenre,
+        bpm: tags.bpm ?? song.bpm,
+        key: taggedKey ?? song.key,
+        // Cues already set in the app (imported or edited) win over the ones stored in the file
+        cuePoints: song.cuePoints ?? tags.cuePoints,
+        savedLoops: song.savedLoops ?? tags.savedLoops,
+    };
+};
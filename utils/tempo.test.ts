@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { detectTempo } from './tempo';
+
+const SAMPLE_RATE = 44100;
+
+// Click track: a low kick on each downbeat, a short high click on the other beats
+const clickTrack = (bpm: number, seconds: number, { offset = 0, beatsPerBar = 4, accent = true } = {}): Float32Array => {
+    const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+    const beatLength = 60 / bpm;
+    for (let beat = 0; offset + beat * beatLength < seconds; beat++) {
+        const start = Math.round((offset + beat * beatLength) * SAMPLE_RATE);
+        const downbeat = accent && beat % beatsPerBar === 0;
+        const frequency = downbeat ? 60 : 2000;
+        const length = Math.round((downbeat ? 0.12 : 0.03) * SAMPLE_RATE);
+        for (let i = 0; i < length && start + i < samples.length; i++) {
+            samples[start + i] += 0.8 * Math.sin(2 * Math.PI * frequency * i / SAMPLE_RATE) * Math.exp(-i / (length / 4));
+        }
+    }
+    return samples;
+};
+
+describe('detectTempo', () => {
+    it.each([92, 120, 128, 174])('finds %s BPM', bpm => {
+        expect(detectTempo(clickTrack(bpm, 30), SAMPLE_RATE)?.bpm).toBeCloseTo(bpm, 1);
+    });
+
+    it.each([64, 70, 80])('keeps slow %s BPM tracks at their own tempo', bpm => {
+        expect(detectTempo(clickTrack(bpm, 40, { accent: false }), SAMPLE_RATE)?.bpm).toBeCloseTo(bpm, 1);
+    });
+
+    it('finds a downbeat at the very start of the track', () => {
+        const grid = detectTempo(clickTrack(120, 30), SAMPLE_RATE)?.beatgrid;
+        expect(grid?.firstDownbeat).toBeLessThan(0.02);
+    });
+
+    it('places a later downbeat within the first bar', () => {
+        const grid = detectTempo(clickTrack(120, 30, { offset: 1.25 }), SAMPLE_RATE)?.beatgrid;
+        expect(grid?.firstDownbeat).toBeCloseTo(1.25, 1);
+    });
+
+    it('returns nothing for silence or short clips', () => {
+        expect(detectTempo(new Float32Array(10 * SAMPLE_RATE), SAMPLE_RATE)).toBeNull();
+        expect(detectTempo(clickTrack(120, 2), SAMPLE_RATE)).toBeNull();
+    });
+});
@@ -0,0 +1,204 @@
+import type { TempoAnalysis, Beatgrid, BeatgridAdjustment } from '../types';
+
+// --- Tempo & Beatgrid Detection ---
+// Works on raw mono samples so it can be fed synthetic click tracks as well as
+// decoded AudioBuffers (see getMonoSamples).
+
+const HOP_SIZE = 512; // ~11.6ms at 44.1kHz
+const MIN_BPM = 60;
+const MAX_BPM = 200;
+const COARSE_STEP = 0.5;
+const FINE_STEP = 0.01;
+const PREFERRED_BPM = 120;
+const LOW_BAND_CUTOFF = 150; // Hz, isolates kicks for downbeat picking
+const HALF_TEMPO_RATIO = 0.25; // Every other beat this much weaker than the rest: the tempo is half
+const DOUBLE_TEMPO_RATIO = 0.75; // Halfway points this strong compared with the beats: the tempo is double
+const MIN_ANALYSIS_SECONDS = 4;
+
+// Downmix all channels of an AudioBuffer into a single Float32Array
+export const getMonoSamples = (buffer: AudioBuffer): Float32Array => {
+    if (buffer.numberOfChannels === 1) {
+        return buffer.getChannelData(0);
+    }
+    const mono = new Float32Array(buffer.length);
+    for (let c = 0; c < buffer.numberOfChannels; c++) {
+        const data = buffer.getChannelData(c);
+        for (let i = 0; i < data.length; i++) {
+            mono[i] += data[i] / buffer.numberOfChannels;
+        }
+    }
+    return mono;
+};
+
+// Half-wave rectified log-energy difference per hop, for the full band and the low band
+const computeOnsetEnvelopes = (samples: Float32Array, sampleRate: number) => {
+    const frameCount = Math.floor(samples.length / HOP_SIZE);
+    const full = new Float32Array(frameCount);
+    const low = new Float32Array(frameCount);
+    const lowCoeff = Math.exp(-2 * Math.PI * LOW_BAND_CUTOFF / sampleRate);
+
+    let lowState = 0;
+    let prevFull = 0;
+    let prevLow = 0;
+    for (let f = 0; f < frameCount; f++) {
+        let fullEnergy = 0;
+        let lowEnergy = 0;
+        const start = f * HOP_SIZE;
+        for (let i = start; i < start + HOP_SIZE; i++) {
+            const sample = samples[i];
+            lowState = (1 - lowCoeff) * sample + lowCoeff * lowState;
+            fullEnergy += sample * sample;
+            lowEnergy += lowState * lowState;
+        }
+        const fullLog = Math.log1p(1000 * fullEnergy / HOP_SIZE);
+        const lowLog = Math.log1p(1000 * lowEnergy / HOP_SIZE);
+        // The first frame counts from silence, so a track starting on a beat has an onset there
+        full[f] = Math.max(0, fullLog - prevFull);
+        low[f] = Math.max(0, lowLog - prevLow);
+        prevFull = fullLog;
+        prevLow = lowLog;
+    }
+    return { full, low };
+};
+
+// Fourier coefficient of the onset envelope at one beat period (in frames).
+// A periodic onset train peaks here, and the angle gives the beat phase.
+const periodicity = (envelope: Float32Array, framesPerBeat: number) => {
+    const w = 2 * Math.PI / framesPerBeat;
+    const cosW = Math.cos(w);
+    const sinW = Math.sin(w);
+    let c = 1, s = 0, re = 0, im = 0;
+    for (let n = 0; n < envelope.length; n++) {
+        re += envelope[n] * c;
+        im -= envelope[n] * s;
+        const nextC = c * cosW - s * sinW;
+        s = s * cosW + c * sinW;
+        c = nextC;
+    }
+    return { magnitude: Math.hypot(re, im), phase: Math.atan2(im, re) };
+};
+
+// Onset strength on even and odd beats of a beat train, and halfway between its beats.
+// The periodicity of a pulse train peaks at twice its tempo as well, so the prior can
+// pick the wrong octave: onsets on only every other beat mean the tempo is half, and
+// onsets as strong between the beats as on them mean it's double.
+const beatStrengths = (envelope: Float32Array, framesPerBeat: number, firstBeatFrame: number) => {
+    const peak = (frame: number) => {
+        const index = Math.round(frame);
+        return Math.max(envelope[index - 1] ?? 0, envelope[index] ?? 0, envelope[index + 1] ?? 0);
+    };
+    const strengths = { even: 0, odd: 0, between: 0 };
+    for (let beat = 0; firstBeatFrame + beat * framesPerBeat < envelope.length; beat++) {
+        const frame = firstBeatFrame + beat * framesPerBeat;
+        if (beat % 2 === 0) strengths.even += peak(frame);
+        else strengths.odd += peak(frame);
+        strengths.between += peak(frame + framesPerBeat / 2);
+    }
+    return strengths;
+};
+
+// Log-gaussian weighting that resolves octave ambiguity towards typical dance tempos
+const tempoPrior = (bpm: number): number => {
+    const octaves = Math.log2(bpm / PREFERRED_BPM);
+    return Math.exp(-0.5 * (octaves / 0.9) ** 2);
+};
+
+export const detectTempo = (samples: Float32Array, sampleRate: number, beatsPerBar = 4): TempoAnalysis | null => {
+    if (samples.length < sampleRate * MIN_ANALYSIS_SECONDS) return null;
+
+    const { full, low } = computeOnsetEnvelopes(samples, sampleRate);
+    const framesPerSecond = sampleRate / HOP_SIZE;
+    const bpmToFrames = (bpm: number) => framesPerSecond * 60 / bpm;
+
+    let totalOnset = 0;
+    for (let i = 0; i < full.length; i++) totalOnset += full[i];
+    if (totalOnset === 0) return null; // Silence
+
+    // Coarse scan over the whole tempo range, weighted by the prior
+    let bestBpm = 0;
+    let bestScore = 0;
+    for (let bpm = MIN_BPM; bpm <= MAX_BPM; bpm += COARSE_STEP) {
+        const score = periodicity(full, bpmToFrames(bpm)).magnitude * tempoPrior(bpm);
+        if (score > bestScore) {
+            bestScore = score;
+            bestBpm = bpm;
+        }
+    }
+    if (bestBpm === 0) return null;
+
+    // Fine scan around a candidate, unweighted, for sub-0.1 BPM precision
+    const refine = (center: number) => {
+        let best = { bpm: center, ...periodicity(full, bpmToFrames(center)) };
+        for (let bpm = center - COARSE_STEP; bpm <= center + COARSE_STEP; bpm += FINE_STEP) {
+            const result = periodicity(full, bpmToFrames(bpm));
+            if (result.magnitude > best.magnitude) {
+                best = { bpm, ...result };
+            }
+        }
+        return best;
+    };
+
+    // Phase of the beat train: pulses at n0 + k*P give an angle of -2*PI*n0/P. It's kept
+    // within half a frame either side of the start, so a beat on the first frame is beat 0.
+    const getFirstBeatFrame = ({ bpm, phase }: { bpm: number, phase: number }) => {
+        const framesPerBeat = bpmToFrames(bpm);
+        const frame = (-phase / (2 * Math.PI)) * framesPerBeat;
+        return ((frame + 0.5) % framesPerBeat + framesPerBeat) % framesPerBeat - 0.5;
+    };
+
+    // Octave check, within the range of tempos we detect
+    let refined = refine(bestBpm);
+    const { even, odd, between } = beatStrengths(full, bpmToFrames(refined.bpm), getFirstBeatFrame(refined));
+    if (Math.min(even, odd) < HALF_TEMPO_RATIO * Math.max(even, odd) && refined.bpm / 2 >= MIN_BPM) {
+        refined = refine(refined.bpm / 2);
+    } else if (between > DOUBLE_TEMPO_RATIO * (even + odd) && refined.bpm * 2 <= MAX_BPM) {
+        refined = refine(refined.bpm * 2);
+    }
+
+    const framesPerBeat = bpmToFrames(refined.bpm);
+    const confidence = Math.min(1, refined.magnitude / totalOnset);
+    const firstBeatFrame = getFirstBeatFrame(refined);
+
+    // Downbeat: the beat position within the bar that carries the most low-end onset energy
+    let downbeatIndex = 0;
+    let bestLowEnergy = -1;
+    for (let b = 0; b < beatsPerBar; b++) {
+        let energy = 0;
+        for (let frame = firstBeatFrame + b * framesPerBeat; frame < low.length; frame += framesPerBeat * beatsPerBar) {
+            energy += low[Math.round(frame)] ?? 0;
+        }
+        if (energy > bestLowEnergy) {
+            bestLowEnergy = energy;
+            downbeatIndex = b;
+        }
+    }
+
+    // Onsets are detected in the frame that contains them, so report the frame centre
+    const firstDownbeat = Math.max(0, firstBeatFrame + downbeatIndex * framesPerBeat + 0.5) / framesPerSecond;
+    const bpm = Math.round(refined.bpm * 100) / 100;
+
+    return {
+        bpm,
+        confidence,
+        beatgrid: { bpm, firstDownbeat, beatsPerBar },
+    };
+};
+
+export const analyzeTempo = (buffer: AudioBuffer): TempoAnalysis | null => {
+    return detectTempo(getMonoSamples(buffer), buffer.sampleRate);
+};
+
+
+// --- Manual Grid Edits ---
+// The first downbeat is kept within the first bar, like a detected grid
+export const adjustBeatgrid = (grid: Beatgrid, adjustment: BeatgridAdjustment): Beatgrid => {
+    const withDownbeat = (target: Beatgrid, time: number): Beatgrid => {
+        const barLength = target.beatsPerBar * 60 / target.bpm;
+        return { ...target, firstDownbeat: ((time % barLength) + barLength) % barLength };
+    };
+    switch (adjustment.type) {
+        case 'shift': return withDownbeat(grid, grid.firstDownbeat + adjustment.seconds);
+        case 'setDownbeat': return withDownbeat(grid, adjustment.time);
+        case 'setBpm': return withDownbeat({ ...grid, bpm: adjustment.bpm }, grid.firstDownbeat);
+    }
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { createPitchShifter, timeStretch, getPitchShifterLatency } from './timeStretch';
+
+const SAMPLE_RATE = 44100;
+
+const tone = (frequency: number, seconds: number): Float32Array => {
+    const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+    for (let i = 0; i < samples.length; i++) samples[i] = 0.5 * Math.sin(2 * Math.PI * frequency * i / SAMPLE_RATE);
+    return samples;
+};
+
+// Frequency from upward zero crossings over the middle half, away from the edges
+const measureFrequency = (samples: Float32Array): number => {
+    const crossings: number[] = [];
+    for (let i = Math.floor(samples.length / 4); i < 3 * samples.length / 4; i++) {
+        if (samples[i - 1] < 0 && samples[i] >= 0) crossings.push(i - 1 + samples[i - 1] / (samples[i - 1] - samples[i]));
+    }
+    return (crossings.length - 1) * SAMPLE_RATE / (crossings[crossings.length - 1] - crossings[0]);
+};
+
+const rms = (samples: Float32Array): number => Math.sqrt(samples.reduce((sum, x) => sum + x * x, 0) / samples.length);
+
+describe('timeStretch', () => {
+    it.each([0.8, 1.25, 1.5])('keeps 440 Hz at rate %s and lasts 1 / rate as long', rate => {
+        const input = tone(440, 2);
+        const [output] = timeStretch([input], SAMPLE_RATE, rate);
+        expect(output.length).toBe(Math.floor(input.length / rate));
+        expect(measureFrequency(output)).toBeCloseTo(440, 0);
+        // Grains add in phase: no dips in level from smearing
+        const middle = output.subarray(output.length / 4, 3 * output.length / 4);
+        expect(rms(middle)).toBeCloseTo(0.5 / Math.SQRT2, 1);
+    });
+});
+
+describe('createPitchShifter', () => {
+    const shift = (input: Float32Array, ratio: number): Float32Array => {
+        const shifter = createPitchShifter(SAMPLE_RATE, 1);
+        const output = new Float32Array(input.length);
+        for (let start = 0; start + 128 <= input.length; start += 128) {
+            shifter.process([input.subarray(start, start + 128)], [output.subarray(start, start + 128)], ratio);
+        }
+        return output;
+    };
+
+    it('transposes by the pitch ratio', () => {
+        expect(measureFrequency(shift(tone(440, 1), 2 ** (7 / 12)))).toBeCloseTo(440 * 2 ** (7 / 12), 0);
+        expect(measureFrequency(shift(tone(440, 1), 0.5))).toBeCloseTo(220, 0);
+    });
+
+    it('is a plain delay by its latency at ratio 1', () => {
+        const input = tone(440, 0.5);
+        const output = shift(input, 1);
+        const latency = getPitchShifterLatency(SAMPLE_RATE);
+        for (let i = 8192; i < 8192 + 256; i++) expect(output[i]).toBeCloseTo(input[i - latency], 4);
+    });
+});
@@ -0,0 +1,181 @@
+// --- Time-Stretch ---
+// Key lock keeps a deck's buffer source running at the tempo rate, which moves the
+// pitch along with it, and sends it through a pitch shifter set to the inverse
+// ratio: the tempo change stays, the pitch change is undone.
+//
+// The shifter is WSOLA. Hann-windowed grains start every half grain, and each one
+// reads through the input at the pitch ratio. Before a grain starts, its read
+// position is moved by up to a quarter grain to where the input best matches the
+// previous grain's continuation, so overlapping grains add in phase instead of
+// smearing. At ratio 1 every grain continues the last one and the shifter is a
+// plain delay.
+//
+// A grain centred on output time t reads input time t - latency, however fast
+// it reads, so the output lags the input by a fixed latency. Decks make up for
+// it by starting their source that much further into the track.
+
+export const KEY_LOCK_PROCESSOR = 'key-lock'; // AudioWorklet processor, see workers/keyLock.worklet
+export const MIN_PITCH_RATIO = 0.5;
+export const MAX_PITCH_RATIO = 2;
+
+const GRAIN_SECONDS = 2048 / 44100;
+const CORRELATION_STEP = 4; // Samples skipped while matching; grains only need to line up, not be exact
+
+interface Grain {
+    start: number; // Output sample where the grain starts
+    read: number; // Input sample read at the grain's start
+    ratio: number;
+}
+
+export interface PitchShifter {
+    // One block in, one block out. Missing input channels repeat the first (mono -> stereo); no input is silence.
+    process: (input: Float32Array[], output: Float32Array[], ratio: number) => void;
+    latency: number; // samples
+}
+
+const getGrainSize = (sampleRate: number) => 2 * Math.round(GRAIN_SECONDS * sampleRate / 2);
+
+// Lag between input and output. A quarter grain of search either side, a quarter
+// grain of matching and a quarter grain of drift over the half grain up to the
+// centre at the extreme ratios, plus a sample for interpolation, all have to have
+// arrived before they are read.
+export const getPitchShifterLatency = (sampleRate: number): number => 3 * getGrainSize(sampleRate) / 4 + 1;
+
+export const createPitchShifter = (sampleRate: number, channelCount: number): PitchShifter => {
+    const grainSize = getGrainSize(sampleRate);
+    const hop = grainSize / 2;
+    const search = grainSize / 4;
+    const matchLength = grainSize / 4;
+    const latency = getPitchShifterLatency(sampleRate);
+
+    let ringSize = 1;
+    while (ringSize < 4 * grainSize) ringSize *= 2;
+    const mask = ringSize - 1;
+    const history = Array.from({ length: channelCount }, () => new Float32Array(ringSize));
+    const mono = new Float32Array(ringSize); // Channel sum, for matching
+
+    const window = new Float32Array(grainSize);
+    for (let i = 0; i < grainSize; i++) {
+        // Periodic Hann: overlapping at half a grain the windows sum to 1
+        window[i] = 0.5 - 0.5 * Math.cos(2 * Math.PI * i / grainSize);
+    }
+
+    let position = 0; // Samples in so far, which is also samples out
+    let grains: Grain[] = [];
+
+    const read = (buffer: Float32Array, at: number): number => {
+        const index = Math.floor(at);
+        const fraction = at - index;
+        const a = buffer[index & mask];
+        return a + (buffer[(index + 1) & mask] - a) * fraction;
+    };
+
+    // Normalised correlation of the input at `candidate` with the input at `target`
+    const similarity = (candidate: number, target: number): number => {
+        let product = 0;
+        let energy = 0;
+        for (let i = 0; i < matchLength; i += CORRELATION_STEP) {
+            const x = mono[(candidate + i) & mask];
+            product += x * mono[(target + i) & mask];
+            energy += x * x;
+        }
+        return energy > 0 ? product / Math.sqrt(energy) : 0;
+    };
+
+    const startGrain = (ratio: number) => {
+        // Nominal read start puts the grain's centre at `latency` behind the output
+        const nominal = Math.round(position + hop - latency - ratio * hop);
+        const previous = grains[grains.length - 1];
+        let offset = 0;
+        if (previous) {
+            const target = Math.round(previous.read + previous.ratio * (position - previous.start));
+            // The plain continuation wins ties, so periodic input doesn't hop between periods
+            let best = -Infinity;
+            if (Math.abs(target - nominal) <= search) {
+                offset = target - nominal;
+                best = similarity(target, target);
+            }
+            for (let candidate = -search; candidate <= search; candidate += 2) {
+                const score = similarity(nominal + candidate, target);
+                if (score > best) {
+                    best = score;
+                    offset = candidate;
+                }
+            }
+            const coarse = offset;
+            for (const candidate of [coarse - 1, coarse + 1]) {
+                if (Math.abs(candidate) > search) continue;
+                const score = similarity(nominal + candidate, target);
+                if (score > best) {
+                    best = score;
+                    offset = candidate;
+                }
+            }
+        }
+        grains = [...grains.filter(grain => position - grain.start < grainSize), { start: position, read: nominal + offset, ratio }];
+    };
+
+    const process = (input: Float32Array[], output: Float32Array[], ratio: number) => {
+        const blockSize = output[0]?.length ?? 0;
+        const clampedRatio = Math.min(MAX_PITCH_RATIO, Math.max(MIN_PITCH_RATIO, ratio));
+
+        for (let i = 0; i < blockSize; i++) {
+            const at = (position + i) & mask;
+            let sum = 0;
+            for (let channel = 0; channel < channelCount; channel++) {
+                const source = input[channel] ?? input[0];
+                const value = source ? source[i] : 0;
+                history[channel][at] = value;
+                sum += value;
+            }
+            mono[at] = sum;
+        }
+
+        for (let i = 0; i < blockSize; i++) {
+            if (position % hop === 0) startGrain(clampedRatio);
+            for (let channel = 0; channel < output.length; channel++) {
+                const buffer = history[Math.min(channel, channelCount - 1)];
+                let value = 0;
+                for (const grain of grains) {
+                    const offset = position - grain.start;
+                    if (offset >= grainSize) continue;
+                    value += window[offset] * read(buffer, grain.read + grain.ratio * offset);
+                }
+                output[channel][i] = value;
+            }
+            position++;
+        }
+    };
+
+    return { process, latency };
+};
+
+// Stretches whole channels the way a key-locked deck plays them: read at `rate`,
+// then pitch-shifted back. The result lasts 1 / rate as long at the original pitch.
+export const timeStretch = (channels: Float32Array[], sampleRate: number, rate: number, blockSize = 128): Float32Array[] => {
+    const length = Math.floor(channels[0].length / rate);
+    const shifter = createPitchShifter(sampleRate, channels.length);
+    const output = channels.map(() => new Float32Array(length));
+    const input = channels.map(() => new Float32Array(blockSize));
+    const block = channels.map(() => new Float32Array(blockSize));
+
+    // Run past the end by the latency and drop the first `latency` samples out
+    for (let start = 0; start < length + shifter.latency; start += blockSize) {
+        channels.forEach((channel, c) => {
+            for (let i = 0; i < blockSize; i++) {
+                const at = (start + i) * rate;
+                const index = Math.floor(at);
+                const next = index + 1 < channel.length ? channel[index + 1] : 0;
+                input[c][i] = index < channel.length ? channel[index] + (next - channel[index]) * (at - index) : 0;
+            }
+        });
+        shifter.process(input, block, 1 / rate);
+        block.forEach((samples, c) => {
+            for (let i = 0; i < blockSize; i++) {
+                const at = start + i - shifter.latency;
+                if (at >= 0 && at < length) output[c][at] = samples[i];
+            }
+        });
+    }
+    return output;
+};
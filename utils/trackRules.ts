@@ -0,0 +1,94 @@
+import type { Song, SmartRule, NumericComparison, PlaySession, AutoDjSettings, TrackColor } from '../types';
+import { getCompatibleKeys } from './key';
+import { parseSearchQuery, compileSearchQuery } from './searchQuery';
+
+// --- Track Rules ---
+// Song predicates shared by smart crates and the Auto DJ criteria in getNextTrack,
+// so a rule like "BPM within 5 of 124" selects the same tracks in both places.
+// Songs missing the data a rule needs (e.g. not analyzed yet) don't match.
+
+export type SongPredicate = (song: Song) => boolean;
+
+export interface RuleContext {
+    playHistory: PlaySession[]; // Newest first
+}
+
+const compare = (value: number, comparison: NumericComparison, target: number): boolean => {
+    switch (comparison) {
+        case '<': return value < target;
+        case '<=': return value <= target;
+        case '=': return value === target;
+        case '>=': return value >= target;
+        case '>': return value > target;
+    }
+};
+
+export const isBpmWithin = (min: number, max: number): SongPredicate => {
+    return song => !!song.bpm && song.bpm >= min && song.bpm <= max;
+};
+
+// The Camelot neighbours of a key, as the Auto DJ harmonic mix has always picked them
+export const isKeyCompatibleWith = (key: string): SongPredicate => {
+    const compatibleKeys = new Set(getCompatibleKeys(key));
+    return song => !!song.key && compatibleKeys.has(song.key);
+};
+
+export const isGenreIn = (genres: string[]): SongPredicate => {
+    const wanted = new Set(genres);
+    return song => !!song.genre && wanted.has(song.genre);
+};
+
+export const hasEnergy = (comparison: NumericComparison, value: number): SongPredicate => {
+    return song => !!song.energy && compare(song.energy, comparison, value);
+};
+
+export const hasRatingAtLeast = (stars: number): SongPredicate => {
+    return song => (song.rating ?? 0) >= stars;
+};
+
+export const hasColorIn = (colors: TrackColor[]): SongPredicate => {
+    const wanted = new Set(colors);
+    return song => !!song.color && wanted.has(song.color);
+};
+
+export const hasAllTags = (tags: string[]): SongPredicate => {
+    return song => tags.every(tag => song.tags?.includes(tag));
+};
+
+export const matchesEnergyFlow = (flow: AutoDjSettings['energyFlow'], currentEnergy: number): SongPredicate => {
+    switch (flow) {
+        case 'Maintain': return song => hasEnergy('>=', currentEnergy - 2)(song) && hasEnergy('<=', currentEnergy + 2)(song);
+        case 'Increase': return hasEnergy('>', currentEnergy);
+        case 'Decrease': return hasEnergy('<', currentEnergy);
+        default: return () => true;
+    }
+};
+
+export const wasNotPlayedInLastSessions = (playHistory: PlaySession[], sessions: number): SongPredicate => {
+    const recentlyPlayed = new Set(playHistory.slice(0, sessions).flatMap(session => session.songIds));
+    return song => !recentlyPlayed.has(song.id);
+};
+
+export const ruleToPredicate = (rule: SmartRule, context: RuleContext): SongPredicate => {
+    switch (rule.type) {
+        case 'bpmRange': return isBpmWithin(rule.min, rule.max);
+        case 'keyCompatible': return isKeyCompatibleWith(rule.key);
+        case 'energy': return hasEnergy(rule.comparison, rule.value);
+        case 'genreIn': return isGenreIn(rule.genres);
+        case 'notPlayedInLastSessions': return wasNotPlayedInLastSessions(context.playHistory, rule.sessions);
+        case 'query': {
+            // A query that no longer parses matches nothing rather than everything
+            const { ast, error } = parseSearchQuery(rule.query);
+            return error ? () => false : compileSearchQuery(ast, context);
+        }
+    }
+};
+
+// A smart crate with no rules matches the whole library
+export const evaluateSmartRules = (library: Song[], rules: SmartRule[], matchAll: boolean, context: RuleContext): Song[] => {
+    if (rules.length === 0) return library;
+    const predicates = rules.map(rule => ruleToPredicate(rule, context));
+    return library.filter(song => matchAll
+        ? predicates.every(predicate => predicate(song))
+        : predicates.some(predicate => predicate(song)));
+};
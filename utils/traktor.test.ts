@@ -0,0 +1,75 @@
+// @vitest-environment jsdom
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import type { PlaylistNode, Song } from '../types';
+import { parseTraktorNml, exportTraktorNml } from './traktor';
+import { parseRekordboxXml } from './rekordbox';
+import { mergeLibraryImport, type LibraryImport } from './libraryImport';
+
+const fixture = readFileSync(join(__dirname, 'fixtures/traktor-collection.nml'), 'utf8');
+
+// Exports what `data` merges into an empty library to NML and reads it back
+const roundTrip = (data: LibraryImport, musicFolder: string): LibraryImport => {
+    const { library, playlists } = mergeLibraryImport([], [], data);
+    const songsById = new Map(library.map(song => [song.id, song]));
+    const getPlaylistSongs = (node: PlaylistNode): Song[] => node.songIds.flatMap(id => songsById.get(id) ?? []);
+    return parseTraktorNml(exportTraktorNml(library, playlists, getPlaylistSongs, musicFolder));
+};
+
+describe('parseTraktorNml', () => {
+    const data = parseTraktorNml(fixture);
+    const [nightDrive, glass] = data.tracks;
+
+    it('reads track details, the musical key and the grid anchor', () => {
+        expect(nightDrive.id).toBe('Macintosh HD/:Users/:dj/:Music/:Night Drive.mp3');
+        expect(nightDrive.details).toMatchObject({ title: 'Night Drive', artist: 'Lumen', album: 'Late Hours', genre: 'Deep House', comment: 'Warm-up', year: 2021, bpm: 122, key: '8A' });
+        expect(nightDrive.details.beatgrid?.firstDownbeat).toBeCloseTo(1.6234, 4);
+        expect(glass.fileName).toBe('Glass & Steel.wav');
+        expect(glass.details).toMatchObject({ bpm: 132.5, key: '12B', beatgrid: undefined });
+    });
+
+    it('maps CUE_V2 markers to hot cues, saved loops and the memory cue', () => {
+        expect(nightDrive.details.cuePoints).toEqual([
+            undefined,
+            { time: 0.148, type: 'cue', label: 'Intro' },
+            { time: 350, type: 'fadeOut' },
+            { time: 96, end: 97.967, type: 'loop', label: 'Roll' },
+        ]);
+        expect(nightDrive.details.savedLoops).toEqual([{ start: 320, end: 327.869, label: 'Outro loop' }]);
+        expect(nightDrive.details.memoryCue).toBe(16.01);
+    });
+
+    it('reads playlists and skips smart lists', () => {
+        expect(data.playlists).toEqual([{
+            name: 'Gigs', type: 'folder', trackIds: [], children: [
+                { name: 'Friday', type: 'playlist', children: [], trackIds: [glass.id, nightDrive.id] },
+            ],
+        }]);
+    });
+});
+
+describe('exportTraktorNml', () => {
+    it('round-trips the fixture through the library', () => {
+        const imported = parseTraktorNml(fixture);
+        const exported = roundTrip(imported, 'Macintosh HD/Users/dj/Music');
+        expect(exported.tracks.map(track => track.fileName)).toEqual(imported.tracks.map(track => track.fileName));
+        exported.tracks.forEach((track, index) => {
+            const { beatgrid, ...details } = imported.tracks[index].details;
+            expect(track.details).toMatchObject(details);
+            if (beatgrid) expect(track.details.beatgrid?.firstDownbeat).toBeCloseTo(beatgrid.firstDownbeat, 6);
+            else expect(track.details.beatgrid).toBeUndefined();
+        });
+        // The merge puts the playlists in a 'Traktor' folder
+        const [friday] = exported.playlists[0].children[0].children;
+        expect(friday.trackIds.map(id => exported.tracks.find(track => track.id === id)?.fileName)).toEqual(['Glass & Steel.wav', 'Night Drive.mp3']);
+    });
+
+    it('carries Rekordbox cues over, apart from their colours', () => {
+        const rekordbox = parseRekordboxXml(readFileSync(join(__dirname, 'fixtures/rekordbox-collection.xml'), 'utf8'));
+        const [track] = roundTrip(rekordbox, '/Users/dj/Music').tracks;
+        expect(track.details.cuePoints).toEqual(rekordbox.tracks[0].details.cuePoints!.map(cue => cue && { ...cue, color: undefined }));
+        expect(track.details.savedLoops).toEqual(rekordbox.tracks[0].details.savedLoops);
+        expect(track.details.memoryCue).toBe(rekordbox.tracks[0].details.memoryCue);
+    });
+});
@@ -0,0 +1,232 @@
+import type { Song, PlaylistNode, SavedLoop, HotCue, CueType } from '../types';
+import { toCamelot } from './key';
+import { xmlAttrs, type LibraryImport, type ImportedTrack, type ImportedPlaylist } from './libraryImport';
+
+// --- Traktor NML ---
+// Reads and writes Traktor's collection.nml. Positions in CUE_V2 are milliseconds;
+// the grid anchor is the CUE_V2 of type 4. Cues with a HOTCUE slot become hot cues of
+// the matching type; without one, loops are saved loops and the first plain cue is the
+// memory cue. Cue names carry over; Traktor colours cues by type, so cue colours don't.
+// Playlists reference tracks by VOLUME + DIR + FILE, where DIR uses '/:' as its path separator.
+
+const CUE_TYPE_CUE = '0';
+const CUE_TYPE_GRID = '4';
+const CUE_TYPE_LOOP = '5';
+const CUE_TYPES: Record<string, CueType> = { '0': 'cue', '1': 'fadeIn', '2': 'fadeOut', '3': 'load', '5': 'loop' };
+const CUE_TYPE_CODES = Object.fromEntries(Object.entries(CUE_TYPES).map(([code, type]) => [type, code])) as Record<CueType, string>;
+const MAX_HOT_CUES = 8;
+const UNNAMED_CUE = 'n.n.'; // Traktor's name for cues the user hasn't named
+
+// MUSICAL_KEY VALUE: 0-11 are C..B major, 12-23 are C..B minor
+const musicalKeyToCamelot = (value: number): string | undefined => {
+    if (!Number.isInteger(value) || value < 0 || value > 23) return undefined;
+    return value < 12 ? toCamelot(value, 'major') : toCamelot(value - 12, 'minor');
+};
+
+const camelotToMusicalKey = (camelot: string): number | undefined => {
+    for (let value = 0; value < 24; value++) {
+        if (musicalKeyToCamelot(value) === camelot) return value;
+    }
+    return undefined;
+};
+
+const child = (element: Element, tagName: string): Element | undefined => {
+    return Array.from(element.children).find(c => c.tagName === tagName);
+};
+
+const numberAttr = (element: Element | undefined, name: string): number | undefined => {
+    const value = parseFloat(element?.getAttribute(name) ?? '');
+    return Number.isFinite(value) ? value : undefined;
+};
+
+const textAttr = (element: Element | undefined, name: string): string | undefined => {
+    return element?.getAttribute(name)?.trim() || undefined;
+};
+
+const primaryKey = (location: Element | undefined): string => {
+    if (!location) return '';
+    return `${location.getAttribute('VOLUME') ?? ''}${location.getAttribute('DIR') ?? ''}${location.getAttribute('FILE') ?? ''}`;
+};
+
+const readEntry = (entry: Element): ImportedTrack => {
+    const location = child(entry, 'LOCATION');
+    const info = child(entry, 'INFO');
+    const bpm = numberAttr(child(entry, 'TEMPO'), 'BPM');
+    const keyValue = numberAttr(child(entry, 'MUSICAL_KEY'), 'VALUE');
+    const key = keyValue !== undefined ? musicalKeyToCamelot(keyValue) : undefined;
+
+    const cuePoints: (HotCue | undefined)[] = [];
+    const savedLoops: SavedLoop[] = [];
+    let memoryCue: number | undefined;
+    let gridAnchor: number | undefined;
+    Array.from(entry.children).filter(c => c.tagName === 'CUE_V2').forEach(cue => {
+        const start = numberAttr(cue, 'START');
+        if (start === undefined) return;
+        const type = cue.getAttribute('TYPE');
+        const hotcue = numberAttr(cue, 'HOTCUE') ?? -1;
+        const name = textAttr(cue, 'NAME');
+        const label = name !== UNNAMED_CUE ? name : undefined;
+        const length = numberAttr(cue, 'LEN') ?? 0;
+        const cueType = CUE_TYPES[type ?? ''];
+        if (type === CUE_TYPE_GRID) {
+            gridAnchor ??= start / 1000;
+        } else if (!cueType || (cueType === 'loop' && length <= 0)) {
+            return;
+        } else if (hotcue >= 0 && hotcue < MAX_HOT_CUES) {
+            const hotCue: HotCue = { time: start / 1000, type: cueType };
+            if (cueType === 'loop') hotCue.end = (start + length) / 1000;
+            if (label) hotCue.label = label;
+            cuePoints[hotcue] = hotCue;
+        } else if (hotcue < 0 && cueType === 'loop') {
+            const loop: SavedLoop = { start: start / 1000, end: (start + length) / 1000 };
+            if (label) loop.label = label;
+            savedLoops.push(loop);
+        } else if (hotcue < 0 && cueType === 'cue') {
+            memoryCue ??= start / 1000;
+        }
+    });
+
+    const beatgrid = bpm && gridAnchor !== undefined
+        ? { bpm, firstDownbeat: ((gridAnchor % (240 / bpm)) + 240 / bpm) % (240 / bpm), beatsPerBar: 4 }
+        : undefined;
+
+    return {
+        id: primaryKey(location),
+        fileName: location?.getAttribute('FILE') ?? '',
+        details: {
+            title: textAttr(entry, 'TITLE'),
+            artist: textAttr(entry, 'ARTIST'),
+            album: textAttr(child(entry, 'ALBUM'), 'TITLE'),
+            genre: textAttr(info, 'GENRE'),
+            taggedGenre: textAttr(info, 'GENRE'),
+            comment: textAttr(info, 'COMMENT'),
+            year: parseInt(info?.getAttribute('RELEASE_DATE') ?? '') || undefined,
+            bpm,
+            taggedBpm: bpm,
+            key,
+            taggedKey: key,
+            beatgrid,
+            beatgridLocked: beatgrid ? true : undefined,
+            cuePoints: cuePoints.length > 0 ? cuePoints : undefined,
+            memoryCue,
+            savedLoops: savedLoops.length > 0 ? savedLoops : undefined,
+        },
+    };
+};
+
+const readNode = (node: Element): ImportedPlaylist | null => {
+    const name = node.getAttribute('NAME') ?? '';
+    if (node.getAttribute('TYPE') === 'PLAYLIST') {
+        const playlist = child(node, 'PLAYLIST');
+        const trackIds = playlist
+            ? Array.from(playlist.children)
+                .filter(c => c.tagName === 'ENTRY')
+                .map(entry => child(entry, 'PRIMARYKEY')?.getAttribute('KEY') ?? '')
+            : [];
+        return { name, type: 'playlist', children: [], trackIds };
+    }
+    if (node.getAttribute('TYPE') === 'FOLDER') {
+        const subnodes = child(node, 'SUBNODES');
+        const children = subnodes ? Array.from(subnodes.children).filter(c => c.tagName === 'NODE').map(readNode) : [];
+        return { name, type: 'folder', children: children.filter((c): c is ImportedPlaylist => c !== null), trackIds: [] };
+    }
+    return null; // Smart lists and other node types have no equivalent
+};
+
+export const parseTraktorNml = (xml: string): LibraryImport => {
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0 || doc.documentElement.tagName !== 'NML') {
+        throw new Error("Not a Traktor collection file (expected an NML document).");
+    }
+    const collection = doc.getElementsByTagName('COLLECTION')[0];
+    const tracks = collection
+        ? Array.from(collection.children).filter(c => c.tagName === 'ENTRY').map(readEntry).filter(track => track.fileName)
+        : [];
+
+    // Skip the $ROOT folder itself
+    const root = doc.getElementsByTagName('PLAYLISTS')[0]?.getElementsByTagName('NODE')[0];
+    const rootNode = root ? readNode(root) : null;
+
+    return { source: 'Traktor', tracks, playlists: rootNode?.children ?? [] };
+};
+
+// --- Export ---
+
+// Splits a folder like 'C:\Music\House' or '/Users/me/Music' into Traktor's VOLUME and DIR
+const toTraktorLocation = (musicFolder: string, fileName: string) => {
+    const segments = musicFolder.split(/[\\/]/).filter(Boolean);
+    const volume = segments[0] && /^[A-Za-z]:$/.test(segments[0]) ? segments.shift()! : '';
+    const dir = `/:${segments.map(segment => `${segment}/:`).join('')}`;
+    return { VOLUME: volume, DIR: dir, FILE: fileName, key: `${volume}${dir}${fileName}` };
+};
+
+const formatMs = (seconds: number) => (seconds * 1000).toFixed(6);
+
+const entryXml = (song: Song, musicFolder: string): string => {
+    const location = toTraktorLocation(musicFolder, song.name);
+    const lines = [
+        `<ENTRY ${xmlAttrs({ TITLE: song.title ?? song.name.replace(/\.[^.]+$/, ''), ARTIST: song.artist })}>`,
+        `<LOCATION ${xmlAttrs({ DIR: location.DIR, FILE: location.FILE, VOLUME: location.VOLUME, VOLUMEID: location.VOLUME })}></LOCATION>`,
+    ];
+    if (song.album) lines.push(`<ALBUM ${xmlAttrs({ TITLE: song.album })}></ALBUM>`);
+    lines.push(`<INFO ${xmlAttrs({ GENRE: song.genre, COMMENT: song.comment, RELEASE_DATE: song.year ? `${song.year}/1/1` : undefined, FILESIZE: song.file.size ? Math.round(song.file.size / 1024) : undefined })}></INFO>`);
+    if (song.bpm) lines.push(`<TEMPO ${xmlAttrs({ BPM: song.bpm.toFixed(6), BPM_QUALITY: '100.000000' })}></TEMPO>`);
+    const musicalKey = song.key ? camelotToMusicalKey(song.key) : undefined;
+    if (musicalKey !== undefined) lines.push(`<MUSICAL_KEY VALUE="${musicalKey}"></MUSICAL_KEY>`);
+
+    let displayOrder = 0;
+    if (song.beatgrid) {
+        lines.push(`<CUE_V2 ${xmlAttrs({ NAME: 'AutoGrid', DISPL_ORDER: displayOrder++, TYPE: CUE_TYPE_GRID, START: formatMs(song.beatgrid.firstDownbeat), LEN: '0.000000', REPEATS: -1, HOTCUE: -1 })}></CUE_V2>`);
+    }
+    if (song.memoryCue !== undefined) {
+        lines.push(`<CUE_V2 ${xmlAttrs({ NAME: UNNAMED_CUE, DISPL_ORDER: displayOrder++, TYPE: CUE_TYPE_CUE, START: formatMs(song.memoryCue), LEN: '0.000000', REPEATS: -1, HOTCUE: -1 })}></CUE_V2>`);
+    }
+    song.cuePoints?.forEach((cue, hotcue) => {
+        if (cue === undefined) return;
+        const isLoop = cue.type === 'loop' && cue.end !== undefined;
+        // A loop cue without an end can only be written as a plain cue
+        const type = isLoop ? CUE_TYPE_LOOP : cue.type === 'loop' ? CUE_TYPE_CUE : CUE_TYPE_CODES[cue.type];
+        const length = isLoop ? formatMs(cue.end! - cue.time) : '0.000000';
+        lines.push(`<CUE_V2 ${xmlAttrs({ NAME: cue.label || UNNAMED_CUE, DISPL_ORDER: displayOrder++, TYPE: type, START: formatMs(cue.time), LEN: length, REPEATS: -1, HOTCUE: hotcue })}></CUE_V2>`);
+    });
+    song.savedLoops?.forEach(loop => {
+        lines.push(`<CUE_V2 ${xmlAttrs({ NAME: loop.label || UNNAMED_CUE, DISPL_ORDER: displayOrder++, TYPE: CUE_TYPE_LOOP, START: formatMs(loop.start), LEN: formatMs(loop.end - loop.start), REPEATS: -1, HOTCUE: -1 })}></CUE_V2>`);
+    });
+    lines.push('</ENTRY>');
+    return lines.join('');
+};
+
+// Playlist contents come from the caller so smart crates are exported as their current result
+export const exportTraktorNml = (
+    library: Song[],
+    playlists: PlaylistNode[],
+    getPlaylistSongs: (node: PlaylistNode) => Song[],
+    musicFolder = '',
+): string => {
+    const keys = new Map(library.map(song => [song.id, toTraktorLocation(musicFolder, song.name).key]));
+
+    const nodeXml = (node: PlaylistNode): string => {
+        if (node.type === 'folder') {
+            const children = playlists.filter(c => c.parentId === node.id);
+            return `<NODE TYPE="FOLDER" ${xmlAttrs({ NAME: node.name })}><SUBNODES COUNT="${children.length}">${children.map(nodeXml).join('')}</SUBNODES></NODE>`;
+        }
+        const entries = getPlaylistSongs(node).flatMap(song => keys.get(song.id) ?? []);
+        return `<NODE TYPE="PLAYLIST" ${xmlAttrs({ NAME: node.name })}><PLAYLIST ${xmlAttrs({ ENTRIES: entries.length, TYPE: 'LIST', UUID: crypto.randomUUID().replace(/-/g, '') })}>`
+            + entries.map(key => `<ENTRY><PRIMARYKEY TYPE="TRACK" ${xmlAttrs({ KEY: key })}></PRIMARYKEY></ENTRY>`).join('')
+            + '</PLAYLIST></NODE>';
+    };
+
+    const topLevel = playlists.filter(node => node.parentId === null);
+    return [
+        '<?xml version="1.0" encoding="UTF-8" standalone="no" ?>',
+        '<NML VERSION="19"><HEAD COMPANY="www.native-instruments.com" PROGRAM="Traktor"></HEAD>',
+        '<MUSICFOLDERS></MUSICFOLDERS>',
+        `<COLLECTION ENTRIES="${library.length}">`,
+        ...library.map(song => entryXml(song, musicFolder)),
+        '</COLLECTION>',
+        '<SETS ENTRIES="0"></SETS>',
+        `<PLAYLISTS><NODE TYPE="FOLDER" NAME="$ROOT"><SUBNODES COUNT="${topLevel.length}">${topLevel.map(nodeXml).join('')}</SUBNODES></NODE></PLAYLISTS>`,
+        '</NML>',
+        '',
+    ].join('\n');
+};
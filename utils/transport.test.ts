@@ -0,0 +1,180 @@
+import { describe, expect, it, vi } from 'vitest';
+import { advancePlayhead, createClockScheduler, createDeckTransport, type SourceFactory } from './transport';
+
+// Just enough of the Web Audio API for the transport: a clock the test sets, buffers and sources that record their calls
+
+const createFakeBuffer = (channels: number[][], sampleRate: number): AudioBuffer => {
+    const data = channels.map(samples => Float32Array.from(samples));
+    return {
+        numberOfChannels: data.length,
+        length: data[0].length,
+        sampleRate,
+        duration: data[0].length / sampleRate,
+        getChannelData: (channel: number) => data[channel],
+        copyToChannel: (source: Float32Array, channel: number) => data[channel].set(source),
+    } as unknown as AudioBuffer;
+};
+
+const createFakeContext = () => ({
+    currentTime: 0,
+    createBuffer: (channels: number, length: number, sampleRate: number) =>
+        createFakeBuffer(Array.from({ length: channels }, () => new Array(length).fill(0)), sampleRate),
+});
+
+interface FakeSource {
+    buffer: AudioBuffer;
+    starts: [number, number][];
+    stops: number[];
+    rates: [number, number][];
+    loop: boolean;
+    loopStart: number;
+    loopEnd: number;
+}
+
+const createFakeSourceFactory = (latency = 0) => {
+    const created: FakeSource[] = [];
+    const factory: SourceFactory = buffer => {
+        const fake: FakeSource = { buffer, starts: [], stops: [], rates: [], loop: false, loopStart: 0, loopEnd: 0 };
+        created.push(fake);
+        const source = Object.assign(fake, {
+            start: (when: number, offset: number) => { fake.starts.push([when, offset]); },
+            stop: (when: number) => { fake.stops.push(when); },
+            playbackRate: { setValueAtTime: (value: number, when: number) => { fake.rates.push([value, when]); } },
+        });
+        return { source: source as unknown as AudioBufferSourceNode, latency };
+    };
+    return { factory, created };
+};
+
+// A 100-second track at 10 samples a second, each sample holding its own index
+const setup = (latency = 0) => {
+    const context = createFakeContext();
+    const scheduler = createClockScheduler();
+    const onEnded = vi.fn();
+    const transport = createDeckTransport(context as unknown as BaseAudioContext, { scheduler, onEnded });
+    transport.load(createFakeBuffer([Array.from({ length: 1000 }, (_, i) => i)], 10));
+    const { factory, created } = createFakeSourceFactory(latency);
+    const tick = (time: number) => {
+        context.currentTime = time;
+        scheduler.run(time);
+    };
+    return { context, transport, onEnded, factory, created, tick };
+};
+
+describe('advancePlayhead', () => {
+    it('wraps inside a loop and ignores one already passed', () => {
+        expect(advancePlayhead(1, 2, null)).toBe(3);
+        expect(advancePlayhead(1, 5, { start: 2, end: 4 })).toBe(2);
+        expect(advancePlayhead(1, 6, { start: 2, end: 4 })).toBe(3);
+        expect(advancePlayhead(5, 6, { start: 2, end: 4 })).toBe(11);
+    });
+});
+
+describe('createDeckTransport', () => {
+    it('plays from an offset at the given rate', () => {
+        const { transport, factory, created, tick } = setup();
+        transport.play(factory, 10, 1.5);
+        expect(created[0].starts).toEqual([[0, 10]]);
+        expect(created[0].rates).toEqual([[1.5, 0]]);
+        tick(4);
+        expect(transport.getPosition()).toBeCloseTo(16, 10);
+        expect(transport.isPlaying()).toBe(true);
+        expect(transport.stop()).toBeCloseTo(16, 10);
+        expect(created[0].stops).toEqual([4]);
+        tick(10);
+        expect(transport.getPosition()).toBeCloseTo(16, 10);
+        expect(transport.isPlaying()).toBe(false);
+    });
+
+    it('waits at the offset until a scheduled start, started early by the latency', () => {
+        const { transport, factory, created, tick } = setup(0.25);
+        transport.play(factory, 20, 1, 2);
+        expect(created[0].starts).toEqual([[1.75, 20]]);
+        tick(1);
+        expect(transport.getPosition()).toBe(20);
+        expect(transport.isPlaying()).toBe(false);
+        tick(3);
+        expect(transport.getPosition()).toBeCloseTo(21, 10);
+    });
+
+    it('stops the deck at the end of the track on the clock', () => {
+        const { transport, onEnded, factory, tick } = setup();
+        transport.play(factory, 90, 2);
+        tick(4.9);
+        expect(onEnded).not.toHaveBeenCalled();
+        tick(6);
+        expect(onEnded).toHaveBeenCalledWith(5);
+        expect(transport.getPosition()).toBe(100);
+        expect(transport.isPlaying()).toBe(false);
+    });
+
+    it('wraps at the loop end and never reaches the track end while looping', () => {
+        const { transport, onEnded, factory, created, tick } = setup();
+        transport.play(factory, 0, 1);
+        transport.setLoop({ start: 2, end: 4 });
+        expect(created[0]).toMatchObject({ loop: true, loopStart: 2, loopEnd: 4 });
+        tick(5);
+        expect(transport.getPosition()).toBeCloseTo(3, 10);
+        tick(200);
+        expect(onEnded).not.toHaveBeenCalled();
+        transport.setLoop(null);
+        expect(created[0].loop).toBe(false);
+        expect(transport.getPosition()).toBeCloseTo(2, 10);
+        tick(300);
+        expect(onEnded).toHaveBeenCalledWith(298);
+    });
+
+    it('splits the playhead where the rate changes, once the latency has passed', () => {
+        const { transport, onEnded, factory, created, tick } = setup(0.5);
+        transport.play(factory, 0, 1);
+        tick(2);
+        transport.setRate(2);
+        expect(created[0].rates.at(-1)).toEqual([2, 2]);
+        tick(3);
+        // 2.5 s at rate 1, then 0.5 s at rate 2
+        expect(transport.getPosition()).toBeCloseTo(3.5, 10);
+        tick(60);
+        expect(onEnded).toHaveBeenCalledWith(2.5 + (100 - 2.5) / 2);
+    });
+
+    it('plays backwards from a reversed copy of the track and stops at its start', () => {
+        const { transport, onEnded, factory, created, tick } = setup();
+        transport.play(factory, 0, 1);
+        tick(30);
+        transport.setReversed(factory, true);
+        expect(created[0].stops).toEqual([30]);
+        const reversed = created[1];
+        expect(reversed.starts).toEqual([[30, 70]]);
+        expect(reversed.buffer.getChannelData(0)[0]).toBe(999);
+        tick(40);
+        expect(transport.getPosition()).toBeCloseTo(20, 10);
+        tick(100);
+        expect(transport.getPosition()).toBe(0);
+        expect(onEnded).not.toHaveBeenCalled();
+        transport.setReversed(factory, false);
+        expect(created[2].starts).toEqual([[100, 0]]);
+    });
+
+    it('hands a scheduled seek over to a new source as the old one goes quiet', () => {
+        const { transport, factory, created, tick } = setup(0.1);
+        transport.play(factory, 0, 1);
+        transport.seek(factory, 50, 5);
+        expect(created[0].stops).toEqual([4.9]);
+        expect(created[1].starts).toEqual([[4.9, 50]]);
+        tick(4);
+        expect(transport.getPosition()).toBeCloseTo(4, 10);
+        tick(6);
+        expect(transport.getPosition()).toBeCloseTo(51, 10);
+    });
+
+    it('reroutes without a jump in what is heard', () => {
+        const { context, transport, factory, tick } = setup();
+        const slower = createFakeSourceFactory(0.2);
+        transport.play(factory, 0, 1);
+        tick(10);
+        transport.reroute(slower.factory);
+        expect(slower.created[0].starts).toEqual([[10, 10.2]]);
+        context.currentTime = 11;
+        expect(transport.getPosition()).toBeCloseTo(11, 10);
+    });
+});
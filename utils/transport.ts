@@ -0,0 +1,271 @@
+// --- Deck Transport ---
+// Where a deck is in its track, kept on the AudioContext clock instead of being counted
+// up frame by frame. The playhead is a list of segments, each a context time, the track
+// position heard then, a rate, a direction and a loop; the position at any time follows
+// from the segment in force, wrapping at the loop end the way the buffer source does.
+//
+// Moves (play, stop, seek, reverse) can be scheduled ahead: the sources playing hand over
+// to a new one at that exact time and the new segment starts there too. The track end is
+// an event on the same clock. Nothing here reads the wall clock, so an OfflineAudioContext
+// driven with suspend() and the scheduler's run() behaves like a live one.
+
+export interface TransportLoop {
+    start: number;
+    end: number;
+}
+
+// A new source from the deck's graph, connected but not started. `latency` is how long its
+// sound takes to reach the output (the key lock's), so it's started that much earlier or further in.
+export interface TransportSource {
+    source: AudioBufferSourceNode;
+    latency: number; // seconds
+}
+
+export type SourceFactory = (buffer: AudioBuffer, rate: number) => TransportSource;
+
+// The playhead from `contextTime` until the next segment
+interface Segment {
+    contextTime: number;
+    offset: number; // Track seconds heard at contextTime
+    playing: boolean;
+    rate: number;
+    reversed: boolean;
+    loop: TransportLoop | null;
+}
+
+interface ActiveSource extends TransportSource {
+    startAt: number; // Context time the source starts reading
+    reversed: boolean;
+}
+
+interface ClockEvent {
+    when: number;
+    action: (when: number) => void;
+}
+
+// Track position `elapsed` seconds of audio after starting from `offset`, following a loop the way the source does
+export const advancePlayhead = (offset: number, elapsed: number, loop: TransportLoop | null): number => {
+    const time = offset + elapsed;
+    if (!loop || offset >= loop.end || time < loop.end) return time;
+    return loop.start + (time - loop.end) % (loop.end - loop.start);
+};
+
+export const reverseAudioBuffer = (buffer: AudioBuffer, context: BaseAudioContext): AudioBuffer => {
+    const reversed = context.createBuffer(buffer.numberOfChannels, buffer.length, buffer.sampleRate);
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+        reversed.copyToChannel(buffer.getChannelData(channel).slice().reverse(), channel);
+    }
+    return reversed;
+};
+
+// --- Clock Scheduler ---
+// Actions due at AudioContext times, run in time order by whoever drives the clock: a timer
+// in the app, or a test stepping an OfflineAudioContext. Each action is handed its own time,
+// so whatever audio it schedules lands exactly there however late the run.
+export const createClockScheduler = () => {
+    let events: ClockEvent[] = [];
+
+    // Returns a function that cancels the action if it hasn't run yet
+    const schedule = (when: number, action: (when: number) => void): (() => void) => {
+        const event = { when, action };
+        const index = events.findIndex(e => e.when > when);
+        events = index < 0 ? [...events, event] : [...events.slice(0, index), event, ...events.slice(index)];
+        return () => { events = events.filter(e => e !== event); };
+    };
+
+    // Runs everything due by `until`, including actions those schedule in the meantime
+    const run = (until: number) => {
+        while (events.length > 0 && events[0].when <= until) {
+            const [event, ...rest] = events;
+            events = rest;
+            event.action(event.when);
+        }
+    };
+
+    const clear = () => { events = []; };
+
+    return { schedule, run, clear };
+};
+
+export type ClockScheduler = ReturnType<typeof createClockScheduler>;
+
+interface DeckTransportOptions {
+    scheduler: ClockScheduler;
+    onEnded?: (when: number) => void; // Played out to the end of the track
+}
+
+export const createDeckTransport = (context: BaseAudioContext, { scheduler, onEnded }: DeckTransportOptions) => {
+    let buffer: AudioBuffer | null = null;
+    let reversedBuffer: AudioBuffer | null = null;
+    let segments: Segment[] = [{ contextTime: 0, offset: 0, playing: false, rate: 1, reversed: false, loop: null }];
+    let sources: ActiveSource[] = [];
+    let cancelEnd: (() => void) | null = null;
+
+    const getDuration = () => buffer?.duration ?? 0;
+
+    const segmentAt = (time: number): Segment => {
+        for (let i = segments.length - 1; i > 0; i--) {
+            if (segments[i].contextTime <= time) return segments[i];
+        }
+        return segments[0];
+    };
+
+    const loops = (segment: Segment): boolean => !segment.reversed && segment.loop !== null && segment.offset < segment.loop.end;
+
+    // When a segment plays out to the end of the track, if it does
+    const getEndTime = (segment: Segment): number => {
+        if (!segment.playing || segment.reversed || loops(segment)) return Infinity;
+        return segment.contextTime + Math.max(0, getDuration() - segment.offset) / segment.rate;
+    };
+
+    const positionIn = (segment: Segment, time: number): number => {
+        if (!segment.playing) return segment.offset;
+        const elapsed = Math.max(0, time - segment.contextTime) * segment.rate;
+        if (segment.reversed) return Math.max(0, segment.offset - elapsed);
+        return Math.min(getDuration(), advancePlayhead(segment.offset, elapsed, segment.loop));
+    };
+
+    const getPosition = (time = context.currentTime): number => positionIn(segmentAt(time), time);
+
+    const isPlaying = (time = context.currentTime): boolean => {
+        const segment = segmentAt(time);
+        return segment.playing && time >= segment.contextTime && time < getEndTime(segment);
+    };
+
+    // Segments over before now only matter for the one still in force
+    const prune = () => {
+        const now = context.currentTime;
+        const index = segments.map(segment => segment.contextTime <= now).lastIndexOf(true);
+        if (index > 0) segments = segments.slice(index);
+    };
+
+    const scheduleEnd = () => {
+        cancelEnd?.();
+        cancelEnd = null;
+        const last = segments[segments.length - 1];
+        const endTime = getEndTime(last);
+        if (endTime === Infinity) return;
+        cancelEnd = scheduler.schedule(endTime, when => {
+            cancelEnd = null;
+            move(when, { ...last, offset: getDuration(), playing: false });
+            onEnded?.(when);
+        });
+    };
+
+    const applyLoop = (source: AudioBufferSourceNode, loop: TransportLoop | null) => {
+        source.loop = loop !== null;
+        if (loop) {
+            source.loopStart = loop.start;
+            source.loopEnd = loop.end;
+        }
+    };
+
+    // Starts a source so what's heard from it is where the segment says
+    const startSource = (segment: Segment, created: TransportSource) => {
+        const { source, latency } = created;
+        const startAt = Math.max(context.currentTime, segment.contextTime - latency);
+        const heard = positionIn(segment, startAt + latency);
+        source.playbackRate.setValueAtTime(segment.rate, context.currentTime);
+        if (segment.reversed) {
+            source.start(startAt, Math.max(0, getDuration() - heard));
+        } else {
+            applyLoop(source, segment.loop);
+            source.start(startAt, heard);
+        }
+        sources = [...sources, { ...created, startAt, reversed: segment.reversed }];
+    };
+
+    // Replaces the playhead from `when` on. Later moves are dropped, and the sources hand over
+    // to a new one: each stops as its last sound before `when` has gone out.
+    const move = (when: number, next: Omit<Segment, 'contextTime'>, createSource?: SourceFactory | TransportSource) => {
+        prune();
+        const now = context.currentTime;
+        const at = Math.max(when, now);
+        sources.forEach(({ source, latency }) => source.stop(Math.max(now, at - latency)));
+        sources = [];
+        const segment: Segment = { ...next, contextTime: at };
+        segments = [...segments.filter(s => s.contextTime < at), segment];
+        if (segment.playing && buffer && createSource) {
+            if (segment.reversed) reversedBuffer ??= reverseAudioBuffer(buffer, context);
+            const playBuffer = segment.reversed ? reversedBuffer! : buffer;
+            startSource(segment, typeof createSource === 'function' ? createSource(playBuffer, segment.rate) : createSource);
+        }
+        scheduleEnd();
+    };
+
+    // Changes rate or loop from `when` on, keeping the moves already scheduled after it
+    const change = (when: number, changes: Partial<Pick<Segment, 'rate' | 'loop'>>) => {
+        prune();
+        const current = segmentAt(when);
+        const split: Segment = { ...current, ...changes, contextTime: when, offset: positionIn(current, when) };
+        segments = [
+            ...segments.filter(s => s.contextTime < when),
+            split,
+            ...segments.filter(s => s.contextTime > when).map(s => ({ ...s, ...changes })),
+        ];
+        scheduleEnd();
+    };
+
+    // A new track; the transport stops at its start
+    const load = (next: AudioBuffer | null) => {
+        move(context.currentTime, { ...segmentAt(context.currentTime), offset: 0, playing: false, reversed: false, loop: null });
+        buffer = next;
+        reversedBuffer = null;
+    };
+
+    // Plays forwards from `offset`, heard from `when`; until then the deck waits there
+    const play = (createSource: SourceFactory, offset: number, rate: number, when = context.currentTime) => {
+        move(context.currentTime, { ...segmentAt(context.currentTime), offset, playing: false });
+        move(when, { ...segmentAt(when), offset, rate, playing: true, reversed: false }, createSource);
+    };
+
+    // Returns the position it stopped at
+    const stop = (when = context.currentTime): number => {
+        const position = getPosition(when);
+        move(when, { ...segmentAt(when), offset: position, playing: false });
+        return position;
+    };
+
+    const seek = (createSource: SourceFactory, offset: number, when = context.currentTime) => {
+        move(when, { ...segmentAt(when), offset: Math.max(0, Math.min(offset, getDuration())) }, createSource);
+    };
+
+    // Plays backwards (from a reversed copy of the track) or forwards again from where it is
+    const setReversed = (createSource: SourceFactory, reversed: boolean, when = context.currentTime) => {
+        move(when, { ...segmentAt(when), offset: getPosition(when), reversed }, createSource);
+    };
+
+    // The rate is heard to change once the sources' latency has passed
+    const setRate = (rate: number) => {
+        const now = context.currentTime;
+        sources.forEach(({ source }) => source.playbackRate.setValueAtTime(rate, now));
+        change(now + Math.max(0, ...sources.map(s => s.latency)), { rate });
+    };
+
+    // Sources already playing before `when` only take the loop when it applies now, so a
+    // loop set with a scheduled jump doesn't wrap the source that plays until the jump
+    const setLoop = (loop: TransportLoop | null, when = context.currentTime) => {
+        const now = context.currentTime;
+        const at = Math.max(when, now);
+        sources.forEach(({ source, latency, startAt, reversed }) => {
+            if (!reversed && (at <= now || startAt + latency >= at)) applyLoop(source, loop);
+        });
+        change(at, { loop });
+    };
+
+    // Swaps the sources for ones from `createSource` with no jump in what's heard, e.g. into or
+    // out of the key lock. The handover waits for the slower path, so neither starts in the past.
+    const reroute = (createSource: SourceFactory) => {
+        const now = context.currentTime;
+        const current = segmentAt(now);
+        if (!current.playing || !buffer) return;
+        if (current.reversed) reversedBuffer ??= reverseAudioBuffer(buffer, context);
+        const created = createSource(current.reversed ? reversedBuffer! : buffer, current.rate);
+        const when = now + Math.max(created.latency, ...sources.map(s => s.latency));
+        move(when, { ...segmentAt(when), offset: getPosition(when) }, created);
+    };
+
+    return { load, play, stop, seek, setReversed, setRate, setLoop, reroute, getPosition, isPlaying };
+};
+
+export type DeckTransport = ReturnType<typeof createDeckTransport>;
@@ -0,0 +1,27 @@
+import type { TrackAnalysis } from '../types';
+import { analyzeSamples } from '../utils/analysis';
+
+// Runs tempo/key/loudness/waveform/fingerprint analysis off the main thread.
+// Decoding needs an AudioContext, so the main thread sends decoded mono samples.
+
+export interface AnalysisRequest {
+    jobId: number;
+    samples: Float32Array;
+    sampleRate: number;
+}
+
+export type AnalysisResponse =
+    | { jobId: number; analysis: TrackAnalysis }
+    | { jobId: number; error: string };
+
+self.onmessage = (event: MessageEvent<AnalysisRequest>) => {
+    const { jobId, samples, sampleRate } = event.data;
+    try {
+        const analysis = analyzeSamples(samples, sampleRate);
+        const response: AnalysisResponse = { jobId, analysis };
+        self.postMessage(response, { transfer: [analysis.waveform.buffer, analysis.fingerprint.buffer] });
+    } catch (error) {
+        const response: AnalysisResponse = { jobId, error: String(error) };
+        self.postMessage(response);
+    }
+};
@@ -0,0 +1,37 @@
+import { createPitchShifter, KEY_LOCK_PROCESSOR, MIN_PITCH_RATIO, MAX_PITCH_RATIO } from '../utils/timeStretch';
+
+// Key lock for a deck: pitch-shifts its buffer source by `pitchRatio`, the inverse of the
+// playback rate, so tempo changes keep the original key. See utils/timeStretch.
+
+// AudioWorkletGlobalScope isn't in the DOM typings
+declare const sampleRate: number;
+declare function registerProcessor(name: string, processor: new () => AudioWorkletProcessor): void;
+declare abstract class AudioWorkletProcessor {
+    readonly port: MessagePort;
+    abstract process(inputs: Float32Array[][], outputs: Float32Array[][], parameters: Record<string, Float32Array>): boolean;
+}
+
+class KeyLockProcessor extends AudioWorkletProcessor {
+    static get parameterDescriptors() {
+        return [{ name: 'pitchRatio', defaultValue: 1, minValue: MIN_PITCH_RATIO, maxValue: MAX_PITCH_RATIO, automationRate: 'k-rate' }];
+    }
+
+    private shifter = createPitchShifter(sampleRate, 2);
+    private hasInput = false;
+    private silentSamples = 0;
+
+    process(inputs: Float32Array[][], outputs: Float32Array[][], parameters: Record<string, Float32Array>): boolean {
+        const input = inputs[0];
+        this.shifter.process(input, outputs[0], parameters.pitchRatio[0]);
+        // Stay alive until the source starts, then until what it fed in has played out after it stops
+        if (input.length > 0) {
+            this.hasInput = true;
+            this.silentSamples = 0;
+        } else {
+            this.silentSamples += outputs[0][0]?.length ?? 0;
+        }
+        return !this.hasInput || this.silentSamples < 2 * this.shifter.latency;
+    }
+}
+
+registerProcessor(KEY_LOCK_PROCESSOR, KeyLockProcessor);